@@ -0,0 +1,46 @@
+// Local stand-in for the outbound message endpoints, for trying channels without a real
+// LINE token or mail relay. Node 18+, no dependencies.
+//
+//   npm run mock:messages
+//   PORT=8788 FAIL_RATE=0.3 node server/mock-endpoint.mjs
+//
+// Any POST path is accepted: JSON bodies (webhook, mail relay) and form bodies (LINE Notify
+// style) are printed and answered with 200. FAIL_RATE answers that share of requests with
+// 503 instead, to watch the app's retry queue at work.
+
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT) || 8788;
+const FAIL_RATE = Math.min(1, Math.max(0, Number(process.env.FAIL_RATE) || 0));
+let received = 0;
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+function parse(type, raw) {
+  if (type.includes("application/x-www-form-urlencoded")) return Object.fromEntries(new URLSearchParams(raw));
+  try { return JSON.parse(raw || "{}"); } catch { return raw; }
+}
+
+createServer((req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (req.method !== "POST") return send(res, 405, { error: "POST only" });
+  const chunks = [];
+  req.on("data", (c) => chunks.push(c));
+  req.on("end", () => {
+    const n = ++received;
+    const body = parse(req.headers["content-type"] || "", Buffer.concat(chunks).toString("utf8"));
+    const failed = Math.random() < FAIL_RATE;
+    console.log(`#${n} ${new Date().toLocaleTimeString()} ${req.url}${req.headers.authorization ? " (token)" : ""}${failed ? " → 503" : ""}`);
+    console.log(JSON.stringify(body, null, 2));
+    if (failed) return send(res, 503, { status: 503, message: "simulated failure" });
+    send(res, 200, { status: 200, message: "ok" });
+  });
+}).listen(PORT, () => console.log(`Mock message endpoint on :${PORT}${FAIL_RATE ? ` — failing ${Math.round(FAIL_RATE * 100)}% of requests` : ""}`));
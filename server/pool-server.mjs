@@ -0,0 +1,125 @@
+// Reference sync server for Medical Pool on a hospital LAN. Node 18+, no dependencies.
+//
+//   POOL_TOKEN=secret npm run server
+//   PORT=8787 POOL_DATA=./pool-data.json POOL_TOKEN=secret POOL_ADMIN_TOKEN=other node server/pool-server.mjs
+//
+// POOL_TOKEN is required: every device sends it. Staff accounts decide who may do what on
+// every ward, so changes to them are only taken from a device using POOL_ADMIN_TOKEN (and
+// not at all while it is unset). PIN hashes and salts are never stored or sent: accounts
+// are shared, each device keeps its own PINs. POOL_ORIGIN limits which web origin may call.
+//
+// Records are kept per collection and key with a revision counter; every accepted edit
+// takes the next sequence number so clients can pull "everything after N". An edit made
+// on an outdated revision is refused and returned as a conflict for the client to merge.
+// The whole pool lives in one JSON file, rewritten atomically after each accepted push.
+// Settings (loan, notify and cost policy, org name, logo, channels, templates) are not
+// part of the pool: each device keeps its own, and Settings → server says to set them alike.
+
+import { createServer } from "node:http";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+const PORT = Number(process.env.PORT) || 8787;
+const FILE = resolve(process.env.POOL_DATA || "pool-data.json");
+const TOKEN = process.env.POOL_TOKEN || "";
+const ADMIN_TOKEN = process.env.POOL_ADMIN_TOKEN || "";
+const ORIGIN = process.env.POOL_ORIGIN || "*";
+const PAGE = 500;
+const MAX_BODY = 50 * 1024 * 1024; // signatures travel inline as data URLs
+
+if (!TOKEN) {
+  console.error("POOL_TOKEN is not set — refusing to serve the pool without an access token.");
+  process.exit(1);
+}
+
+/** { seq, schema, records: { [collection]: { [key]: { record, rev, seq } } } } */
+const db = existsSync(FILE) ? JSON.parse(readFileSync(FILE, "utf8")) : { seq: 0, schema: 0, records: {} };
+
+function save() {
+  writeFileSync(FILE + ".tmp", JSON.stringify(db));
+  renameSync(FILE + ".tmp", FILE);
+}
+
+const CREDENTIALS = ["pin_hash", "salt"];
+/** A record as it may leave or enter the server: staff accounts without their PIN hash and salt. */
+const shareable = (collection, record) =>
+  collection === "staff" && record && typeof record === "object"
+    ? Object.fromEntries(Object.entries(record).filter(([k]) => !CREDENTIALS.includes(k)))
+    : record;
+
+const count = () => Object.values(db.records).reduce((n, c) => n + Object.values(c).filter((r) => r.record !== null).length, 0);
+
+function changesSince(since) {
+  const all = [];
+  for (const [collection, recs] of Object.entries(db.records)) {
+    for (const [key, r] of Object.entries(recs)) if (r.seq > since) all.push({ collection, key, record: shareable(collection, r.record), rev: r.rev, seq: r.seq });
+  }
+  all.sort((a, b) => a.seq - b.seq);
+  const page = all.slice(0, PAGE);
+  const more = all.length > PAGE;
+  return { changes: page, cursor: more ? page[page.length - 1].seq : db.seq, more, schema: db.schema };
+}
+
+function applyPush({ schema, changes }, admin) {
+  if (!Array.isArray(changes)) throw Object.assign(new Error("changes must be a list"), { status: 400 });
+  const applied = [], conflicts = [], denied = [];
+  for (const c of changes) {
+    if (!/^[A-Za-z]+$/.test(c.collection ?? "") || typeof c.key !== "string") continue;
+    if (c.collection === "staff" && !admin) { denied.push({ collection: c.collection, key: c.key }); continue; }
+    const recs = (db.records[c.collection] ??= {});
+    const cur = recs[c.key];
+    const rev = cur?.rev ?? 0;
+    if (c.base_rev !== rev) {
+      conflicts.push({ collection: c.collection, key: c.key, record: shareable(c.collection, cur?.record ?? null), rev, seq: cur?.seq ?? 0 });
+      continue;
+    }
+    recs[c.key] = { record: shareable(c.collection, c.record ?? null), rev: rev + 1, seq: ++db.seq };
+    applied.push({ collection: c.collection, key: c.key, rev: rev + 1 });
+  }
+  if (Number(schema) > db.schema) db.schema = Number(schema);
+  if (applied.length) save();
+  return { applied, conflicts, denied };
+}
+
+function readBody(req) {
+  return new Promise((ok, fail) => {
+    let size = 0;
+    const chunks = [];
+    // past the limit the rest is read and dropped, so the client gets the 413 rather than a reset socket
+    req.on("data", (c) => {
+      size += c.length;
+      if (size <= MAX_BODY) chunks.push(c);
+    });
+    req.on("end", () => {
+      if (size > MAX_BODY) return fail(Object.assign(new Error("body too large"), { status: 413 }));
+      try { ok(JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}")); } catch { fail(Object.assign(new Error("invalid JSON"), { status: 400 })); }
+    });
+    req.on("error", fail);
+  });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": ORIGIN,
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+createServer(async (req, res) => {
+  const url = new URL(req.url, "http://localhost");
+  if (req.method === "OPTIONS") return send(res, 204);
+  const admin = !!ADMIN_TOKEN && req.headers.authorization === `Bearer ${ADMIN_TOKEN}`;
+  if (!admin && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: "unauthorized" });
+  try {
+    if (req.method === "GET" && url.pathname === "/api/info") return send(res, 200, { records: count(), cursor: db.seq, schema: db.schema });
+    if (req.method === "GET" && url.pathname === "/api/changes") return send(res, 200, changesSince(Number(url.searchParams.get("since")) || 0));
+    if (req.method === "POST" && url.pathname === "/api/changes") return send(res, 200, applyPush(await readBody(req), admin));
+    send(res, 404, { error: "not found" });
+  } catch (e) {
+    console.error(e);
+    send(res, e.status || 500, { error: e.message });
+  }
+}).listen(PORT, () => console.log(`Medical Pool sync server on :${PORT} — data in ${FILE}${ADMIN_TOKEN ? "" : " (staff accounts not synced: POOL_ADMIN_TOKEN unset)"}`));
@@ -15,250 +15,502 @@ import {
   Download,
   Printer,
   QrCode,
+  FileSpreadsheet,
+  ScanLine,
+  Tags,
+  Stethoscope,
+  CalendarDays,
+  ShoppingCart,
+  User,
+  Lock,
+  Wifi,
+  WifiOff,
+  RefreshCw,
+  BarChart3,
 } from "lucide-react";
+import type { Asset, AuditAction, AuditEntity, AuditEntry, BorrowRecord, CostPolicy, Delivery, Department, MessageChannel, MessageEvent, Model, LoanPolicy, NotifyPolicy, OverdueAlert, PoolData, QuarantinedRecord, ReportColumn, ReportTemplate, Reservation, ServicePlan, ServiceRecord, StaffAccount, StatusChange, WaitlistEntry } from "./types";
+import type { PoolSettings } from "./storage/backup";
+import { KEYS, onWriteError, resetRepository, type BootReport } from "./storage/repository";
+import { useStoredState } from "./hooks/useStoredState";
+import { Badge, Button, CInput, Card, SignaturePad, Text } from "./components/ui";
+import { BackupPanel } from "./components/BackupPanel";
+import { AssetImport } from "./components/AssetImport";
+import { LabelPrint } from "./components/LabelPrint";
+import { AssetDetail, StatusBadge } from "./components/AssetDetail";
+import { DueBadge, ModelServicePlans } from "./components/AssetService";
+import { LoanPolicySettings } from "./components/LoanPolicySettings";
+import { NotifySettings } from "./components/NotifySettings";
+import { AlertBell, ReminderLetters } from "./components/OverdueAlerts";
+import { useOverdueWatch } from "./hooks/useOverdueWatch";
+import { MessagingSettings } from "./components/MessagingSettings";
+import { useDeliveryQueue } from "./hooks/useDeliveryQueue";
+import { ADAPTERS } from "./messaging/adapters";
+import { Reservations } from "./components/Reservations";
+import { PriorityBadge, Waitlist } from "./components/Waitlist";
+import { UnitPicker } from "./components/UnitPicker";
+import { ReturnDialog, type ReturnedLoan } from "./components/ReturnDialog";
+import { AuditLog } from "./components/AuditLog";
+import { Analytics } from "./components/Analytics";
+import { ReportBuilder } from "./components/ReportBuilder";
+import { CostAllocation } from "./components/CostAllocation";
+import { CostSettings } from "./components/CostSettings";
+import { ScannerDialog } from "./components/Scanner";
+import { useKeyboardWedge } from "./hooks/useKeyboardWedge";
+import { useIdleLock } from "./hooks/useIdleLock";
+import { LockScreen } from "./components/LockScreen";
+import { StaffSettings } from "./components/StaffSettings";
+import { SyncBadge, SyncSettings } from "./components/SyncSettings";
+import { useOnline, useUpdateReady } from "./hooks/useAppStatus";
+import { applyUpdate } from "./pwa/register";
+import { linkedLoan, resolveScan } from "./domain/scan";
+import { DEFAULT_POLICY, loanEvaluator, normalizePolicy, type LoanDue } from "./domain/loanPolicy";
+import { DEFAULT_NOTIFY, MAX_ALERTS, normalizeNotifyPolicy, openAlerts } from "./domain/overdue";
+import { DEFAULT_COST, normalizeCostPolicy } from "./domain/costAllocation";
+import { DEFAULT_REPORT, REPORT_COLUMNS, buildReport, reportAoa, type ReportCell, type ReportDef, type ReportRow } from "./domain/report";
+import { reportHtml, reportXlsHtml } from "./print/report";
+import { handoverHtml } from "./print/handover";
+import { DEFAULT_TEMPLATES, MAX_DELIVERIES, dueSoonPending, loanFields, queueMessages, type MessageFields } from "./domain/messaging";
+import { conflictsFor, occupancy } from "./domain/reservations";
+import { nextInQueue, typeLabel } from "./domain/waitlist";
+import { groupLoans, loansInGroup, newGroupId, slipLoans, type SlipKind } from "./domain/checkout";
+import { returnStatusChange } from "./domain/inspection";
+import { auditEntry, undoneIds } from "./domain/audit";
+import { DEFAULT_LOCK_MINUTES, PERMISSION_LABELS, ROLE_LABELS, can, isSecured, type Permission } from "./domain/staff";
+import { dueServices, serviceDue, type ServiceDue } from "./domain/maintenance";
+import { ASSET_STATUSES, STATUS_LABELS, STATUS_TONE, isLendable, statusChangeError, statusCounts } from "./domain/assetStatus";
+import { daysBetween, downloadBlob, formatDate, loadXLSX, openPrintWindow, todayStr, uid } from "./utils";
 
-/** Local, robust useLocalStorage hook (persists safely, no auto-reset) */
-function useLocalStorage<T>(key: string, initialValue: T) {
-  const [value, setValue] = React.useState<T>(() => {
-    try {
-      const raw = window.localStorage.getItem(key);
-      return raw !== null ? (JSON.parse(raw) as T) : initialValue;
-    } catch {
-      return initialValue;
+/********** root **********/
+export default function App({ boot }: { boot: BootReport }) {
+  const [tab, setTab] = useState<'dashboard' | 'assets' | 'borrow' | 'reservations' | 'return' | 'report' | 'analytics' | 'settings'>('dashboard');
+
+  // master data (persist)
+  const [brands, setBrands] = useStoredState<string[]>("mp:brands", []);
+  const [models, setModels] = useStoredState<Model[]>("mp:models", []);
+  const [vendors, setVendors] = useStoredState<string[]>("mp:vendors", []);
+  const [depts, setDepts]     = useStoredState<Department[]>("mp:depts",   []);
+
+  // assets & borrows (persist)
+  const [assets, setAssets] = useStoredState<Asset[]>("mp:assets", []);
+  const [borrows, setBorrows] = useStoredState<BorrowRecord[]>("mp:borrows", []);
+  const [statusLog, setStatusLog] = useStoredState<StatusChange[]>("mp:status_log", []);
+  const [servicePlans, setServicePlans] = useStoredState<ServicePlan[]>("mp:service_plans", []);
+  const [serviceLog, setServiceLog] = useStoredState<ServiceRecord[]>("mp:service_log", []);
+  const [reservations, setReservations] = useStoredState<Reservation[]>("mp:reservations", []);
+  const [waitlist, setWaitlist] = useStoredState<WaitlistEntry[]>("mp:waitlist", []);
+  const [quarantine, setQuarantine] = useStoredState<QuarantinedRecord[]>("mp:quarantine", []);
+
+  // settings (persist)
+  const [orgName, setOrgName]       = useStoredState<string>("mp:org_name", "Hospital Name");
+  const [reportLogo, setReportLogo] = useStoredState<string>("mp:report_logo", "");
+  const [storedPolicy, setLoanPolicy] = useStoredState<LoanPolicy>("mp:loan_policy", DEFAULT_POLICY);
+  const loanPolicy = useMemo(() => normalizePolicy(storedPolicy), [storedPolicy]);
+  const [storedNotify, setNotifyPolicy] = useStoredState<NotifyPolicy>("mp:notify_policy", DEFAULT_NOTIFY);
+  const notifyPolicy = useMemo(() => normalizeNotifyPolicy(storedNotify), [storedNotify]);
+  const [storedCost, setCostPolicy] = useStoredState<CostPolicy>("mp:cost_policy", DEFAULT_COST);
+  const costPolicy = useMemo(() => normalizeCostPolicy(storedCost), [storedCost]);
+  const [reportTemplates, setReportTemplates] = useStoredState<ReportTemplate[]>("mp:report_templates", []);
+
+  // failed writes stay on screen until dismissed
+  const [writeError, setWriteError] = useState<string | null>(null);
+  useEffect(() => onWriteError(setWriteError), []);
+  const online = useOnline();
+  const updateReady = useUpdateReady();
+
+  const active = useMemo(() => borrows.filter(b => !b.returned_at), [borrows]);
+  const activeIds = useMemo(() => active.map(b => b.asset_id), [active]);
+  const borrowedCount = new Set(active.map(b => b.asset_id)).size;
+  const availableCount = assets.filter(a => isLendable(a) && !activeIds.includes(a.asset_id)).length;
+  const dueOf = useMemo(() => loanEvaluator(loanPolicy, assets), [loanPolicy, assets]);
+  const overdueCount = active.filter(b => dueOf(b).state === "overdue").length;
+  const serviceDueList = useMemo(() => dueServices(assets, servicePlans, serviceLog), [assets, servicePlans, serviceLog]);
+
+  // overdue alerts: raised on a schedule per escalation step, acknowledged per device
+  const [alerts, setAlerts] = useStoredState<OverdueAlert[]>("mp:alerts", []);
+  useOverdueWatch(active, dueOf, notifyPolicy, alerts, (list) => {
+    setAlerts(prev => [...list, ...prev].slice(0, MAX_ALERTS));
+    for (const a of list) {
+      const b = active.find(x => x.id === a.borrow_id);
+      if (b) enqueueMessages("overdue", `${a.borrow_id}:${a.step_id}`, b.borrower_dept, loanFields(b, { due_date: formatDate(dueOf(b).due), days_over: a.days_over, org_name: orgName }));
     }
   });
-  // keep in sync across tabs
-  React.useEffect(() => {
-    const onStorage = (e: StorageEvent) => {
-      if (e.key === key && e.newValue !== null) {
-        try { setValue(JSON.parse(e.newValue!)); } catch {}
-      }
+  const shownAlerts = useMemo(() => openAlerts(alerts, active), [alerts, active]);
+
+  // outbound messages: channels hold endpoint tokens, so they stay on this device and out of backups
+  const [channels, setChannels] = useStoredState<MessageChannel[]>("mp:channels", []);
+  const [templates, setTemplates] = useStoredState<Record<MessageEvent, string>>("mp:message_templates", DEFAULT_TEMPLATES);
+  const [deliveries, setDeliveries] = useStoredState<Delivery[]>("mp:deliveries", []);
+  const enqueueMessages = (event: MessageEvent, ref: string, dept: string, fields: MessageFields) =>
+    setDeliveries(prev => {
+      const queued = queueMessages(prev, channels, templates, event, ref, dept, fields);
+      return queued.length ? [...queued, ...prev].slice(0, MAX_DELIVERIES) : prev;
+    });
+  const updateDelivery = (id: string, fn: (d: Delivery) => Delivery) => setDeliveries(prev => prev.map(d => d.id === id ? fn(d) : d));
+  useDeliveryQueue(deliveries, channels, updateDelivery);
+  // due-soon notices go out once per loan, checked hourly; the loans notified are kept like raised alerts,
+  // since clearing or trimming the delivery log must not send them again
+  const [dueSoonSent, setDueSoonSent] = useStoredState<string[]>("mp:due_soon_sent", []);
+  useEffect(() => {
+    if (!channels.some(c => c.enabled && c.events.includes("due_soon"))) return;
+    const check = () => {
+      const list = dueSoonPending(active, dueOf, dueSoonSent);
+      if (!list.length) return;
+      for (const b of list) enqueueMessages("due_soon", b.id, b.borrower_dept, loanFields(b, { due_date: formatDate(dueOf(b).due), org_name: orgName }));
+      const known = new Set(borrows.map(b => b.id));
+      setDueSoonSent(prev => [...prev.filter(id => known.has(id)), ...list.map(b => b.id)]);
     };
-    window.addEventListener('storage', onStorage);
-    return () => window.removeEventListener('storage', onStorage);
-  }, [key]);
-  // persist on change
-  React.useEffect(() => {
-    try { window.localStorage.setItem(key, JSON.stringify(value)); } catch {}
-  }, [key, value]);
-  return [value, setValue] as const;
-}
+    check();
+    const t = setInterval(check, 60 * 60 * 1000);
+    return () => clearInterval(t);
+  }, [active, dueOf, channels, templates, orgName, dueSoonSent]);
 
-/********** tiny UI helpers **********/
-const Card = ({ className = "", children }: { className?: string; children: React.ReactNode }) => (
-  <div className={"bg-white/90 backdrop-blur border rounded-2xl p-4 shadow-sm " + className}>{children}</div>
-);
-const Badge = ({ tone = "slate", children }: { tone?: "slate" | "green" | "red" | "blue"; children: React.ReactNode }) => {
-  const map: any = {
-    slate: "bg-slate-100 text-slate-700 border-slate-200",
-    green: "bg-emerald-50 text-emerald-700 border-emerald-200",
-    red: "bg-red-50 text-red-700 border-red-200",
-    blue: "bg-blue-50 text-blue-700 border-blue-200",
-  };
-  return <span className={"inline-flex items-center px-2.5 py-1 rounded-full text-xs border " + map[tone]}>{children}</span>;
-};
-const Button = ({ variant = "default", size = "md", className = "", ...rest }: any) => {
-  const variantMap: any = {
-    default: "bg-blue-600 text-white hover:bg-blue-700",
-    ghost: "border hover:bg-slate-50",
-    danger: "bg-red-600 text-white hover:bg-red-700",
-    success: "bg-emerald-600 text-white hover:bg-emerald-700",
-    secondary: "bg-slate-700 text-white hover:bg-slate-800",
-  };
-  const sizeMap: any = { sm: "px-3 py-1.5 rounded-lg text-sm", md: "px-4 py-2 rounded-xl", lg: "px-5 py-3 rounded-2xl text-base" };
-  return <button className={[variantMap[variant], sizeMap[size], "inline-flex items-center gap-2", className].join(" ")} {...rest} />;
-};
-
-/** composition-safe Text input (for labeled fields) */
-const Text = ({
-  label, value, onChange, type = "text", placeholder, required,
-}: { label: string; value: any; onChange?: (v: string) => void; type?: string; placeholder?: string; required?: boolean; }) => {
-  const [local, setLocal] = useState<string>("");
-  const composing = useRef(false);
+  // audit trail: every mutation below appends one entry (who, when, before/after); entries are never edited
+  const [audit, setAudit] = useStoredState<AuditEntry[]>("mp:audit", []);
+  const [operator, setOperator] = useStoredState<string>("mp:operator", "");
 
-  useEffect(() => {
-    if (!composing.current) setLocal((value ?? "").toString());
-  }, [value]);
+  // staff accounts: once one is active, every session signs in with a PIN and the role decides what it may change
+  const [staff, setStaff] = useStoredState<StaffAccount[]>("mp:staff", []);
+  const [lockMinutes, setLockMinutes] = useStoredState<number>("mp:lock_minutes", DEFAULT_LOCK_MINUTES);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [lastUserId, setLastUserId] = useState<string | null>(null);
+  const user = staff.find(s => s.id === userId && s.active) ?? null;
+  const secured = isSecured(staff);
+  const locked = secured && !user;
+  const actor = user?.name ?? operator;
+  const allow = (p: Permission) => {
+    if (can(user, secured, p)) return true;
+    alert(`ไม่มีสิทธิ์${PERMISSION_LABELS[p]}`);
+    return false;
+  };
+  const lock = () => { setLastUserId(userId); setUserId(null); };
+  useIdleLock(lockMinutes, lock, !!user);
+  const record = (action: AuditAction, entity: AuditEntity, ref: string, before: unknown, after: unknown, undoes: string | null = null) =>
+    setAudit(prev => [auditEntry(actor, action, entity, ref, before, after, undoes), ...prev]);
+  // settings typed key by key are logged once the typing stops, against the value from before it started
+  const settingEdits = useRef(new Map<string, { before: unknown; timer: ReturnType<typeof setTimeout> }>());
+  const logSetting = (name: string, before: unknown, after: unknown) => {
+    const open = settingEdits.current.get(name);
+    if (open) clearTimeout(open.timer);
+    const from = open ? open.before : before;
+    settingEdits.current.set(name, { before: from, timer: setTimeout(() => { settingEdits.current.delete(name); record("update", "settings", name, from, after); }, 1500) });
+  };
+  const editOrgName    = (v: string) => { if (!allow("settings")) return; logSetting("orgName", orgName, v); setOrgName(v); };
+  const editReportLogo = (v: string) => { if (!allow("settings")) return; logSetting("reportLogo", reportLogo, v); setReportLogo(v); };
+  const editLoanPolicy = (v: LoanPolicy) => { if (!allow("settings")) return; logSetting("loanPolicy", loanPolicy, v); setLoanPolicy(v); };
+  const editNotifyPolicy = (v: NotifyPolicy) => { if (!allow("settings")) return; logSetting("notifyPolicy", notifyPolicy, v); setNotifyPolicy(v); };
+  const editCostPolicy = (v: CostPolicy) => { if (!allow("settings")) return; logSetting("costPolicy", costPolicy, v); setCostPolicy(v); };
+  const editLockMinutes = (v: number) => { if (!allow("settings")) return; logSetting("lockMinutes", lockMinutes, v); setLockMinutes(v); };
+  const ackAlerts = (ids: string[]) => {
+    const at = new Date().toISOString();
+    setAlerts(prev => prev.map(a => ids.includes(a.id) ? { ...a, ack_at: at, ack_by: actor } : a));
+  };
+  const editChannels = (v: MessageChannel[]) => { if (!allow("settings")) return; record("update", "settings", "channels", channels.map(c => c.name), v.map(c => c.name)); setChannels(v); };
+  const editTemplates = (v: Record<MessageEvent, string>) => { if (!allow("settings")) return; logSetting("messageTemplates", templates, v); setTemplates(v); };
+  const editReportTemplates = (v: ReportTemplate[]) => { if (!allow("settings")) return; record("update", "settings", "reportTemplates", reportTemplates, v); setReportTemplates(v); };
+  const testChannel = async (c: MessageChannel) => {
+    const now = new Date().toISOString();
+    const text = `ทดสอบการส่งข้อความจาก ${orgName} (${c.name})`;
+    try {
+      await ADAPTERS[c.kind](c, { id: uid(), channel_id: c.id, event: "borrow_created", ref: "test", subject: `Medical Pool: ${text}`, text, status: "pending", attempts: 0, next_at: now, error: "", created_at: now, sent_at: null });
+      alert("ส่งข้อความทดสอบสำเร็จ");
+    } catch (e: any) {
+      alert(`ส่งไม่สำเร็จ: ${e?.message || e}`);
+    }
+  };
+  const retryDelivery = (id: string) => updateDelivery(id, d => ({ ...d, status: "pending", attempts: 0, error: "", next_at: new Date().toISOString() }));
+  const clearDeliveries = () => setDeliveries(prev => prev.filter(d => d.status === "pending"));
+  const listSetter = <T,>(p: Permission, entity: AuditEntity, current: T[], set: (v: T[]) => void) => (v: T[]) => { if (!allow(p)) return; record("update", entity, "", current, v); set(v); };
+  const editBrands  = listSetter("assets", "brands", brands, setBrands);
+  const editModels  = listSetter("assets", "models", models, setModels);
+  const editVendors = listSetter("assets", "vendors", vendors, setVendors);
+  const editDepts   = listSetter("lend", "depts",depts, setDepts);
+  const editQuarantine = (v: QuarantinedRecord[]) => { if (!allow("settings")) return; record("delete", "quarantine", "", { count: quarantine.length }, { count: v.length }); setQuarantine(v); };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const v = e.target.value;
-    setLocal(v);
-    if (!composing.current) onChange && onChange(v);
+  // mutations
+  const createAsset  = async (payload: Asset) => { if (!allow("assets")) return false; setAssets(prev => [payload, ...prev]); record("create", "assets", payload.asset_id, null, payload); return true; };
+  const importAssets = async (list: Asset[])  => {
+    if (!allow("assets")) return false;
+    setAssets(prev => [...list, ...prev]);
+    setAudit(prev => [...list.map(a => auditEntry(actor, "create", "assets", a.asset_id, null, a)), ...prev]);
+    return true;
+  };
+  const updateAsset  = async (id: string, patch: Partial<Asset>) => {
+    if (!allow("assets")) return false;
+    const before = assets.find(a => a.asset_id === id);
+    setAssets(prev => prev.map(a => a.asset_id === id ? { ...a, ...patch } : a));
+    record("update", "assets", id, before, before && { ...before, ...patch });
+    return true;
+  };
+  const applyStatus  = (change: StatusChange) => {
+    setStatusLog(prev => [change, ...prev]);
+    setAssets(prev => prev.map(a => a.asset_id === change.asset_id ? { ...a, status: change.to } : a));
+  };
+  const changeStatus = async (change: StatusChange) => {
+    if (!allow("assets")) return false;
+    applyStatus(change);
+    record("status", "assets", change.asset_id, { status: change.from }, { status: change.to, reason: change.reason });
+    return true;
+  };
+  const savePlan     = async (plan: ServicePlan) => {
+    if (!allow("assets")) return false;
+    const before = servicePlans.find(p => p.id === plan.id);
+    setServicePlans(prev => prev.some(p => p.id === plan.id) ? prev.map(p => p.id === plan.id ? plan : p) : [plan, ...prev]);
+    record(before ? "update" : "create", "servicePlans", plan.id, before, plan);
+    return true;
+  };
+  const deletePlan   = async (id: string)     => { if (!allow("delete")) return false; record("delete", "servicePlans", id, servicePlans.find(p => p.id === id), null); setServicePlans(prev => prev.filter(p => p.id !== id)); return true; };
+  const addService   = async (rec: ServiceRecord) => { if (!allow("assets")) return false; setServiceLog(prev => [rec, ...prev]); record("create", "serviceLog", rec.id, null, rec); return true; };
+  const createReservation = async (rec: Reservation) => { if (!allow("lend")) return false; setReservations(prev => [rec, ...prev]); record("create", "reservations", rec.id, null, rec); return true; };
+  const cancelReservation = async (id: string) => {
+    if (!allow("lend")) return false;
+    const before = reservations.find(r => r.id === id);
+    setReservations(prev => prev.map(r => r.id === id ? { ...r, status: "cancelled" } : r));
+    record("cancel", "reservations", id, before, before && { ...before, status: "cancelled" });
+    return true;
+  };
+  const addWaitlist  = async (entry: WaitlistEntry) => { if (!allow("lend")) return false; setWaitlist(prev => [entry, ...prev]); record("create", "waitlist", entry.id, null, entry); return true; };
+  const cancelWaitlist = async (id: string) => {
+    if (!allow("lend")) return false;
+    const before = waitlist.find(w => w.id === id);
+    setWaitlist(prev => prev.map(w => w.id === id ? { ...w, status: "cancelled" } : w));
+    record("cancel", "waitlist", id, before, before && { ...before, status: "cancelled" });
+    return true;
+  };
+  // assets with a history are retired instead, so their loans and status log stay readable
+  const deleteAsset  = async (id: string) => {
+    if (!allow("delete")) return false;
+    const a = assets.find(x => x.asset_id === id);
+    if (!a) return false;
+    if (!borrows.some(b => b.asset_id === id) && !statusLog.some(s => s.asset_id === id) && !serviceLog.some(s => s.asset_id === id)) {
+      if (!confirm(`ลบ ${a.asset_id} ออกจากทะเบียน?`)) return false;
+      setAssets(prev => prev.filter(x => x.asset_id !== id));
+      record("delete", "assets", id, a, null);
+      return true;
+    }
+    if (a.status === "retired") { alert("เครื่องนี้ปลดระวางแล้ว — เก็บไว้เป็นประวัติ"); return false; }
+    const err = statusChangeError(a, "retired", borrows);
+    if (err) { alert(err); return false; }
+    const reason = prompt(`${a.asset_id} มีประวัติการใช้งาน จึงจะถูกปลดระวางแทนการลบ — ระบุเหตุผล`);
+    if (reason === null) return false;
+    applyStatus({ id: uid(), asset_id: id, from: a.status, to: "retired", date: todayStr(), reason: reason.trim(), changed_by: actor, created_at: new Date().toISOString() });
+    record("delete", "assets", id, a, { ...a, status: "retired" });
+    return true;
+  };
+  // a borrow made from a reservation or waitlist entry closes that entry
+  const createBorrow = async (records: BorrowRecord[], from?: Handover) => {
+    if (!allow("lend")) return false;
+    setBorrows(prev => [...records, ...prev]);
+    setAudit(prev => [...records.map(b => auditEntry(actor, "create", "borrows", b.id, null, b)), ...prev]);
+    for (const b of records) enqueueMessages("borrow_created", b.id, b.borrower_dept, loanFields(b, { due_date: formatDate(dueOf(b).due), org_name: orgName }));
+    const made = from && records.find(b => b.asset_id === from.asset_id);
+    if (made && from.source === "reservation") {
+      setReservations(prev => prev.map(r => r.id === from.ref ? { ...r, status: "converted", borrow_id: made.id } : r));
+      record("update", "reservations", from.ref, { status: "booked" }, { status: "converted", borrow_id: made.id });
+    }
+    if (made && from.source === "waitlist") {
+      setWaitlist(prev => prev.map(w => w.id === from.ref ? { ...w, status: "fulfilled", borrow_id: made.id } : w));
+      record("update", "waitlist", from.ref, { status: "waiting" }, { status: "fulfilled", borrow_id: made.id });
+    }
+    return true;
+  };
+  const updateBorrow = async (id: string, patch: Partial<BorrowRecord>) => {
+    if (!allow("lend")) return false;
+    const before = borrows.find(b => b.id === id);
+    setBorrows(prev => prev.map(b => b.id === id ? { ...b, ...patch } : b));
+    record("update", "borrows", id, before, before && { ...before, ...patch });
+    return true;
+  };
+  // the inspection may send the asset to repair or cleaning instead of back into service
+  const returnBorrow = async (items: ReturnedLoan[], receiver_sign: string) => {
+    if (!allow("lend")) return false;
+    const ts = new Date().toISOString();
+    const found = new Map(items.map(x => [x.id, x.inspection]));
+    setBorrows(prev => prev.map(b => found.has(b.id) ? { ...b, returned_at: ts, receiver_sign, inspection: found.get(b.id)! } : b));
+    for (const { id, inspection: ins } of items) {
+      const b = borrows.find(x => x.id === id);
+      if (b) record("return", "borrows", id, b, { ...b, returned_at: ts, receiver_sign, inspection: ins });
+      if (b) enqueueMessages("return_recorded", `${id}:${ts}`, b.borrower_dept, loanFields({ ...b, returned_at: ts, inspection: ins }, { due_date: formatDate(dueOf(b).due), org_name: orgName }));
+      const a = b && assets.find(x => x.asset_id === b.asset_id);
+      // covered by the "lend" check above: whoever takes the device back decides where it goes
+      const change = b && a && returnStatusChange(b, a, ins, ts);
+      if (!change) continue;
+      applyStatus(change);
+      record("status", "assets", change.asset_id, { status: change.from }, { status: change.to, reason: change.reason });
+    }
+    return true;
   };
 
-  return (
-    <label className="block">
-      <span className="block text-sm font-medium mb-1 text-slate-700">
-        {label}{required ? " *" : ""}
-      </span>
-      <input
-        type={type}
-        value={local}
-        onChange={handleChange}
-        onCompositionStart={() => { composing.current = true; }}
-        onCompositionEnd={(e) => {
-          composing.current = false;
-          const v = (e.target as HTMLInputElement).value;
-          setLocal(v);
-          onChange && onChange(v);
-        }}
-        placeholder={placeholder}
-        required={required}
-        className="w-full px-3 py-2.5 border rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-200 bg-white"
-      />
-    </label>
-  );
-};
-
-/** composition-safe compact input (for table cells / inline edit) */
-const CInput = ({
-  value, onChange, type = "text", className = "",
-}: { value: any; onChange?: (v: string)=>void; type?: string; className?: string; }) => {
-  const [local, setLocal] = useState<string>("");
-  const composing = useRef(false);
-  useEffect(()=>{ if(!composing.current) setLocal((value ?? "").toString()); }, [value]);
-  return (
-    <input
-      type={type}
-      value={local}
-      onChange={(e)=>{ const v=e.target.value; setLocal(v); if(!composing.current) onChange && onChange(v); }}
-      onCompositionStart={()=>{composing.current=true;}}
-      onCompositionEnd={(e)=>{ composing.current=false; const v=(e.target as HTMLInputElement).value; setLocal(v); onChange && onChange(v);}}
-      className={"px-2 py-1 border rounded " + className}
-    />
-  );
-};
-
-/********** utils **********/
-const uid = (): string => Math.random().toString(36).slice(2) + Date.now().toString(36);
-const todayStr = (): string => new Date().toISOString().slice(0, 10);
-const addDays = (d: string, n: number): string => {
-  const x = new Date(d);
-  x.setDate(x.getDate() + n);
-  return x.toISOString().slice(0, 10);
-};
-const isValidDate = (d: any) => d instanceof Date && !isNaN(d.getTime());
-const formatDate = (d?: string | null): string => {
-  if (!d) return "";
-  const x = new Date(d);
-  return isValidDate(x) ? x.toLocaleDateString() : "";
-};
-const daysBetween = (a: string, b: string | Date = new Date()): number => {
-  const d1 = new Date(a), d2 = new Date(b);
-  if (!isValidDate(d1) || !isValidDate(d2)) return 0;
-  return Math.floor((d2.getTime() - d1.getTime()) / 86400000);
-};
-
-// Dynamic loader for SheetJS (XLSX). Caches on window.
-async function loadXLSX(): Promise<any> {
-  if ((window as any).XLSX) return (window as any).XLSX;
-  await new Promise<void>((resolve, reject) => {
-    const s = document.createElement("script");
-    s.src = "https://cdn.jsdelivr.net/npm/xlsx@0.18.5/dist/xlsx.full.min.js";
-    s.async = true;
-    s.onload = () => resolve();
-    s.onerror = () => reject(new Error("โหลดไลบรารี XLSX ไม่สำเร็จ"));
-    document.head.appendChild(s);
-  });
-  return (window as any).XLSX;
-}
+  // reversing a mistaken return or delete; the reversal is a new audit entry pointing at the old one
+  const undo = async (e: AuditEntry) => {
+    if (audit.some(x => x.undoes === e.id)) { alert("รายการนี้ถูกย้อนกลับไปแล้ว"); return false; }
+    const now = new Date().toISOString();
+    if (e.action === "return") {
+      if (!allow("lend")) return false;
+      const b = borrows.find(x => x.id === e.ref);
+      if (!b?.returned_at) { alert("ไม่พบรายการยืมนี้ หรือรายการยังไม่ได้คืน"); return false; }
+      if (activeIds.includes(b.asset_id)) { alert(`${b.asset_id} ถูกยืมออกไปอีกครั้งแล้ว — ย้อนการคืนไม่ได้`); return false; }
+      const after = { ...b, returned_at: null, receiver_sign: null, inspection: null };
+      setBorrows(prev => prev.map(x => x.id === b.id ? after : x));
+      // put the asset back where it was if the inspection had sent it elsewhere
+      const moved = statusLog.find(s => s.asset_id === b.asset_id && s.created_at === b.returned_at);
+      const a = assets.find(x => x.asset_id === b.asset_id);
+      if (moved && a?.status === moved.to) applyStatus({ ...moved, id: uid(), from: moved.to, to: moved.from, date: todayStr(), reason: "ยกเลิกการบันทึกคืน", changed_by: actor, created_at: now });
+      record("undo", "borrows", b.id, b, after, e.id);
+      return true;
+    }
+    if (e.action === "delete" && e.entity === "assets") {
+      if (!allow("delete")) return false;
+      const before = e.before as Asset;
+      const cur = assets.find(x => x.asset_id === e.ref);
+      if (!cur) { setAssets(prev => [before, ...prev]); record("undo", "assets", e.ref, null, before, e.id); return true; }
+      if (cur.status === "retired" && before.status !== "retired") {
+        applyStatus({ id: uid(), asset_id: cur.asset_id, from: "retired", to: before.status, date: todayStr(), reason: "ยกเลิกการลบ", changed_by: actor, created_at: now });
+        record("undo", "assets", e.ref, cur, { ...cur, status: before.status }, e.id);
+        return true;
+      }
+      alert("เครื่องนี้อยู่ในทะเบียนแล้ว — ไม่มีอะไรต้องย้อนกลับ"); return false;
+    }
+    return false;
+  };
+  // quick undo from the Return screen, right after a return
+  const undoReturn = async (borrowIds: string[]) => {
+    const done = undoneIds(audit);
+    for (const id of borrowIds) {
+      const e = audit.find(x => x.action === "return" && x.ref === id && !done.has(x.id));
+      if (e) await undo(e);
+    }
+    return true;
+  };
 
-/********** signature **********/
-function SignaturePad({ value, onChange, height = 120 }: { value?: string | null; onChange?: (v: string | null) => void; height?: number; }) {
-  const ref = useRef<HTMLCanvasElement | null>(null);
-  const drawing = useRef(false);
-  useEffect(() => {
-    const c = ref.current; if (!c) return;
-    const ctx = c.getContext("2d"); if (!ctx) return;
-    ctx.lineWidth = 2; ctx.lineCap = "round";
-    const pos = (e: any) => {
-      const r = c.getBoundingClientRect(); const t = e.touches?.[0];
-      const x = (t ? t.clientX : e.clientX) - r.left; const y = (t ? t.clientY : e.clientY) - r.top; return { x, y };
-    };
-    const start = (e: any) => { drawing.current = true; const p = pos(e); ctx.beginPath(); ctx.moveTo(p.x, p.y); };
-    const move = (e: any) => { if (!drawing.current) return; const p = pos(e); ctx.lineTo(p.x, p.y); ctx.stroke(); };
-    const end = () => { if (!drawing.current) return; drawing.current = false; onChange && onChange(c.toDataURL("image/png")); };
-    c.addEventListener("mousedown", start); c.addEventListener("mousemove", move); window.addEventListener("mouseup", end);
-    c.addEventListener("touchstart", start, { passive: false } as any); c.addEventListener("touchmove", move, { passive: false } as any); window.addEventListener("touchend", end);
-    return () => {
-      c.removeEventListener("mousedown", start); c.removeEventListener("mousemove", move); window.removeEventListener("mouseup", end);
-      c.removeEventListener("touchstart", start); c.removeEventListener("touchmove", move); window.removeEventListener("touchend", end);
-    };
-  }, [onChange]);
-  const clear = () => {
-    const c = ref.current; if (!c) return;
-    const ctx = c.getContext("2d"); if (!ctx) return;
-    ctx.clearRect(0, 0, c.width, c.height); onChange && onChange(null);
+  // scanning: camera dialog or keyboard-wedge scanner → matching asset in Borrow / its loan in Return
+  const [scanOpen, setScanOpen] = useState(false);
+  const [picked, setPicked] = useState<ScanPick | null>(null);
+  const handleScan = (code: string) => {
+    setScanOpen(false);
+    const a = resolveScan(code, assets);
+    if (!a) { alert(`ไม่พบเครื่องที่ตรงกับรหัส "${code}"`); return; }
+    const onLoan = activeIds.includes(a.asset_id);
+    setTab(tab === "borrow" || tab === "return" ? tab : onLoan ? "return" : "borrow");
+    setDetailId(null);
+    setPicked({ asset_id: a.asset_id, at: Date.now() });
   };
-  return (
-    <div>
-      <div className="text-xs text-slate-500 mb-1">ลงลายเซ็นผู้ขอยืม (เมาส์/นิ้ว)</div>
-      <div className="border rounded-xl bg-white"><canvas ref={ref} width={600} height={height} className="w-full rounded-xl" /></div>
-      <Button variant="ghost" size="sm" className="mt-2" onClick={clear}>ล้างลายเซ็น</Button>
-      {value && <span className="ml-2 text-emerald-700 text-sm inline-flex items-center gap-1"><CheckCircle2 size={16}/>บันทึกลายเซ็นแล้ว</span>}
-    </div>
-  );
-}
+  useKeyboardWedge(handleScan, !locked && tab !== "assets" && tab !== "settings");
 
-/********** root **********/
-export default function App() {
-  const [tab, setTab] = useState<'dashboard' | 'assets' | 'borrow' | 'return' | 'report' | 'settings'>('dashboard');
+  // picking up a reserved device or handing a returned one to the waitlist: Borrow opens prefilled
+  const [handover, setHandover] = useState<Handover | null>(null);
+  const startHandover = (h: Handover) => {
+    setHandover(h); setPicked({ asset_id: h.asset_id, at: Date.now() });
+    setTab("borrow"); setDetailId(null);
+  };
+  const convertReservation = (r: Reservation) =>
+    startHandover({ asset_id: r.asset_id, dept: r.dept, requester: r.requester, end_date: r.end_date, source: "reservation", ref: r.id });
+  const serveWaitlist = (w: WaitlistEntry, assetId: string) =>
+    startHandover({ asset_id: assetId, dept: w.dept, requester: w.requester, end_date: "", source: "waitlist", ref: w.id });
+  // asset a ward asked for while it was on loan; preselects its type in the waitlist form
+  const [queueDraft, setQueueDraft] = useState<Asset | null>(null);
 
-  // master data (persist)
-  const [brands, setBrands] = useLocalStorage<string[]>("mp:brands", []);
-  const [models, setModels] = useLocalStorage<{ brand: string; name: string; }[]>("mp:models", []);
-  const [vendors, setVendors] = useLocalStorage<string[]>("mp:vendors", []);
-  const [depts, setDepts]     = useLocalStorage<string[]>("mp:depts",   []);
+  // asset detail page, opened from Assets, Return and Dashboard; replaces the tab content
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const view = detailId ? "asset" : tab;
+  // a handover slip's QR opens the app with ?loan= or ?tx=; show that loan's asset once the data is in
+  const [linked, setLinked] = useState(() => linkedLoan(window.location.search));
+  useEffect(() => {
+    const b = linked && borrows.find(x => x.id === linked.loan || (!!linked.tx && x.group_id === linked.tx));
+    if (!b) return;
+    setDetailId(b.asset_id); setLinked(null);
+    window.history.replaceState(null, "", window.location.pathname);
+  }, [linked, borrows]);
 
-  // assets & borrows (persist)
-  const [assets, setAssets] = useLocalStorage<any[]>("mp:assets", []);
-  const [borrows, setBorrows] = useLocalStorage<any[]>("mp:borrows", []);
+  // handover / return slips, printed after a borrow or return and reprinted from Return and Report
+  const printSlip = async (loans: BorrowRecord[], kind: SlipKind) =>
+    openPrintWindow(await handoverHtml(loans, assets, dueOf, kind, orgName, reportLogo, window.location.origin + window.location.pathname));
 
-  // settings (persist)
-  const [orgName, setOrgName]       = useLocalStorage<string>("mp:org_name", "Hospital Name");
-  const [reportLogo, setReportLogo] = useLocalStorage<string>("mp:report_logo", "");
+  // the PIN is hashed before it gets here; the last active admin can't be demoted or switched off
+  const saveStaff = async (account: StaffAccount) => {
+    if (secured && !allow("settings")) return false;
+    const before = staff.find(s => s.id === account.id);
+    setStaff(prev => before ? prev.map(s => s.id === account.id ? account : s) : [...prev, account]);
+    setAudit(prev => [auditEntry(actor || account.name, before ? "update" : "create", "staff", account.id, before, account), ...prev]);
+    if (!secured) setUserId(account.id); // whoever creates the first account stays signed in as it
+    return true;
+  };
 
-  const active = useMemo(() => borrows.filter(b => !b.returned_at), [borrows]);
-  const activeIds = useMemo(() => active.map(b => b.asset_id), [active]);
-  const borrowedCount = new Set(active.map(b => b.asset_id)).size;
-  const availableCount = Math.max(assets.length - borrowedCount, 0);
-  const overdueCount = active.filter(b => daysBetween(b.start_date) >= 14).length;
+  // whole-pool snapshot for backup / restore
+  const pool: PoolData = { brands, models, vendors, depts, assets, borrows, statusLog, servicePlans, serviceLog, reservations, waitlist, audit, staff };
+  const counts = (d: PoolData) => Object.fromEntries(Object.entries(d).map(([k, v]) => [k, v.length]));
+  const restorePool = async (data: PoolData, settings: PoolSettings) => {
+    if (!allow("settings")) return false;
+    setBrands(data.brands); setModels(data.models); setVendors(data.vendors); setDepts(data.depts);
+    setAssets(data.assets); setBorrows(data.borrows); setStatusLog(data.statusLog);
+    setServicePlans(data.servicePlans); setServiceLog(data.serviceLog); setReservations(data.reservations); setWaitlist(data.waitlist);
+    setStaff(data.staff);
+    setOrgName(settings.orgName); setReportLogo(settings.reportLogo); setLoanPolicy(settings.loanPolicy); setNotifyPolicy(settings.notifyPolicy); setCostPolicy(settings.costPolicy);
+    // the audit trail only grows: entries from the file join ours, none are dropped, even on replace
+    const entry = auditEntry(actor, "restore", "pool", "", counts(pool), counts(data));
+    setAudit(prev => {
+      const ids = new Set(prev.map(e => e.id));
+      return [entry, ...prev, ...data.audit.filter(e => !ids.has(e.id))].sort((a, b) => b.at.localeCompare(a.at));
+    });
+    return true;
+  };
+  // the wiped store starts over with one audit line: who cleared it, when, and how much was there
+  const resetAll = async () => {
+    if (!allow("reset")) return false;
+    await resetRepository({ [KEYS.audit]: [auditEntry(actor, "reset", "pool", "", counts(pool), null)] });
+    return true;
+  };
 
-  // mutations
-  const createAsset  = async (payload: any) => { setAssets(prev => [payload, ...prev]); return true; };
-  const deleteAsset  = async (id: string)     => { setAssets(prev => prev.filter(a => a.asset_id !== id)); return true; };
-  const updateAsset  = async (id: string, patch: any) => { setAssets(prev => prev.map(a => a.asset_id === id ? { ...a, ...patch } : a)); return true; };
-  const createBorrow = async (record: any)    => { setBorrows(prev => [record, ...prev]); return true; };
-  const updateBorrow = async (id: string, patch: any) => { setBorrows(prev => prev.map(b => b.id === id ? { ...b, ...patch } : b)); return true; };
-  const returnBorrow = async (id: string)     => { const ts = new Date().toISOString(); setBorrows(prev => prev.map(b => b.id === id ? { ...b, returned_at: ts } : b)); return true; };
+  // tabs the signed-in role can't use are hidden; dashboard, report and analytics stay readable for everyone
+  const TAB_PERMISSION: Partial<Record<typeof tab, Permission>> = { assets: "assets", borrow: "lend", reservations: "lend", return: "lend", settings: "settings" };
+  const canOpen = (t: typeof tab) => { const p = TAB_PERMISSION[t]; return !p || can(user, secured, p); };
+  useEffect(() => { if (!canOpen(tab)) setTab("dashboard"); }, [user, secured]);
 
   const TABS: any = {
     dashboard: { label: "แดชบอร์ด", icon: <LayoutDashboard size={18}/> },
     assets:    { label: "ลงทะเบียน", icon: <Archive size={18}/> },
     borrow:    { label: "บันทึกยืม", icon: <HandPlatter size={18}/> },
+    reservations: { label: "จองล่วงหน้า", icon: <CalendarDays size={18}/> },
     return:    { label: "บันทึกคืน", icon: <Undo2 size={18}/> },
     report:    { label: "รายงาน",   icon: <FileBarChart2 size={18}/> },
+    analytics: { label: "วิเคราะห์", icon: <BarChart3 size={18}/> },
     settings:  { label: "Settings",  icon: <SettingsIcon size={18}/> },
   };
 
+  if (locked) return <LockScreen staff={staff} orgName={orgName} lastUserId={lastUserId} onUnlock={(a) => { setUserId(a.id); setLastUserId(a.id); }} />;
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100">
       {/* Header */}
       <header className="sticky top-0 z-10 border-b bg-white/80 backdrop-blur">
         <div className="max-w-6xl mx-auto px-6 py-4 flex items-center gap-3">
           <div className="flex items-center gap-2 font-bold text-lg text-slate-800">
-            <QrCode className="text-blue-600"/>
+            <button onClick={() => setScanOpen(true)} title="สแกน QR / บาร์โค้ด" className="p-1 -m-1 rounded-lg hover:bg-blue-50"><QrCode className="text-blue-600"/></button>
             <span>Medical Pool</span>
             <Badge tone="blue">{orgName}</Badge>
           </div>
+          {user ? (
+            <button onClick={lock} className="text-sm px-2 py-1 rounded-lg border inline-flex items-center gap-1 hover:bg-slate-50" title="ล็อกหน้าจอ / เปลี่ยนผู้ใช้">
+              <User size={16}/>{user.name} <span className="text-slate-500">({ROLE_LABELS[user.role]})</span><Lock size={14} className="text-slate-500"/>
+            </button>
+          ) : (
+            <button onClick={() => { const v = prompt("ชื่อผู้ใช้งานเครื่องนี้ (บันทึกในประวัติการแก้ไข)", operator); if (v !== null) setOperator(v.trim()); }}
+              className="text-sm px-2 py-1 rounded-lg border inline-flex items-center gap-1 hover:bg-slate-50" title="ผู้ใช้งาน">
+              <User size={16}/>{operator || "ระบุผู้ใช้งาน"}
+            </button>
+          )}
+          <SyncBadge />
+          <AlertBell alerts={shownAlerts} onAck={ackAlerts} onOpenAsset={setDetailId} />
+          {online
+            ? <span title="ออนไลน์" className="text-emerald-600"><Wifi size={16}/></span>
+            : <span title="ไม่มีการเชื่อมต่อเครือข่าย — ใช้งานและบันทึกในเครื่องได้ตามปกติ"><Badge tone="red"><WifiOff size={14} className="mr-1"/>ออฟไลน์</Badge></span>}
           <nav className="ml-auto flex flex-wrap gap-2">
-            {(Object.keys(TABS) as Array<typeof tab>).map((id) => (
+            {(Object.keys(TABS) as Array<typeof tab>).filter(canOpen).map((id) => (
               <button
                 key={id}
-                onClick={() => setTab(id)}
+                onClick={() => { setTab(id); setDetailId(null); }}
                 className={
                   "px-3 py-2 rounded-xl border inline-flex items-center gap-2 transition " +
-                  (tab === id ? "bg-blue-600 text-white border-blue-700 shadow-sm" : "bg-white hover:bg-slate-50")
+                  (view === id ? "bg-blue-600 text-white border-blue-700 shadow-sm" : "bg-white hover:bg-slate-50")
                 }>
                 {TABS[id].icon} {TABS[id].label}
               </button>
@@ -268,64 +520,175 @@ export default function App() {
       </header>
 
       <main className="max-w-6xl mx-auto px-6 py-6 text-slate-800">
-        {tab === "dashboard" && (
-          <Dashboard assets={assets} active={active} borrowedCount={borrowedCount} availableCount={availableCount} overdueCount={overdueCount} />
+        {writeError && (
+          <Card className="mb-4 border-red-300 bg-red-50/80 text-sm text-red-800 flex items-center gap-2">
+            <AlertTriangle size={18} className="shrink-0"/>
+            <span className="flex-1">{writeError}</span>
+            <Button variant="ghost" size="sm" onClick={() => setWriteError(null)}>ปิด</Button>
+          </Card>
+        )}
+        {updateReady && (
+          <Card className="mb-4 border-blue-200 bg-blue-50/80 text-sm text-blue-800 flex items-center gap-2">
+            <RefreshCw size={18} className="shrink-0"/>
+            <span className="flex-1">มีเวอร์ชันใหม่ของโปรแกรมพร้อมใช้งาน — ข้อมูลที่บันทึกไว้ไม่หาย</span>
+            <Button size="sm" onClick={applyUpdate}>อัปเดตตอนนี้</Button>
+          </Card>
+        )}
+        {(boot.newer || boot.quarantined.length > 0) && (
+          <Card className="mb-4 border-red-200 bg-red-50/80 text-sm text-red-800 flex items-center gap-2">
+            <AlertTriangle size={18} className="shrink-0"/>
+            {boot.newer
+              ? <span>ข้อมูลในเบราว์เซอร์นี้ถูกบันทึกโดยเวอร์ชันที่ใหม่กว่า (schema v{boot.from}) — กรุณาเปิดด้วยเวอร์ชันล่าสุดก่อนแก้ไขข้อมูล</span>
+              : <span>พบข้อมูลเสียหาย {boot.quarantined.length} รายการ ระบบแยกเก็บไว้และไม่แสดงในตาราง — ตรวจสอบได้ที่ Settings</span>}
+          </Card>
         )}
-        {tab === "assets" && (
+        {view === "dashboard" && (
+          <Dashboard assets={assets} active={active} borrowedCount={borrowedCount} availableCount={availableCount} overdueCount={overdueCount} dueOf={dueOf} serviceDue={serviceDueList} onOpenAsset={setDetailId} />
+        )}
+        {view === "dashboard" && (
+          <ReminderLetters active={active} dueOf={dueOf} orgName={orgName} reportLogo={reportLogo} />
+        )}
+        {view === "assets" && (
           <Assets
-            brands={brands} setBrands={setBrands}
-            models={models} setModels={setModels}
-            vendors={vendors} setVendors={setVendors}
+            brands={brands} setBrands={editBrands}
+            models={models} setModels={editModels}
+            vendors={vendors} setVendors={editVendors}
             assets={assets}
-            onCreateAsset={createAsset} onDeleteAsset={deleteAsset} onUpdateAsset={updateAsset}
+            onCreateAsset={createAsset} onImportAssets={importAssets} onDeleteAsset={deleteAsset} onUpdateAsset={updateAsset}
+            orgName={orgName} onOpenAsset={setDetailId}
           />
         )}
-        {tab === "borrow" && (
-          <Borrow assets={assets} depts={depts} setDepts={setDepts} onCreateBorrow={createBorrow} activeIds={activeIds} />
+        {view === "borrow" && (
+          <Borrow assets={assets} borrows={borrows} depts={depts} setDepts={editDepts} onCreateBorrow={createBorrow} onPrintSlip={printSlip} activeIds={activeIds} servicePlans={servicePlans} serviceLog={serviceLog} picked={picked} onScan={() => setScanOpen(true)}
+            reservations={reservations} dueOf={dueOf} handover={handover} onClearHandover={() => setHandover(null)} onQueue={setQueueDraft} staffName={user?.name} />
+        )}
+        {view === "borrow" && (
+          <div className="mt-4">
+            <Waitlist assets={assets} depts={depts} waitlist={waitlist} activeIds={activeIds} draftFrom={queueDraft} onAdd={addWaitlist} onCancel={cancelWaitlist} />
+          </div>
+        )}
+        {view === "reservations" && (
+          <Reservations assets={assets} depts={depts} borrows={borrows} reservations={reservations} dueOf={dueOf}
+            onCreate={createReservation} onCancel={cancelReservation} onConvert={convertReservation} onOpenAsset={setDetailId} />
         )}
-        {tab === "return" && (
-          <Return borrows={borrows} onReturn={returnBorrow} onUpdateBorrow={updateBorrow} />
+        {view === "return" && (
+          <Return borrows={borrows} assets={assets} waitlist={waitlist} onHandover={serveWaitlist} dueOf={dueOf} onReturn={returnBorrow} onUndoReturn={undoReturn} onUpdateBorrow={updateBorrow} onPrintSlip={printSlip} picked={picked} onScan={() => setScanOpen(true)} onOpenAsset={setDetailId} staffName={user?.name} />
         )}
-        {tab === "report" && (
-          <Report borrows={borrows} depts={depts} orgName={orgName} reportLogo={reportLogo} />
+        {view === "report" && (
+          <>
+            <Report borrows={borrows} assets={assets} brands={brands} depts={depts} dueOf={dueOf} orgName={orgName} reportLogo={reportLogo} templates={reportTemplates} setTemplates={editReportTemplates} onPrintSlip={printSlip} />
+            <CostAllocation borrows={borrows} assets={assets} policy={costPolicy} orgName={orgName} reportLogo={reportLogo} />
+          </>
         )}
-        {tab === "settings" && (
-          <Settings orgName={orgName} setOrgName={setOrgName} reportLogo={reportLogo} setReportLogo={setReportLogo} />
+        {view === "analytics" && (
+          <Analytics assets={assets} borrows={borrows} statusLog={statusLog} orgName={orgName} />
+        )}
+        {view === "settings" && (
+          <Settings
+            orgName={orgName} setOrgName={editOrgName} reportLogo={reportLogo} setReportLogo={editReportLogo}
+            quarantine={quarantine} setQuarantine={editQuarantine}
+            pool={pool} onRestore={restorePool}
+            models={models} servicePlans={servicePlans} onSavePlan={savePlan} onDeletePlan={deletePlan}
+            loanPolicy={loanPolicy} setLoanPolicy={editLoanPolicy} notifyPolicy={notifyPolicy} setNotifyPolicy={editNotifyPolicy} depts={depts} brands={brands}
+            costPolicy={costPolicy} setCostPolicy={editCostPolicy}
+            audit={audit} onUndo={undo}
+            staff={staff} currentId={user?.id ?? null} lockMinutes={lockMinutes} setLockMinutes={editLockMinutes} onSaveStaff={saveStaff}
+            canReset={can(user, secured, "reset")} onResetAll={resetAll}
+            channels={channels} setChannels={editChannels} templates={templates} setTemplates={editTemplates}
+            deliveries={deliveries} onTestChannel={testChannel} onRetryDelivery={retryDelivery} onClearDeliveries={clearDeliveries}
+          />
+        )}
+        {view === "asset" && detailId && (
+          <AssetDetail assetId={detailId} assets={assets} borrows={borrows} statusLog={statusLog} onChangeStatus={changeStatus}
+            servicePlans={servicePlans} serviceLog={serviceLog} vendors={vendors} onSavePlan={savePlan} onDeletePlan={deletePlan} onAddService={addService}
+            onBack={() => setDetailId(null)} staffName={user?.name} />
         )}
       </main>
+      {scanOpen && <ScannerDialog onDetect={handleScan} onClose={() => setScanOpen(false)} />}
     </div>
   );
 }
 
+/** Last asset picked by a scan; `at` lets the same asset be picked twice in a row. */
+type ScanPick = { asset_id: string; at: number };
+
+/** Loan that Borrow opens prefilled: pickup of a reservation, or a returned unit going to the next in the waitlist. */
+type Handover = { asset_id: string; dept: Department; requester: string; end_date: string; source: "reservation" | "waitlist"; ref: string };
+
+/** One asset in the Borrow cart, with what goes out alongside it. */
+type CartLine = { asset_id: string; peripherals: string };
+
 /********** dashboard **********/
-function Dashboard({ assets, active, borrowedCount, availableCount, overdueCount }: { assets: any[]; active: any[]; borrowedCount: number; availableCount: number; overdueCount: number; }) {
-  const overdue = useMemo(() => active.filter((b: any) => daysBetween(b.start_date) >= 14), [active]);
-  const normal  = useMemo(() => active.filter((b: any) => daysBetween(b.start_date) < 14), [active]);
+function Dashboard({ assets, active, borrowedCount, availableCount, overdueCount, dueOf, serviceDue, onOpenAsset }: { assets: Asset[]; active: BorrowRecord[]; borrowedCount: number; availableCount: number; overdueCount: number; dueOf: (b: BorrowRecord) => LoanDue; serviceDue: ServiceDue[]; onOpenAsset?: (id: string) => void; }) {
+  const overdue = useMemo(() => active.filter(b => dueOf(b).state === "overdue"), [active, dueOf]);
+  const normal  = useMemo(() => active.filter(b => dueOf(b).state !== "overdue"), [active, dueOf]);
+  const counts  = useMemo(() => statusCounts(assets), [assets]);
   return (
     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
       <Card className="text-center"><div className="text-2xl font-bold">{borrowedCount}</div><div className="text-sm text-slate-500">กำลังยืม</div></Card>
       <Card className="text-center"><div className="text-2xl font-bold">{availableCount}</div><div className="text-sm text-slate-500">คงเหลือ</div></Card>
       <Card className="text-center"><div className="text-2xl font-bold">{assets.length}</div><div className="text-sm text-slate-500">ทั้งหมด</div></Card>
-      <Card className="text-center border-red-200"><div className="text-2xl font-bold text-red-600">{overdueCount}</div><div className="text-sm text-red-700">≥ 14 วัน</div></Card>
+      <Card className="text-center border-red-200"><div className="text-2xl font-bold text-red-600">{overdueCount}</div><div className="text-sm text-red-700">เกินกำหนดคืน</div></Card>
 
-      <Card className="md:col-span-4">
-        <div className="flex items-center gap-2 mb-2"><AlertTriangle className="text-red-600" size={18}/><h4 className="font-semibold">รายการเกิน 14 วัน</h4></div>
-        <ActiveLoans borrows={overdue} compact />
+      <Card className="md:col-span-4 flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-semibold">สถานะเครื่อง</span>
+        {ASSET_STATUSES.map(s => <Badge key={s} tone={STATUS_TONE[s]}>{STATUS_LABELS[s]} {counts[s]}</Badge>)}
+      </Card>
+
+      <Card className="md:col-span-2">
+        <div className="flex items-center gap-2 mb-2"><AlertTriangle className="text-red-600" size={18}/><h4 className="font-semibold">รายการเกินกำหนดคืน</h4></div>
+        <ActiveLoans borrows={overdue} dueOf={dueOf} compact onOpenAsset={onOpenAsset} />
+      </Card>
+      <Card className="md:col-span-2">
+        <div className="flex items-center gap-2 mb-2"><Stethoscope className="text-blue-600" size={18}/><h4 className="font-semibold">ครบกำหนด / เลยกำหนด PM ({serviceDue.length})</h4></div>
+        <div className="overflow-auto max-h-72">
+          <table className="min-w-full text-sm">
+            <thead className="bg-slate-50 sticky top-0"><tr>{["Asset ID", "ชื่อ", "ครบกำหนด", "สถานะ"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+            <tbody>
+              {serviceDue.map(d => (
+                <tr key={d.asset.asset_id + d.kind} className="odd:bg-white even:bg-slate-50">
+                  <td className="px-3 py-2 border-b"><AssetLink id={d.asset.asset_id} onOpen={onOpenAsset} /></td>
+                  <td className="px-3 py-2 border-b">{d.asset.name}</td>
+                  <td className="px-3 py-2 border-b">{d.due ? formatDate(d.due) : "-"}</td>
+                  <td className="px-3 py-2 border-b"><DueBadge d={d} /></td>
+                </tr>
+              ))}
+              {serviceDue.length === 0 && <tr><td colSpan={4} className="px-3 py-6 text-center text-slate-500">ไม่มีรายการ</td></tr>}
+            </tbody>
+          </table>
+        </div>
       </Card>
       <Card className="md:col-span-4">
         <div className="flex items-center gap-2 mb-2"><Factory size={18} className="text-slate-600"/><h4 className="font-semibold">รายการค้างยืม</h4></div>
-        <ActiveLoans borrows={normal} compact />
+        <ActiveLoans borrows={normal} dueOf={dueOf} compact onOpenAsset={onOpenAsset} />
       </Card>
     </div>
   );
 }
 
 /********** assets (register) + Edit **********/
-function Assets({ brands, setBrands, models, setModels, vendors, setVendors, assets, onCreateAsset, onDeleteAsset, onUpdateAsset }: any) {
+function Assets({ brands, setBrands, models, setModels, vendors, setVendors, assets, onCreateAsset, onImportAssets, onDeleteAsset, onUpdateAsset, orgName, onOpenAsset }: {
+  brands: string[]; setBrands: (v: string[]) => void;
+  models: Model[]; setModels: (v: Model[]) => void;
+  vendors: string[]; setVendors: (v: string[]) => void;
+  assets: Asset[];
+  onCreateAsset: (a: Asset) => Promise<boolean>; onImportAssets: (list: Asset[]) => Promise<boolean>; onDeleteAsset: (id: string) => Promise<boolean>; onUpdateAsset: (id: string, patch: Partial<Asset>) => Promise<boolean>;
+  orgName: string; onOpenAsset?: (id: string) => void;
+}) {
   const [form, setForm] = useState({ asset_id: "", id_code: "", name: "", brand: "", model: "", vendor: "", serial: "", purchase_date: "", price: "" });
   const [err, setErr] = useState("");
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<any>({});
+  const [importing, setImporting] = useState(false);
+
+  // selection for label printing
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [printing, setPrinting] = useState(false);
+  const toggleSelect = (id: string) => setSelected(prev => { const n = new Set(prev); n.has(id) ? n.delete(id) : n.add(id); return n; });
+  const [showRetired, setShowRetired] = useState(false);
+  const listed = showRetired ? assets : assets.filter(a => a.status !== "retired");
+  const allSelected = listed.length > 0 && listed.every(a => selected.has(a.asset_id));
+  const selectedAssets = assets.filter(a => selected.has(a.asset_id));
 
   // Inline add states
   const [addingBrand, setAddingBrand] = useState(false); const [newBrand, setNewBrand] = useState("");
@@ -358,23 +721,33 @@ function Assets({ brands, setBrands, models, setModels, vendors, setVendors, ass
 
   const submit = async (e: React.FormEvent) => {
     e.preventDefault(); setErr("");
-    const f = form as any;
+    const f = form;
     if (!f.asset_id || !f.id_code || !f.name || !f.serial) return setErr("กรอก Asset ID / ID CODE / ชื่อ / Serial");
-    if (assets.some((a: any) => a.asset_id === f.asset_id)) return setErr("Asset ID ซ้ำ");
-    if (assets.some((a: any) => a.id_code === f.id_code)) return setErr("ID CODE ซ้ำ");
-    if (assets.some((a: any) => a.serial === f.serial)) return setErr("Serial ซ้ำ");
-    const payload = { ...f, price: f.price ? Number(f.price) : null };
+    if (assets.some(a => a.asset_id === f.asset_id)) return setErr("Asset ID ซ้ำ");
+    if (assets.some(a => a.id_code === f.id_code)) return setErr("ID CODE ซ้ำ");
+    if (assets.some(a => a.serial === f.serial)) return setErr("Serial ซ้ำ");
+    const payload: Asset = { ...f, price: f.price ? Number(f.price) : null, status: "in_service" };
     const ok = await onCreateAsset(payload); if (ok) { setForm({ asset_id: "", id_code: "", name: "", brand: "", model: "", vendor: "", serial: "", purchase_date: "", price: "" }); }
   };
 
+  // master data only follows an import that went through
+  const importAll = async (list: Asset[], added: { brands: string[]; models: Model[]; vendors: string[] }) => {
+    if (!await onImportAssets(list)) return false;
+    if (added.brands.length) setBrands([...brands, ...added.brands]);
+    if (added.models.length) setModels([...models, ...added.models]);
+    if (added.vendors.length) setVendors([...vendors, ...added.vendors]);
+    return true;
+  };
+
   const startEdit = (a: any) => { setEditingId(a.asset_id); setEditForm({ ...a, price: a.price ?? "" }); setErr(""); };
   const cancelEdit = () => { setEditingId(null); setEditForm({}); };
   const saveEdit = async () => {
     const f = editForm;
     if (!f.asset_id || !f.id_code || !f.name || !f.serial) return setErr("กรอก Asset ID / ID CODE / ชื่อ / Serial");
-    if (assets.some((a: any) => a.asset_id === f.asset_id && a.asset_id !== editingId)) return setErr("Asset ID ซ้ำ");
-    if (assets.some((a: any) => a.id_code === f.id_code && a.asset_id !== editingId)) return setErr("ID CODE ซ้ำ");
-    if (assets.some((a: any) => a.serial === f.serial && a.asset_id !== editingId)) return setErr("Serial ซ้ำ");
+    if (assets.some(a => a.asset_id === f.asset_id && a.asset_id !== editingId)) return setErr("Asset ID ซ้ำ");
+    if (assets.some(a => a.id_code === f.id_code && a.asset_id !== editingId)) return setErr("ID CODE ซ้ำ");
+    if (assets.some(a => a.serial === f.serial && a.asset_id !== editingId)) return setErr("Serial ซ้ำ");
+    if (!editingId) return;
     await onUpdateAsset(editingId, { ...f, price: f.price ? Number(f.price) : null });
     setEditingId(null); setEditForm({});
   };
@@ -453,7 +826,11 @@ function Assets({ brands, setBrands, models, setModels, vendors, setVendors, ass
       <div className="flex items-center gap-2 mb-3">
         <Archive size={18} className="text-blue-600"/>
         <h3 className="font-semibold">ลงทะเบียนเครื่องมือแพทย์</h3>
+        {!importing && <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setImporting(true)}><FileSpreadsheet size={16}/>นำเข้า CSV</Button>}
       </div>
+      {importing && (
+        <AssetImport assets={assets} brands={brands} models={models} vendors={vendors} onImport={importAll} onClose={() => setImporting(false)} />
+      )}
       {err && <div className="mb-3"><Badge tone="red">{err}</Badge></div>}
       <form onSubmit={submit} className="space-y-3">
         <Block>
@@ -470,15 +847,21 @@ function Assets({ brands, setBrands, models, setModels, vendors, setVendors, ass
         <Button className="mt-2" type="submit"><CheckCircle2 size={18}/>บันทึก</Button>
       </form>
 
-      <h4 className="font-semibold mt-6 mb-2 flex items-center gap-2"><Building2 size={18}/> รายการเครื่องมือ ({assets.length})</h4>
+      <h4 className="font-semibold mt-6 mb-2 flex items-center gap-2">
+        <Building2 size={18}/> รายการเครื่องมือ ({listed.length})
+        <label className="ml-auto text-sm font-normal inline-flex items-center gap-1"><input type="checkbox" checked={showRetired} onChange={(e) => setShowRetired(e.target.checked)} />แสดงเครื่องที่ปลดระวาง</label>
+        <Button variant="ghost" size="sm" disabled={!selected.size} onClick={() => setPrinting(true)}><Tags size={16}/>พิมพ์ป้าย ({selectedAssets.length})</Button>
+      </h4>
+      {printing && selectedAssets.length > 0 && <LabelPrint assets={selectedAssets} orgName={orgName} onClose={() => setPrinting(false)} />}
       <div className="overflow-auto max-h-96 border rounded-xl">
         <table className="min-w-full text-sm">
           <thead className="bg-slate-50 sticky top-0">
-            <tr>{["Asset ID", "ID CODE", "ชื่อ", "ยี่ห้อ/รุ่น", "Serial", "วันที่ซื้อ", "ราคา", "บริษัท", "#"].map((h) => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr>
+            <tr><th className="px-3 py-2 border-b w-8"><input type="checkbox" checked={allSelected} onChange={() => setSelected(allSelected ? new Set() : new Set(listed.map(a => a.asset_id)))} /></th>{["Asset ID", "ID CODE", "ชื่อ", "สถานะ", "ยี่ห้อ/รุ่น", "Serial", "วันที่ซื้อ", "ราคา", "บริษัท", "#"].map((h) => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr>
           </thead>
           <tbody>
-            {assets.map((a: any) => (
-              <tr key={a.asset_id} className="odd:bg-white even:bg-slate-50 align-top hover:bg-slate-100/60">
+            {listed.map(a => (
+              <tr key={a.asset_id} className={"odd:bg-white even:bg-slate-50 align-top hover:bg-slate-100/60" + (a.status === "retired" ? " text-slate-400" : "")}>
+                <td className="px-3 py-2 border-b"><input type="checkbox" checked={selected.has(a.asset_id)} onChange={() => toggleSelect(a.asset_id)} /></td>
                 <AssetRow
                   a={a}
                   brands={brands} models={models} vendors={vendors}
@@ -486,6 +869,7 @@ function Assets({ brands, setBrands, models, setModels, vendors, setVendors, ass
                   editFormState={{ editForm, setEditForm }}
                   onDeleteAsset={onDeleteAsset}
                   onSaveEdit={saveEdit}
+                  onOpenAsset={onOpenAsset}
                 />
               </tr>
             ))}
@@ -496,7 +880,7 @@ function Assets({ brands, setBrands, models, setModels, vendors, setVendors, ass
   );
 }
 
-function AssetRow({ a, brands, models, vendors, editingIdState, editFormState, onDeleteAsset, onSaveEdit }: any) {
+function AssetRow({ a, brands, models, vendors, editingIdState, editFormState, onDeleteAsset, onSaveEdit, onOpenAsset }: any) {
   const { editingId, setEditingId } = editingIdState;
   const { editForm, setEditForm } = editFormState;
   const startEdit = (row: any) => { setEditingId(row.asset_id); setEditForm({ ...row, price: row.price ?? "" }); };
@@ -512,6 +896,7 @@ function AssetRow({ a, brands, models, vendors, editingIdState, editFormState, o
       <td className="px-3 py-2 border-b"><CInput className="w-40" value={editForm.asset_id} onChange={(v)=>setEditForm((p:any)=>({...p, asset_id:v}))}/></td>
       <td className="px-3 py-2 border-b"><CInput className="w-32" value={editForm.id_code} onChange={(v)=>setEditForm((p:any)=>({...p, id_code:v}))}/></td>
       <td className="px-3 py-2 border-b"><CInput className="w-48" value={editForm.name} onChange={(v)=>setEditForm((p:any)=>({...p, name:v}))}/></td>
+      <td className="px-3 py-2 border-b"><StatusBadge status={a.status} /></td>
       <td className="px-3 py-2 border-b w-64">
         <label className="block mb-1">
           <span className="block text-xs text-slate-600">ยี่ห้อ</span>
@@ -544,9 +929,10 @@ function AssetRow({ a, brands, models, vendors, editingIdState, editFormState, o
     </>
   ) : (
     <>
-      <td className="px-3 py-2 border-b">{a.asset_id}</td>
+      <td className="px-3 py-2 border-b"><AssetLink id={a.asset_id} onOpen={onOpenAsset} /></td>
       <td className="px-3 py-2 border-b">{a.id_code}</td>
       <td className="px-3 py-2 border-b">{a.name}</td>
+      <td className="px-3 py-2 border-b"><StatusBadge status={a.status} /></td>
       <td className="px-3 py-2 border-b">{a.brand} {a.model}</td>
       <td className="px-3 py-2 border-b">{a.serial}</td>
       <td className="px-3 py-2 border-b">{formatDate(a.purchase_date)}</td>
@@ -561,13 +947,55 @@ function AssetRow({ a, brands, models, vendors, editingIdState, editFormState, o
 }
 
 /********** borrow **********/
-function Borrow({ assets, depts, setDepts, onCreateBorrow, activeIds = [] }: any) {
+function Borrow({ assets, borrows, depts, setDepts, onCreateBorrow, onPrintSlip, activeIds = [], servicePlans, serviceLog, picked, onScan, reservations, dueOf, handover, onClearHandover, onQueue, staffName }: {
+  assets: Asset[]; borrows: BorrowRecord[]; depts: Department[]; setDepts: (v: Department[]) => void;
+  onCreateBorrow: (records: BorrowRecord[], from?: Handover) => Promise<boolean>; onPrintSlip: (loans: BorrowRecord[], kind: SlipKind) => void; activeIds?: string[];
+  servicePlans: ServicePlan[]; serviceLog: ServiceRecord[];
+  reservations: Reservation[]; dueOf: (b: BorrowRecord) => LoanDue;
+  handover: Handover | null; onClearHandover: () => void; onQueue: (a: Asset) => void;
+  picked?: ScanPick | null; onScan?: () => void; staffName?: string;
+}) {
   const [assetId, setAssetId] = useState("");
-  const asset  = useMemo(() => assets.find((a: any) => a.asset_id === assetId), [assets, assetId]);
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const canLend = (a: Asset) => isLendable(a) && !activeIds.includes(a.asset_id);
+  const addLine = (id: string) => setCart(c => c.some(l => l.asset_id === id) ? c : [...c, { asset_id: id, peripherals: "" }]);
+  // a scanned unit that can go out is put straight into the cart
+  useEffect(() => {
+    if (!picked) return;
+    setAssetId(picked.asset_id);
+    const a = assets.find(x => x.asset_id === picked.asset_id);
+    if (a && canLend(a)) addLine(a.asset_id);
+  }, [picked]);
+  const asset  = useMemo(() => assets.find(a => a.asset_id === assetId), [assets, assetId]);
   const isBusy = useMemo(() => asset ? activeIds.includes(asset.asset_id) : false, [asset, activeIds]);
-  const [form, setForm] = useState({ peripherals: "", lender_name: "", start_date: todayStr(), end_date: "", borrower_name: "", borrower_dept: "" });
+  const notLendable = !!asset && !isLendable(asset);
+  const [form, setForm] = useState({ lender_name: staffName ?? "", start_date: todayStr(), end_date: "", borrower_name: "", borrower_dept: "" });
   const [sign, setSign] = useState<string | null>(null);
   const [err, setErr] = useState("");
+  // the signed-in staff member is the lender
+  useEffect(() => { if (staffName) setForm(f => ({ ...f, lender_name: staffName })); }, [staffName]);
+
+  // the cart, or just the selected asset while nothing has been added yet
+  const lines: CartLine[] = cart.length ? cart : asset ? [{ asset_id: asset.asset_id, peripherals: "" }] : [];
+  const setLine = (i: number, peripherals: string) => setCart(lines.map((l, j) => j === i ? { ...l, peripherals } : l));
+  const removeLine = (id: string) => { setCart(lines.filter(l => l.asset_id !== id)); if (id === assetId) setAssetId(""); };
+  const blocked = lines.some(l => { const a = assets.find(x => x.asset_id === l.asset_id); return !a || !canLend(a); });
+
+  useEffect(() => {
+    if (handover) setForm(f => ({ ...f, borrower_name: handover.requester, borrower_dept: handover.dept, start_date: todayStr(), end_date: handover.end_date }));
+  }, [handover]);
+  const fromHandover = handover && lines.some(l => l.asset_id === handover.asset_id) ? handover : null;
+  // other people's bookings that lending `a` would run into
+  const busy = useMemo(() => occupancy([], reservations, dueOf), [reservations, dueOf]);
+  const bookingsOf = (a: Asset) => {
+    if (!form.start_date) return [];
+    const draft = { asset_id: a.asset_id, borrower_dept: form.borrower_dept, start_date: form.start_date, end_date: form.end_date || null } as BorrowRecord;
+    const ignore = fromHandover?.source === "reservation" && fromHandover.asset_id === a.asset_id ? fromHandover.ref : undefined;
+    return conflictsFor(busy, { asset_id: a.asset_id, from: form.start_date, to: dueOf(draft).due }, ignore);
+  };
+  const pastDueOf = (a: Asset) => serviceDue(a, servicePlans, serviceLog).filter(d => d.state === "overdue");
+  const bookedBy = asset ? bookingsOf(asset) : [];
+  const pastDue = asset ? pastDueOf(asset) : [];
 
   // Inline add for Department
   const [addingDept, setAddingDept] = useState(false);
@@ -581,40 +1009,94 @@ function Borrow({ assets, depts, setDepts, onCreateBorrow, activeIds = [] }: any
 
   const submit = async (e: React.FormEvent) => {
     e.preventDefault(); setErr("");
-    if (!asset) return setErr("ไม่พบ Asset ID นี้");
-    if (isBusy) return setErr("เครื่องนี้กำลังถูกยืมอยู่ — ห้ามบันทึกซ้ำ");
+    if (!lines.length) return setErr("เลือกเครื่องที่จะให้ยืม");
+    const picks: Asset[] = [];
+    for (const l of lines) {
+      const a = assets.find(x => x.asset_id === l.asset_id);
+      if (!a) return setErr(`ไม่พบ Asset ID ${l.asset_id}`);
+      if (activeIds.includes(a.asset_id)) return setErr(`${a.asset_id} กำลังถูกยืมอยู่ — ห้ามบันทึกซ้ำ`);
+      if (!isLendable(a)) return setErr(`${a.asset_id} อยู่ในสถานะ "${STATUS_LABELS[a.status]}" — ให้ยืมไม่ได้`);
+      picks.push(a);
+    }
     if (!form.lender_name || !form.borrower_name || !form.start_date) return setErr("กรอกผู้ให้ยืม/ผู้ยืม/วันที่เริ่มยืม");
     if (!sign) return setErr("กรุณาเซ็นชื่อผู้ขอยืมให้เรียบร้อย");
-    const rec = {
-      id: uid(), asset_id: asset.asset_id, asset_name: asset.name,
+    const booked = picks.flatMap(a => bookingsOf(a).map(b => `${a.asset_id}: ${b.dept} ${formatDate(b.from)}`));
+    if (booked.length && !confirm(`มีเครื่องที่ถูกจองไว้แล้ว (${booked.join(", ")}) — ยืนยันให้ยืม?`)) return;
+    const overdue = picks.flatMap(a => pastDueOf(a).map(d => `${a.asset_id} ${d.kind === "pm" ? "PM" : "สอบเทียบ"}`));
+    if (overdue.length && !confirm(`เลยกำหนด ${overdue.join(", ")} แล้ว — ยืนยันให้ยืม?`)) return;
+    // one transaction: shared borrower, lender and signature; a single asset needs no group
+    const group_id = picks.length > 1 ? newGroupId() : null;
+    const created_at = new Date().toISOString();
+    const recs: BorrowRecord[] = picks.map((a, i) => ({
+      id: uid(), asset_id: a.asset_id, asset_name: a.name, peripherals: lines[i].peripherals.trim(),
       ...form, end_date: form.end_date || null, returned_at: null,
-      borrower_sign: sign, created_at: new Date().toISOString()
-    };
-    const ok = await onCreateBorrow(rec); if (ok) { setSign(null); alert("บันทึกการยืมแล้ว"); }
+      borrower_sign: sign, created_at, group_id, receiver_sign: null, inspection: null
+    }));
+    const ok = await onCreateBorrow(recs, fromHandover ?? undefined);
+    if (ok) {
+      setSign(null); setCart([]); setAssetId("");
+      if (fromHandover) onClearHandover();
+      if (confirm(`${group_id ? `บันทึกการยืม ${recs.length} เครื่องแล้ว — เลขที่รายการ ${group_id}` : "บันทึกการยืมแล้ว"}\nพิมพ์ใบยืมเพื่อมอบพร้อมเครื่อง?`)) onPrintSlip(recs, "borrow");
+    }
   };
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
       <Card>
-        <div className="flex items-center gap-2 mb-3"><HandPlatter size={18} className="text-blue-600"/><h3 className="font-semibold">ค้นหาเครื่องด้วย Asset ID</h3></div>
-        <CInput className="w-full" value={assetId} onChange={setAssetId} />
+        <div className="flex items-center gap-2 mb-3"><HandPlatter size={18} className="text-blue-600"/><h3 className="font-semibold">เลือกเครื่อง</h3></div>
+        <div className="flex gap-2">
+          <CInput className="w-full" value={assetId} onChange={setAssetId} />
+          <Button variant="ghost" size="sm" onClick={onScan} title="สแกน"><ScanLine size={16}/></Button>
+        </div>
         {asset ? (
           <div className="mt-3 text-sm">
             <div className="font-medium">{asset.name}</div>
             <div className="text-slate-600">{asset.brand} {asset.model} • Serial: {asset.serial}</div>
-            {isBusy && <div className="mt-2"><Badge tone="red">กำลังถูกยืมอยู่</Badge></div>}
+            {isBusy && <div className="mt-2 flex items-center gap-2"><Badge tone="red">กำลังถูกยืมอยู่</Badge><Button variant="ghost" size="sm" onClick={() => onQueue(asset)}>เข้าคิวรอเครื่องประเภทนี้</Button></div>}
+            {bookedBy.length > 0 && <div className="mt-2 space-y-1">{bookedBy.map(b => <div key={b.ref}><Badge tone="red">จองโดย {b.dept} {formatDate(b.from)} – {formatDate(b.to)}</Badge></div>)}</div>}
+            {pastDue.length > 0 && <div className="mt-2 flex flex-wrap gap-1">{pastDue.map(d => <DueBadge key={d.kind} d={d} />)}</div>}
+            {notLendable && <div className="mt-2"><StatusBadge status={asset.status} /> <span className="text-slate-600">ให้ยืมไม่ได้</span></div>}
+            {canLend(asset) && !cart.some(l => l.asset_id === asset.asset_id) && (
+              <Button variant="ghost" size="sm" className="mt-2" onClick={() => { addLine(asset.asset_id); setAssetId(""); }}><ShoppingCart size={16}/>เพิ่มลงรายการยืม</Button>
+            )}
           </div>
         ) : (
-          <div className="mt-3 text-slate-500 text-sm">พิมพ์ Asset ID เพื่อค้นหา</div>
+          <div className="mt-3 text-slate-500 text-sm">พิมพ์ Asset ID หรือสแกนป้ายเพื่อค้นหา</div>
         )}
+        <UnitPicker assets={assets} borrows={borrows} activeIds={activeIds} servicePlans={servicePlans} serviceLog={serviceLog} selected={assetId} onPick={setAssetId} />
       </Card>
 
       <Card className="lg:col-span-2">
         <div className="flex items-center gap-2 mb-3"><CheckCircle2 size={18} className="text-blue-600"/><h3 className="font-semibold">บันทึกการยืม</h3></div>
         {err && <div className="mb-3"><Badge tone="red">{err}</Badge></div>}
+        {fromHandover && (
+          <div className="mb-3 flex items-center gap-2">
+            <Badge tone="blue">{fromHandover.source === "reservation" ? "รับเครื่องตามการจองของ" : "ส่งต่อให้คิวของ"} {fromHandover.dept} ({fromHandover.requester}) • {fromHandover.asset_id}</Badge>
+            <Button variant="ghost" size="sm" onClick={onClearHandover}>ยกเลิก</Button>
+          </div>
+        )}
+        <div className="mb-4 text-sm">
+          <div className="font-medium mb-1">รายการเครื่อง ({lines.length})</div>
+          <div className="border rounded-xl divide-y">
+            {lines.map((l, i) => { const a = assets.find(x => x.asset_id === l.asset_id); return (
+              <div key={l.asset_id} className="px-3 py-2 flex flex-wrap items-center gap-2">
+                <div className="w-48">
+                  <div className="font-medium">{l.asset_id}</div>
+                  <div className="text-xs text-slate-500">{a ? `${a.name} • ${a.brand} ${a.model}` : "ไม่พบในทะเบียน"}</div>
+                </div>
+                {a && !canLend(a) && <Badge tone="red">ให้ยืมไม่ได้</Badge>}
+                {a && bookingsOf(a).length > 0 && <Badge tone="red">ถูกจองไว้</Badge>}
+                {a && pastDueOf(a).length > 0 && <Badge tone="red">เลยกำหนด PM/สอบเทียบ</Badge>}
+                <span className="text-slate-600">อุปกรณ์ต่อพ่วง</span>
+                <CInput className="flex-1 min-w-[10rem]" value={l.peripherals} onChange={(v) => setLine(i, v)} />
+                <Button variant="ghost" size="sm" onClick={() => removeLine(l.asset_id)} title="เอาออก"><Trash2 size={16}/></Button>
+              </div>
+            ); })}
+            {lines.length === 0 && <div className="px-3 py-3 text-slate-500">เลือกเครื่องทางซ้าย — ยืมหลายเครื่องในรายการเดียวได้ด้วย "เพิ่มลงรายการยืม"</div>}
+          </div>
+        </div>
         <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-2 gap-3">
-          <Text label="อุปกรณ์ต่อพ่วง" value={form.peripherals} onChange={(v) => setForm({ ...form, peripherals: v })} />
-          <Text label="ชื่อผู้ให้ยืม" value={form.lender_name} onChange={(v) => setForm({ ...form, lender_name: v })} required />
+          <Text label="ชื่อผู้ให้ยืม" value={form.lender_name} onChange={(v) => setForm({ ...form, lender_name: v })} required readOnly={!!staffName} />
           <Text label="วันที่เริ่มยืม" type="date" value={form.start_date} onChange={(v) => setForm({ ...form, start_date: v })} required />
           <Text label="กำหนดคืน (ถ้ามี)" type="date" value={form.end_date} onChange={(v) => setForm({ ...form, end_date: v })} />
           <Text label="ชื่อผู้ขอยืม" value={form.borrower_name} onChange={(v) => setForm({ ...form, borrower_name: v })} required />
@@ -637,8 +1119,8 @@ function Borrow({ assets, depts, setDepts, onCreateBorrow, activeIds = [] }: any
           </label>
           <div className="md:col-span-2"><SignaturePad value={sign} onChange={setSign} /></div>
           <div className="md:col-span-2">
-            <Button className={isBusy ? "bg-slate-400 hover:bg-slate-400 cursor-not-allowed" : ""} disabled={isBusy}>
-              บันทึกการยืม
+            <Button className={blocked ? "bg-slate-400 hover:bg-slate-400 cursor-not-allowed" : ""} disabled={blocked}>
+              บันทึกการยืม{lines.length > 1 ? ` (${lines.length} เครื่อง)` : ""}
             </Button>
           </div>
         </form>
@@ -648,33 +1130,130 @@ function Borrow({ assets, depts, setDepts, onCreateBorrow, activeIds = [] }: any
 }
 
 /********** return + Edit **********/
-function Return({ borrows, onReturn, onUpdateBorrow }: any) {
-  const active = borrows.filter((b: any) => !b.returned_at);
+function Return({ borrows, assets, waitlist, onHandover, dueOf, onReturn, onUndoReturn, onUpdateBorrow, onPrintSlip, picked, onScan, onOpenAsset, staffName }: {
+  borrows: BorrowRecord[]; assets: Asset[]; waitlist: WaitlistEntry[]; onHandover: (w: WaitlistEntry, assetId: string) => void;
+  dueOf: (b: BorrowRecord) => LoanDue; onReturn: (items: ReturnedLoan[], receiverSign: string) => Promise<boolean>;
+  onUndoReturn: (borrowIds: string[]) => Promise<boolean>; onUpdateBorrow: (id: string, patch: Partial<BorrowRecord>) => Promise<boolean>;
+  onPrintSlip: (loans: BorrowRecord[], kind: SlipKind) => void;
+  picked?: ScanPick | null; onScan?: () => void; onOpenAsset?: (id: string) => void; staffName?: string;
+}) {
+  const active = borrows.filter(b => !b.returned_at);
   const [kw, setKw] = useState("");
+  // asset picked by a scan, shown with a one-tap return button
+  const [scanned, setScanned] = useState<string | null>(null);
+  useEffect(() => { if (picked) setScanned(picked.asset_id); }, [picked]);
+  const scannedLoan = scanned ? active.find(b => b.asset_id === scanned) : undefined;
+  // after a return, offer a returned unit to the next department waiting for its type
+  const [returned, setReturned] = useState<string[]>([]);
+  const offer = returned
+    .map(id => assets.find(a => a.asset_id === id))
+    .map(a => a && isLendable(a) ? { asset: a, next: nextInQueue(a, waitlist) } : undefined)
+    .find(x => x?.next);
+  const dropReturned = (id: string) => setReturned(prev => prev.filter(x => x !== id));
+  // loans of the last return, until it is undone or dismissed
+  const [lastReturn, setLastReturn] = useState<string[]>([]);
+  const undoLast = async () => { if (await onUndoReturn(lastReturn)) { setLastReturn([]); setReturned([]); } };
+  // loans waiting in the inspection dialog
+  const [returning, setReturning] = useState<BorrowRecord[] | null>(null);
+  const doReturn = (rs: BorrowRecord[]) => { if (rs.length) setReturning(rs); };
+  const finishReturn = async (items: ReturnedLoan[], receiverSign: string) => {
+    const ok = await onReturn(items, receiverSign);
+    if (ok) {
+      const ids = items.map(x => x.id);
+      setReturned((returning ?? []).map(r => r.asset_id));
+      setLastReturn(ids);
+      setSel(prev => prev.filter(id => !ids.includes(id)));
+      if (scannedLoan && ids.includes(scannedLoan.id)) setScanned(null);
+    }
+    return ok;
+  };
+  const confirmScanned = () => { if (scannedLoan) doReturn([scannedLoan]); };
+  // loans ticked inside a transaction, for a partial return
+  const [sel, setSel] = useState<string[]>([]);
+  const toggle = (id: string) => setSel(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
   const [editId, setEditId] = useState<string | null>(null);
   const [edit, setEdit] = useState<any>({});
   const list = useMemo(
-    () => !kw ? active : active.filter((r: any) => {
+    () => !kw ? active : active.filter(r => {
       const k = kw.toLowerCase();
-      return r.asset_id.toLowerCase().includes(k) || (r.asset_name || "").toLowerCase().includes(k) || (r.borrower_name || "").toLowerCase().includes(k);
+      return r.asset_id.toLowerCase().includes(k) || (r.asset_name || "").toLowerCase().includes(k) || (r.borrower_name || "").toLowerCase().includes(k) || (r.group_id || "").toLowerCase().includes(k);
     }),
     [kw, active]
   );
-  const start = (r: any) => { setEditId(r.id); setEdit({ borrower_name: r.borrower_name||"", borrower_dept: r.borrower_dept||"", lender_name: r.lender_name||"", peripherals: r.peripherals||"", end_date: r.end_date||"" }); };
+  const groups = useMemo(() => groupLoans(list), [list]);
+  const start = (r: BorrowRecord) => { setEditId(r.id); setEdit({ borrower_name: r.borrower_name||"", borrower_dept: r.borrower_dept||"", lender_name: r.lender_name||"", peripherals: r.peripherals||"", end_date: r.end_date||"" }); };
   const cancel = () => { setEditId(null); setEdit({}); };
-  const save = async (id: string) => { await onUpdateBorrow(id, edit); setEditId(null); };
+  const save = async (id: string) => { await onUpdateBorrow(id, { ...edit, end_date: edit.end_date || null }); setEditId(null); };
 
   return (
     <Card>
       <div className="flex items-center gap-2 mb-3"><Undo2 size={18} className="text-blue-600"/><h3 className="font-semibold">บันทึกการคืน</h3></div>
-      <CInput className="w-full md:w-80 mb-3" value={kw} onChange={setKw} />
+      {scanned && (
+        <div className={"mb-3 border rounded-xl p-3 flex flex-wrap items-center gap-3 " + (scannedLoan ? "bg-blue-50 border-blue-200" : "bg-slate-50")}>
+          {scannedLoan ? (
+            <>
+              <div className="text-sm">
+                <div className="font-semibold">{scannedLoan.asset_id} • {scannedLoan.asset_name}</div>
+                <div className="text-slate-600">ยืมโดย {scannedLoan.borrower_name} ({scannedLoan.borrower_dept || "-"}) • {daysBetween(scannedLoan.start_date)} วัน <LoanDueBadge d={dueOf(scannedLoan)} /></div>
+                {scannedLoan.group_id && <div className="text-slate-600">รายการ {scannedLoan.group_id} — ยังค้างอีก {active.filter(b => b.group_id === scannedLoan.group_id).length - 1} เครื่อง</div>}
+              </div>
+              <Button variant="success" size="lg" className="ml-auto" onClick={confirmScanned}><CheckCircle2 size={20}/>ยืนยันรับคืน</Button>
+            </>
+          ) : (
+            <div className="text-sm text-slate-600">เครื่อง {scanned} ไม่มีรายการยืมค้าง</div>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => setScanned(null)}>ปิด</Button>
+        </div>
+      )}
+      {lastReturn.length > 0 && (
+        <div className="mb-3 border rounded-xl px-3 py-2 flex items-center gap-3 bg-slate-50 text-sm">
+          <span>บันทึกคืนแล้ว {lastReturn.length} รายการ</span>
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={() => onPrintSlip(borrows.filter(b => lastReturn.includes(b.id)), "return")}><Printer size={16}/>พิมพ์ใบรับคืน</Button>
+          <Button variant="ghost" size="sm" onClick={undoLast}><Undo2 size={16}/>ยกเลิกการคืน</Button>
+          <Button variant="ghost" size="sm" onClick={() => setLastReturn([])}>ปิด</Button>
+        </div>
+      )}
+      {offer?.next && (
+        <div className="mb-3 border rounded-xl p-3 flex flex-wrap items-center gap-3 bg-emerald-50 border-emerald-200 text-sm">
+          <div>
+            <div className="font-semibold">{offer.asset.asset_id} คืนแล้ว — คิวถัดไปที่รอ {typeLabel(offer.next)}</div>
+            <div className="text-slate-600 flex items-center gap-2">{offer.next.dept} ({offer.next.requester}) <PriorityBadge p={offer.next.priority} /> ขอเมื่อ {formatDate(offer.next.requested_at)}</div>
+          </div>
+          <Button variant="success" className="ml-auto" onClick={() => { onHandover(offer.next!, offer.asset.asset_id); setReturned([]); }}><HandPlatter size={18}/>ส่งต่อให้คิวนี้</Button>
+          <Button variant="ghost" size="sm" onClick={() => dropReturned(offer.asset.asset_id)}>ปิด</Button>
+        </div>
+      )}
+      <div className="flex gap-2 mb-3">
+        <CInput className="w-full md:w-80" value={kw} onChange={setKw} />
+        <Button variant="ghost" size="sm" onClick={onScan}><ScanLine size={16}/>สแกนเพื่อคืน</Button>
+      </div>
       <div className="overflow-auto max-h-[28rem] border rounded-xl">
         <table className="min-w-full text-sm">
-          <thead className="bg-slate-50 sticky top-0"><tr>{["Asset ID", "ชื่อเครื่อง", "ผู้ยืม", "เริ่มยืม", "วันสะสม", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+          <thead className="bg-slate-50 sticky top-0"><tr>{["Asset ID", "ชื่อเครื่อง", "ผู้ยืม", "เริ่มยืม", "กำหนดคืน", "วันสะสม", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
           <tbody>
-            {list.map((r: any) => (
+            {groups.map(g => { const picked = g.items.filter(r => sel.includes(r.id)); return (
+              <React.Fragment key={g.key}>
+              {g.group_id && (
+                <tr className="bg-blue-50/70">
+                  <td colSpan={7} className="px-3 py-2 border-b">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge tone="blue">{g.group_id}</Badge>
+                      <span>{g.items[0].borrower_name} ({g.items[0].borrower_dept || "-"}) • ค้างคืน {g.items.length} / {loansInGroup(borrows, g.group_id).length} เครื่อง</span>
+                      <div className="ml-auto flex gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => onPrintSlip(loansInGroup(borrows, g.group_id!), "borrow")} title="พิมพ์ใบยืมซ้ำ"><Printer size={16}/>ใบยืม</Button>
+                        <Button variant="ghost" size="sm" disabled={!picked.length} onClick={() => doReturn(picked)}><CheckCircle2 size={16}/>คืนที่เลือก ({picked.length})</Button>
+                        <Button variant="success" size="sm" onClick={() => doReturn(g.items)}><CheckCircle2 size={16}/>คืนทั้งชุด</Button>
+                      </div>
+                    </div>
+                  </td>
+                </tr>
+              )}
+              {g.items.map(r => { const d = dueOf(r); return (
               <tr key={r.id} className="odd:bg-white even:bg-slate-50 align-top hover:bg-slate-100/60">
-                <td className="px-3 py-2 border-b">{r.asset_id}</td>
+                <td className="px-3 py-2 border-b">
+                  {g.group_id && <input type="checkbox" className="mr-2" checked={sel.includes(r.id)} onChange={() => toggle(r.id)} />}
+                  <AssetLink id={r.asset_id} onOpen={onOpenAsset} />
+                </td>
                 <td className="px-3 py-2 border-b">{r.asset_name}</td>
                 <td className="px-3 py-2 border-b">
                   {editId===r.id ? (
@@ -691,74 +1270,55 @@ function Return({ borrows, onReturn, onUpdateBorrow }: any) {
                     </div>
                   ) : (
                     <>
-                      <div className="flex items-center gap-2">{r.borrower_name} {daysBetween(r.start_date) >= 14 && <Badge tone="red">นาน</Badge>}</div>
+                      <div className="flex items-center gap-2">{r.borrower_name} <LoanDueBadge d={d} /></div>
                     </>
                   )}
                 </td>
                 <td className="px-3 py-2 border-b">{formatDate(r.start_date)}</td>
-                <td className={"px-3 py-2 border-b " + (daysBetween(r.start_date) >= 14 ? "text-red-700 font-semibold" : "")}>{daysBetween(r.start_date)}</td>
+                <td className="px-3 py-2 border-b">{formatDate(d.due)}</td>
+                <td className={"px-3 py-2 border-b " + (d.state === "overdue" ? "text-red-700 font-semibold" : "")}>{daysBetween(r.start_date)}</td>
                 <td className="px-3 py-2 border-b">
                   {editId===r.id ? null : (
                     <div className="flex gap-2">
                       <Button variant="ghost" size="sm" onClick={()=>start(r)}><PencilLine size={16}/>แก้ไข</Button>
-                      <Button variant="success" size="sm" onClick={()=>onReturn(r.id)}><CheckCircle2 size={16}/>บันทึกคืน</Button>
+                      {!g.group_id && <Button variant="ghost" size="sm" onClick={() => onPrintSlip([r], "borrow")} title="พิมพ์ใบยืมซ้ำ"><Printer size={16}/></Button>}
+                      <Button variant="success" size="sm" onClick={()=>doReturn([r])}><CheckCircle2 size={16}/>บันทึกคืน</Button>
                     </div>
                   )}
                 </td>
               </tr>
-            ))}
-            {list.length === 0 && (<tr><td colSpan={6} className="px-3 py-6 text-center text-slate-500">ไม่มีรายการที่กำลังยืม</td></tr>)}
+              ); })}
+              </React.Fragment>
+            ); })}
+            {list.length === 0 && (<tr><td colSpan={7} className="px-3 py-6 text-center text-slate-500">ไม่มีรายการที่กำลังยืม</td></tr>)}
           </tbody>
         </table>
       </div>
+      {returning && <ReturnDialog loans={returning} assets={assets} receiverName={staffName} onConfirm={finishReturn} onClose={() => setReturning(null)} />}
     </Card>
   );
 }
 
 /********** report (PDF + real .xlsx) **********/
-function Report({ borrows, depts, orgName, reportLogo }: { borrows: any[]; depts: string[]; orgName: string; reportLogo: string; }) {
-  const [from, setFrom] = useState(""); const [to, setTo] = useState(""); const [dept, setDept] = useState("");
+function Report({ borrows, assets, brands, depts, dueOf, orgName, reportLogo, templates, setTemplates, onPrintSlip }: {
+  borrows: BorrowRecord[]; assets: Asset[]; brands: string[]; depts: Department[]; dueOf: (b: BorrowRecord) => LoanDue; orgName: string; reportLogo: string;
+  templates: ReportTemplate[]; setTemplates: (v: ReportTemplate[]) => void; onPrintSlip: (loans: BorrowRecord[], kind: SlipKind) => void;
+}) {
+  const [def, setDef] = useState<ReportDef>(DEFAULT_REPORT);
   const [xlLoading, setXlLoading] = useState(false);
   const [xlNote, setXlNote] = useState("");
+  const title = "รายงานการยืม-คืน";
 
-  const filtered = useMemo(
-    () => borrows.filter((r: any) => {
-      const sd = new Date(r.start_date);
-      if (from && sd < new Date(from)) return false;
-      if (to && sd > new Date(to)) return false;
-      if (dept && (r.borrower_dept || "") !== dept) return false;
-      return true;
-    }),
-    [borrows, from, to, dept]
-  );
+  const report = useMemo(() => buildReport(def, borrows, assets, dueOf), [def, borrows, assets, dueOf]);
+  const { columns, group_by } = report.def;
 
   const exportFallbackXLS = () => {
-    const head1 = `<tr><th colspan="10" style="font-size:16px;text-align:left">${orgName}</th></tr>`;
-    const head2 = `<tr><th colspan="10" style="text-align:left">รายงานการยืม-คืน • พิมพ์เมื่อ ${new Date().toLocaleString()}</th></tr>`;
-    const headers = ["Asset ID","ชื่อเครื่อง","ผู้ยืม","แผนก","ผู้ให้ยืม","เริ่มยืม","กำหนดคืน","คืนจริง","ระยะเวลา(วัน)","ลายเซ็น"];
-    const thead = `<tr>${headers.map(h => `<th>${h}</th>`).join("")}</tr>`;
-    const tbody = filtered.map((r:any)=> `<tr>
-      <td>${r.asset_id}</td>
-      <td>${r.asset_name||""}</td>
-      <td>${r.borrower_name||""}</td>
-      <td>${r.borrower_dept||""}</td>
-      <td>${r.lender_name||""}</td>
-      <td>${formatDate(r.start_date)}</td>
-      <td>${r.end_date?formatDate(r.end_date):""}</td>
-      <td>${r.returned_at?formatDate(r.returned_at):""}</td>
-      <td>${r.returned_at?daysBetween(r.start_date,r.returned_at):daysBetween(r.start_date)}</td>
-      <td></td>
-    </tr>`).join("");
-    const html = `<!doctype html><html><head><meta charset='utf-8'></head><body><table>${head1}${head2}${thead}${tbody}</table></body></html>`;
-    const blob = new Blob([html], { type: "application/vnd.ms-excel" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a"); a.href = url; a.download = `medical_pool_${Date.now()}.xls`;
-    document.body.appendChild(a); a.click(); document.body.removeChild(a); URL.revokeObjectURL(url);
+    downloadBlob(new Blob([reportXlsHtml(report, title, orgName)], { type: "application/vnd.ms-excel" }), `medical_pool_${Date.now()}.xls`);
   };
 
   const exportXLSX = async () => {
     if (xlLoading) return;
-    if (!filtered || filtered.length === 0) {
+    if (report.count === 0) {
       setXlNote("ไม่มีข้อมูลตามตัวกรองที่จะส่งออก");
       setTimeout(()=>setXlNote(""), 2500);
       return;
@@ -778,35 +1338,15 @@ function Report({ borrows, depts, orgName, reportLogo }: { borrows: any[]; depts
     }
 
     try {
-      const now = new Date();
-      const aoa: any[][] = [
-        [orgName],
-        ["รายงานการยืม-คืน", now.toLocaleString()],
-        [""],
-        ["Asset ID","ชื่อเครื่อง","ผู้ยืม","แผนก","ผู้ให้ยืม","เริ่มยืม","กำหนดคืน","คืนจริง","ระยะเวลา(วัน)","ลายเซ็น"]
-      ];
-      filtered.forEach((r:any)=>{
-        aoa.push([
-          String(r.asset_id || ""),
-          String(r.asset_name || ""),
-          String(r.borrower_name || ""),
-          String(r.borrower_dept || ""),
-          String(r.lender_name || ""),
-          formatDate(r.start_date) || "",
-          r.end_date ? formatDate(r.end_date) : "",
-          r.returned_at ? formatDate(r.returned_at) : "",
-          r.returned_at ? daysBetween(r.start_date, r.returned_at) : daysBetween(r.start_date),
-          ""
-        ]);
-      });
-
+      const { aoa, groupRows } = reportAoa(report, orgName, title);
+      const last = columns.length - 1;
       const ws = XLSX.utils.aoa_to_sheet(aoa);
-      (ws["!cols"] as any) = [{wch:12},{wch:22},{wch:16},{wch:10},{wch:14},{wch:12},{wch:12},{wch:12},{wch:12},{wch:10}];
-      (ws["!merges"] as any) = [{s:{r:0,c:0}, e:{r:0,c:9}}];
+      (ws["!cols"] as any) = columns.map(c => ({ wch: REPORT_COLUMNS[c].width }));
+      (ws["!merges"] as any) = [0, 2, ...groupRows].map(r => ({ s: { r, c: 0 }, e: { r, c: last } }));
       const wb = XLSX.utils.book_new();
       XLSX.utils.book_append_sheet(wb, ws, "Report");
       XLSX.writeFile(wb, `medical_pool_${Date.now()}.xlsx`);
-      setXlNote(`ส่งออก .xlsx เรียบร้อย (${filtered.length} รายการ)`);
+      setXlNote(`ส่งออก .xlsx เรียบร้อย (${report.count} รายการ)`);
     } catch (e:any) {
       setXlNote("สร้าง .xlsx ไม่ได้ กำลังใช้ไฟล์สำรอง .xls");
       exportFallbackXLS();
@@ -816,23 +1356,25 @@ function Report({ borrows, depts, orgName, reportLogo }: { borrows: any[]; depts
     }
   };
 
-  const printPDF = () => {
-    const rows = filtered.map((r: any) => (
-      `<tr><td>${r.asset_id}</td><td>${r.asset_name || ""}</td><td>${r.borrower_name || ""}</td><td>${r.borrower_dept || ""}</td><td>${r.lender_name || ""}</td><td>${formatDate(r.start_date)}</td><td>${r.end_date ? formatDate(r.end_date) : ""}</td><td>${r.returned_at ? formatDate(r.returned_at) : ""}</td><td>${r.returned_at ? daysBetween(r.start_date, r.returned_at) : daysBetween(r.start_date)}</td><td>${r.borrower_sign ? `<img src='${r.borrower_sign}' style='height:28px'/>` : "-"}</td></tr>`
-    )).join("");
-    const logo = reportLogo ? `<img src='${reportLogo}' style='height:48px;margin-right:8px'/>` : "";
-    const html = `<!doctype html><html><head><meta charset='utf-8'><title>Report</title><style>body{font-family:ui-sans-serif,system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial;color:#0f172a}table{width:100%;border-collapse:collapse;font-size:12px}th,td{border:1px solid #e5e7eb;padding:6px;text-align:left}thead{background:#f8fafc}.muted{color:#64748b;font-size:11px}@media print{@page{margin:12mm}}</style></head><body><div style='display:flex;align-items:center;font-weight:700;margin-bottom:8px'>${logo}<div>${orgName}</div></div><div class='muted' style='margin-bottom:6px'>รายงานการยืม-คืน • พิมพ์เมื่อ ${new Date().toLocaleString()}</div><table><thead><tr><th>Asset ID</th><th>ชื่อเครื่อง</th><th>ผู้ยืม</th><th>แผนก</th><th>ผู้ให้ยืม</th><th>เริ่มยืม</th><th>กำหนดคืน</th><th>คืนจริง</th><th>ระยะเวลา(วัน)</th><th>ลายเซ็น</th></tr></thead><tbody>${rows || `<tr><td colspan='10' class='muted'>ไม่มีข้อมูล</td></tr>`}</tbody></table><script>window.addEventListener('load',()=>{setTimeout(()=>{window.print();},100)});</script></body></html>`;
-    const w = window.open("", "_blank");
-    if (!w) { alert("เบราว์เซอร์บล็อกป๊อปอัป กรุณาอนุญาต แล้วลองใหม่"); return; }
-    w.document.open(); w.document.write(html); w.document.close(); w.focus();
+  const printPDF = () => openPrintWindow(reportHtml(report, title, orgName, reportLogo));
+
+  const cell = (c: ReportColumn, r: ReportRow) => {
+    if (c === "borrower_sign") return r.loan.borrower_sign ? <img src={r.loan.borrower_sign} alt="sign" className="h-8" /> : "-";
+    const v = REPORT_COLUMNS[c].get(r);
+    return v === "" ? "-" : v;
   };
+  const totalRow = (cells: ReportCell[], key: string, className: string) => (
+    <tr key={key} className={className}>{cells.map((v, i) => <td key={i} className="px-3 py-2 border-b">{v}</td>)}<td className="border-b" /></tr>
+  );
+  // the return slip once the loan is back, the handover slip before that
+  const reprint = (b: BorrowRecord) => { const kind = b.returned_at ? "return" : "borrow"; onPrintSlip(slipLoans(borrows, b, kind), kind); };
 
   return (
     <Card>
       <div className="flex items-center mb-2 gap-2">
         <FileBarChart2 className="text-blue-600" size={18}/>
-        <h3 className="font-semibold text-xl">รายงานการยืม-คืน</h3>
-        <Badge tone="blue">พบ {filtered.length} รายการ</Badge>
+        <h3 className="font-semibold text-xl">{title}</h3>
+        <Badge tone="blue">พบ {report.count} รายการ</Badge>
         <div className="ml-auto flex gap-2">
           <Button variant="success" onClick={exportXLSX} disabled={xlLoading} className={xlLoading? "cursor-wait":""}>
             <Download size={18}/> {xlLoading ? "กำลังเตรียม Excel..." : "Export Excel (.xlsx)"}
@@ -841,40 +1383,50 @@ function Report({ borrows, depts, orgName, reportLogo }: { borrows: any[]; depts
         </div>
       </div>
       {xlNote && <div className="mb-3 text-sm text-slate-600">{xlNote}</div>}
-      <div className="flex flex-wrap gap-3 mb-3 items-end">
-        <div><label className="text-sm block mb-1">จาก</label><input type="date" className="px-3 py-2 border rounded-xl" value={from} onChange={(e) => setFrom(e.target.value)} /></div>
-        <div><label className="text-sm block mb-1">ถึง</label><input type="date" className="px-3 py-2 border rounded-xl" value={to} onChange={(e) => setTo(e.target.value)} /></div>
-        <div className="flex-1 min-w-[220px]"><label className="block"><span className="block text-sm font-medium mb-1">แผนก</span><select className="px-3 py-2 border rounded-xl w-full" value={dept} onChange={(e) => setDept(e.target.value)}><option value="">ทั้งหมด</option>{depts.map(d => <option key={d} value={d}>{d}</option>)}</select></label></div>
-      </div>
+      <ReportBuilder def={def} onChange={setDef} depts={depts} brands={brands} templates={templates} setTemplates={setTemplates} />
+      {report.caption && <div className="mb-2 text-xs text-slate-500">{report.caption}</div>}
       <div className="overflow-auto max-h-[28rem] border rounded-xl">
         <table className="min-w-full text-sm">
           <thead className="bg-slate-50 sticky top-0">
-            <tr>{["Asset ID", "ชื่อเครื่อง", "ผู้ยืม", "แผนก", "ผู้ให้ยืม", "เริ่มยืม", "กำหนดคืน", "คืนจริง", "ระยะเวลา(วัน)", "ลายเซ็น"].map(h => (<th key={h} className="text-left px-3 py-2 border-b">{h}</th>))}</tr>
+            <tr>{columns.map(c => (<th key={c} className="text-left px-3 py-2 border-b">{REPORT_COLUMNS[c].label}</th>))}<th className="px-3 py-2 border-b" /></tr>
           </thead>
           <tbody>
-            {filtered.map((r: any) => (
-              <tr key={r.id} className="odd:bg-white even:bg-slate-50 hover:bg-slate-100/60">
-                <td className="px-3 py-2 border-b">{r.asset_id}</td>
-                <td className="px-3 py-2 border-b">{r.asset_name}</td>
-                <td className="px-3 py-2 border-b">{r.borrower_name}</td>
-                <td className="px-3 py-2 border-b">{r.borrower_dept || "-"}</td>
-                <td className="px-3 py-2 border-b">{r.lender_name}</td>
-                <td className="px-3 py-2 border-b">{formatDate(r.start_date)}</td>
-                <td className="px-3 py-2 border-b">{r.end_date ? formatDate(r.end_date) : "-"}</td>
-                <td className="px-3 py-2 border-b">{r.returned_at ? formatDate(r.returned_at) : "-"}</td>
-                <td className="px-3 py-2 border-b">{r.returned_at ? daysBetween(r.start_date, r.returned_at) : daysBetween(r.start_date)}</td>
-                <td className="px-3 py-2 border-b">{r.borrower_sign ? <img src={r.borrower_sign} alt="sign" className="h-8" /> : "-"}</td>
-              </tr>
+            {report.groups.map(g => (
+              <React.Fragment key={g.label}>
+                {group_by && <tr className="bg-blue-50 font-semibold"><td colSpan={columns.length + 1} className="px-3 py-2 border-b">{g.label}</td></tr>}
+                {g.rows.map(r => (
+                  <tr key={r.loan.id} className="odd:bg-white even:bg-slate-50 hover:bg-slate-100/60">
+                    {columns.map(c => <td key={c} className="px-3 py-2 border-b">{cell(c, r)}</td>)}
+                    <td className="px-3 py-1 border-b"><Button variant="ghost" size="sm" onClick={() => reprint(r.loan)} title={r.loan.returned_at ? "พิมพ์ใบรับคืน" : "พิมพ์ใบยืม"}><Printer size={16}/></Button></td>
+                  </tr>
+                ))}
+                {group_by && totalRow(g.subtotal, "sub", "bg-slate-100 font-medium")}
+              </React.Fragment>
             ))}
+            {report.count === 0 && <tr><td colSpan={columns.length + 1} className="px-3 py-6 text-center text-slate-500">ไม่มีข้อมูล</td></tr>}
           </tbody>
+          {report.count > 0 && <tfoot className="sticky bottom-0">{totalRow(report.total, "total", "bg-slate-100 font-semibold")}</tfoot>}
         </table>
       </div>
     </Card>
   );
 }
 
+/** Asset ID that opens the asset detail page when a handler is given. */
+function AssetLink({ id, onOpen }: { id: string; onOpen?: (id: string) => void }) {
+  if (!onOpen) return <>{id}</>;
+  return <button type="button" className="text-blue-700 hover:underline text-left" onClick={() => onOpen(id)}>{id}</button>;
+}
+
+/** Due-soon / overdue marker for a loan; nothing while it is well within its limit. */
+function LoanDueBadge({ d }: { d: LoanDue }) {
+  if (d.state === "overdue") return <Badge tone="red">เกินกำหนด {-d.days} วัน</Badge>;
+  if (d.state === "due_soon") return <Badge tone="blue">{d.days === 0 ? "ครบกำหนดวันนี้" : `ครบกำหนดใน ${d.days} วัน`}</Badge>;
+  return null;
+}
+
 /********** active list **********/
-function ActiveLoans({ borrows, compact }: { borrows: any[]; compact?: boolean; }) {
+function ActiveLoans({ borrows, dueOf, compact, onOpenAsset }: { borrows: BorrowRecord[]; dueOf: (b: BorrowRecord) => LoanDue; compact?: boolean; onOpenAsset?: (id: string) => void; }) {
   const rows = borrows;
   return (
     <div className="overflow-auto max-h-96 border rounded-xl">
@@ -883,16 +1435,16 @@ function ActiveLoans({ borrows, compact }: { borrows: any[]; compact?: boolean;
           <tr>{["Asset ID", "ชื่อเครื่อง", "ผู้ยืม", "แผนก", "เริ่มยืม", "กำหนดคืน", "วันสะสม", compact ? "" : "ลายเซ็น"].filter(Boolean).map(h => (<th key={String(h)} className="text-left px-3 py-2 border-b">{h as any}</th>))}</tr>
         </thead>
         <tbody>
-          {rows.map((r: any) => {
-            const od = daysBetween(r.start_date) >= 14;
+          {rows.map(r => {
+            const d = dueOf(r), od = d.state === "overdue";
             return (
               <tr key={r.id} className={"align-top " + (od ? "bg-red-50 hover:bg-red-100/70" : "odd:bg-white even:bg-slate-50 hover:bg-slate-100/60")}>
-                <td className="px-3 py-2 border-b">{r.asset_id}</td>
+                <td className="px-3 py-2 border-b"><AssetLink id={r.asset_id} onOpen={onOpenAsset} /></td>
                 <td className="px-3 py-2 border-b">{r.asset_name}</td>
                 <td className="px-3 py-2 border-b">{r.borrower_name}</td>
                 <td className="px-3 py-2 border-b">{r.borrower_dept || "-"}</td>
                 <td className="px-3 py-2 border-b">{formatDate(r.start_date)}</td>
-                <td className="px-3 py-2 border-b">{r.end_date ? formatDate(r.end_date) : "-"}</td>
+                <td className="px-3 py-2 border-b"><div className="flex items-center gap-2">{formatDate(d.due)} <LoanDueBadge d={d} /></div></td>
                 <td className={"px-3 py-2 border-b " + (od ? "text-red-700 font-semibold" : "")}>{daysBetween(r.start_date)}</td>
                 {!compact && <td className="px-3 py-2 border-b">{r.borrower_sign ? <img src={r.borrower_sign} alt="sign" className="h-10" /> : "-"}</td>}
               </tr>
@@ -905,11 +1457,38 @@ function ActiveLoans({ borrows, compact }: { borrows: any[]; compact?: boolean;
   );
 }
 
-/********** settings (Org Name + Logo + Reset) **********/
-function Settings({ orgName, setOrgName, reportLogo, setReportLogo }: { orgName: string; setOrgName: (v: string)=>void; reportLogo: string; setReportLogo: (v: string)=>void; }) {
-  const onResetAll = () => {
+/********** settings (Org Name + Logo + Loan rules + PM plans + Backup + Audit log + Quarantine + Reset) **********/
+function Settings({ orgName, setOrgName, reportLogo, setReportLogo, quarantine, setQuarantine, pool, onRestore, models, servicePlans, onSavePlan, onDeletePlan, loanPolicy, setLoanPolicy, notifyPolicy, setNotifyPolicy, costPolicy, setCostPolicy, depts, brands, audit, onUndo, staff, currentId, lockMinutes, setLockMinutes, onSaveStaff, canReset, onResetAll, channels, setChannels, templates, setTemplates, deliveries, onTestChannel, onRetryDelivery, onClearDeliveries }: {
+  orgName: string; setOrgName: (v: string)=>void; reportLogo: string; setReportLogo: (v: string)=>void;
+  quarantine: QuarantinedRecord[]; setQuarantine: (v: QuarantinedRecord[])=>void;
+  pool: PoolData; onRestore: (data: PoolData, settings: PoolSettings) => Promise<boolean>;
+  models: Model[]; servicePlans: ServicePlan[]; onSavePlan: (p: ServicePlan)=>Promise<boolean>; onDeletePlan: (id: string)=>Promise<boolean>;
+  loanPolicy: LoanPolicy; setLoanPolicy: (v: LoanPolicy)=>void; depts: Department[]; brands: string[];
+  notifyPolicy: NotifyPolicy; setNotifyPolicy: (v: NotifyPolicy)=>void; costPolicy: CostPolicy; setCostPolicy: (v: CostPolicy)=>void;
+  audit: AuditEntry[]; onUndo: (e: AuditEntry)=>Promise<boolean>;
+  staff: StaffAccount[]; currentId: string | null; lockMinutes: number; setLockMinutes: (v: number)=>void;
+  onSaveStaff: (a: StaffAccount)=>Promise<boolean>; canReset: boolean; onResetAll: ()=>Promise<boolean>;
+  channels: MessageChannel[]; setChannels: (v: MessageChannel[])=>void; templates: Record<MessageEvent, string>; setTemplates: (v: Record<MessageEvent, string>)=>void;
+  deliveries: Delivery[]; onTestChannel: (c: MessageChannel)=>void; onRetryDelivery: (id: string)=>void; onClearDeliveries: ()=>void;
+}) {
+  const downloadQuarantine = () => {
+    downloadBlob(new Blob([JSON.stringify(quarantine, null, 2)], { type: "application/json" }), `medical_pool_quarantine_${Date.now()}.json`);
+  };
+  const clearQuarantine = () => {
+    if (confirm("ลบข้อมูลที่ถูกแยกเก็บทั้งหมด? (ควรดาวน์โหลดเก็บไว้ก่อน)")) setQuarantine([]);
+  };
+
+  const [usage, setUsage] = useState("");
+  useEffect(() => {
+    navigator.storage?.estimate?.().then(({ usage = 0, quota = 0 }) => {
+      if (quota) setUsage(`ใช้พื้นที่ ${(usage / 1048576).toFixed(1)} MB จาก ${(quota / 1048576).toFixed(0)} MB`);
+    }).catch(() => {});
+  }, []);
+
+  const resetAll = async () => {
+    if (!confirm("ล้างข้อมูลทั้งหมดในเครื่องนี้? ควรดาวน์โหลดไฟล์สำรองก่อน — ย้อนกลับไม่ได้")) return;
     try {
-      Object.keys(localStorage).filter(k => k.startsWith("mp:")).forEach(k => localStorage.removeItem(k));
+      if (!await onResetAll()) return;
       alert("ล้างข้อมูลทั้งหมดแล้ว ระบบจะรีเฟรชหน้าให้อัตโนมัติ");
       window.location.reload();
     } catch (e) {
@@ -934,26 +1513,61 @@ function Settings({ orgName, setOrgName, reportLogo, setReportLogo }: { orgName:
         </div>
       </div>
 
+      <LoanPolicySettings policy={loanPolicy} onChange={setLoanPolicy} depts={depts} brands={brands} models={models} />
+
+      <NotifySettings policy={notifyPolicy} onChange={setNotifyPolicy} />
+
+      <MessagingSettings channels={channels} setChannels={setChannels} templates={templates} setTemplates={setTemplates} deliveries={deliveries} depts={depts}
+        onTest={onTestChannel} onRetry={onRetryDelivery} onClearLog={onClearDeliveries} />
+
+      <CostSettings policy={costPolicy} onChange={setCostPolicy} brands={brands} models={models} />
+
+      <ModelServicePlans models={models} plans={servicePlans} onSavePlan={onSavePlan} onDeletePlan={onDeletePlan} />
+
+      <BackupPanel data={pool} settings={{ orgName, reportLogo, loanPolicy, notifyPolicy, costPolicy }} onRestore={onRestore} />
+
+      <SyncSettings />
+
+      <StaffSettings staff={staff} currentId={currentId} lockMinutes={lockMinutes} setLockMinutes={setLockMinutes} onSave={onSaveStaff} />
+
+      <AuditLog audit={audit} onUndo={onUndo} />
+
+      {quarantine.length > 0 && (
+        <div className="mt-6">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle size={18} className="text-red-600"/>
+            <h4 className="font-semibold">ข้อมูลที่ถูกแยกเก็บ ({quarantine.length})</h4>
+            <div className="ml-auto flex gap-2">
+              <Button variant="ghost" size="sm" onClick={downloadQuarantine}><Download size={16}/>ดาวน์โหลด JSON</Button>
+              <Button variant="danger" size="sm" onClick={clearQuarantine}><Trash2 size={16}/>ลบทิ้ง</Button>
+            </div>
+          </div>
+          <div className="overflow-auto max-h-64 border rounded-xl">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-50 sticky top-0"><tr>{["ชุดข้อมูล", "สาเหตุ", "ข้อมูล", "เวลา"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+              <tbody>
+                {quarantine.map((q, i) => (
+                  <tr key={i} className="odd:bg-white even:bg-slate-50 align-top">
+                    <td className="px-3 py-2 border-b">{q.collection}</td>
+                    <td className="px-3 py-2 border-b text-red-700">{q.reason}</td>
+                    <td className="px-3 py-2 border-b font-mono text-xs max-w-md truncate">{JSON.stringify(q.record)}</td>
+                    <td className="px-3 py-2 border-b">{formatDate(q.at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       <div className="mt-6 flex items-center justify-between">
         <div className="text-sm text-slate-500">
-          เก็บข้อมูลแบบออฟไลน์ในเบราว์เซอร์ (localStorage) — ไม่หายเมื่อรีเฟรช/ปิดเปิดใหม่
+          เก็บข้อมูลแบบออฟไลน์ในเบราว์เซอร์ (IndexedDB) — ไม่หายเมื่อรีเฟรช/ปิดเปิดใหม่{usage && <> • {usage}</>}
         </div>
         <div className="flex gap-2">
-          <Button variant="danger" onClick={onResetAll}>ล้างข้อมูลทั้งหมด</Button>
+          <Button variant="danger" onClick={resetAll} disabled={!canReset} title={canReset ? undefined : "เฉพาะผู้ดูแลระบบ"}>ล้างข้อมูลทั้งหมด</Button>
         </div>
       </div>
     </Card>
   );
 }
-
-/********** lightweight tests (console) **********/
-try {
-  console.assert(daysBetween("2024-01-01", "2024-01-02") === 1, "daysBetween should be 1 day");
-  const ts = todayStr(); console.assert(ts.length === 10 && ts[4] === "-" && ts[7] === "-", "todayStr format yyyy-mm-dd");
-  const activeIdsTest = [{ asset_id: "A" }, { asset_id: "B" }, { asset_id: "A" }];
-  console.assert(new Set(activeIdsTest.map(b => b.asset_id)).size === 2, "unique borrowed asset count");
-  console.assert(addDays("2024-01-01", 1) === "2024-01-02", "addDays +1");
-  console.assert(formatDate("invalid-date") === "", "formatDate invalid returns empty");
-  console.assert(daysBetween("2024-01-10", "2024-01-01") === -9 || daysBetween("2024-01-10", "2024-01-01") <= 0, "daysBetween handles reverse order");
-  console.log("UI sanity tests passed");
-} catch (e) { console.warn("Sanity test failed", e); }
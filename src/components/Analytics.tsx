@@ -0,0 +1,216 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Activity, BarChart3, Clock, Download, FileSpreadsheet, Moon, Users } from "lucide-react";
+import type { Asset, BorrowRecord, StatusChange } from "../types";
+import { durationHistogram, durationStats, idleAssets, lastMonths, loansByDeptMonth, peakDemand, utilization } from "../domain/analytics";
+import { Badge, Button, Card } from "./ui";
+import { downloadBlob, formatDate, loadXLSX } from "../utils";
+
+/********** analytics (charts are plain SVG so they can be saved as PNG) **********/
+
+type Cell = string | number;
+
+const W = 720;
+const FONT = "ui-sans-serif,system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial";
+const pct = (v: number | null) => (v === null ? "" : `${Math.round(v * 100)}%`);
+const short = (s: string, n = 28) => (s.length > n ? s.slice(0, n - 1) + "…" : s);
+const monthLabel = (key: string) => { const [y, m] = key.split("-").map(Number); return new Date(y, m - 1, 1).toLocaleDateString(undefined, { month: "short", year: "2-digit" }); };
+
+/** Renders the SVG onto a white canvas at 2× and downloads it. */
+function saveSvgAsPng(svg: SVGSVGElement, filename: string) {
+  const box = svg.viewBox.baseVal;
+  const xml = new XMLSerializer().serializeToString(svg);
+  const url = URL.createObjectURL(new Blob([xml], { type: "image/svg+xml;charset=utf-8" }));
+  const img = new Image();
+  img.onload = () => {
+    const canvas = document.createElement("canvas");
+    canvas.width = box.width * 2; canvas.height = box.height * 2;
+    const ctx = canvas.getContext("2d")!;
+    ctx.fillStyle = "#fff"; ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    canvas.toBlob((b) => b && downloadBlob(b, filename), "image/png");
+  };
+  img.onerror = () => { URL.revokeObjectURL(url); alert("บันทึกภาพไม่สำเร็จ"); };
+  img.src = url;
+}
+
+/** The chart's numbers as .xlsx, or .csv if SheetJS can't be loaded. */
+async function saveRows(title: string, orgName: string, rows: Cell[][], file: string) {
+  const aoa: Cell[][] = [[orgName], [title, new Date().toLocaleString()], [""], ...rows];
+  try {
+    const XLSX = await loadXLSX();
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(aoa), "Data");
+    XLSX.writeFile(wb, `${file}.xlsx`);
+  } catch {
+    const csv = aoa.map((r) => r.map((c) => `"${String(c).replace(/"/g, '""')}"`).join(",")).join("\r\n");
+    downloadBlob(new Blob(["﻿" + csv], { type: "text/csv;charset=utf-8" }), `${file}.csv`);
+  }
+}
+
+function ChartCard({ title, icon, note, file, orgName, rows, children }: {
+  title: string; icon: React.ReactNode; note?: React.ReactNode; file: string; orgName: string; rows: () => Cell[][]; children: React.ReactNode;
+}) {
+  const box = useRef<HTMLDivElement>(null);
+  const svg = () => box.current?.querySelector("svg");
+  return (
+    <Card className="md:col-span-2">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        {icon}<h4 className="font-semibold flex-1">{title}</h4>
+        <Button variant="ghost" size="sm" onClick={() => saveRows(title, orgName, rows(), file)}><FileSpreadsheet size={16}/>Excel</Button>
+        <Button variant="ghost" size="sm" onClick={() => { const s = svg(); if (s) saveSvgAsPng(s, `${file}.png`); }}><Download size={16}/>PNG</Button>
+      </div>
+      {note && <div className="text-xs text-slate-500 mb-2">{note}</div>}
+      <div ref={box} className="overflow-auto">{children}</div>
+    </Card>
+  );
+}
+
+const Empty = () => <div className="px-3 py-6 text-center text-sm text-slate-500">ไม่มีข้อมูลในช่วงนี้</div>;
+
+/** Horizontal bars; `ghost` draws a lighter bar behind (e.g. fleet size behind peak demand). */
+function HBars({ rows, max, format }: { rows: { label: string; value: number; ghost?: number }[]; max: number; format: (v: number, ghost?: number) => string }) {
+  if (!rows.length) return <Empty />;
+  const L = 220, B = W - L - 90, H = 22, h = rows.length * H + 8;
+  const x = (v: number) => (max > 0 ? (v / max) * B : 0);
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${W} ${h}`} width="100%" style={{ minWidth: 480 }} fontFamily={FONT} fontSize={12}>
+      <rect width={W} height={h} fill="#fff" />
+      {rows.map((r, i) => (
+        <g key={i} transform={`translate(0 ${i * H + 4})`}>
+          <text x={L - 8} y={H / 2 + 4} textAnchor="end" fill="#334155">{short(r.label)}</text>
+          {r.ghost !== undefined && <rect x={L} y={3} width={x(r.ghost)} height={H - 6} fill="#e2e8f0" rx={3} />}
+          <rect x={L} y={r.ghost !== undefined ? 7 : 3} width={Math.max(x(r.value), r.value > 0 ? 2 : 0)} height={r.ghost !== undefined ? H - 14 : H - 6} fill="#2563eb" rx={3} />
+          <text x={L + Math.max(x(r.value), x(r.ghost ?? 0)) + 6} y={H / 2 + 4} fill="#0f172a">{format(r.value, r.ghost)}</text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+/** Vertical bars with labels underneath. */
+function Columns({ bars }: { bars: { label: string; value: number }[] }) {
+  const max = Math.max(...bars.map((b) => b.value), 0);
+  if (!max) return <Empty />;
+  const h = 200, top = 20, bottom = 28, cw = W / bars.length;
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${W} ${h}`} width="100%" style={{ minWidth: 480 }} fontFamily={FONT} fontSize={12}>
+      <rect width={W} height={h} fill="#fff" />
+      {bars.map((b, i) => {
+        const bh = (b.value / max) * (h - top - bottom);
+        return (
+          <g key={i}>
+            <rect x={i * cw + cw * 0.2} y={h - bottom - bh} width={cw * 0.6} height={bh} fill="#2563eb" rx={3} />
+            <text x={i * cw + cw / 2} y={h - bottom - bh - 5} textAnchor="middle" fill="#0f172a">{b.value}</text>
+            <text x={i * cw + cw / 2} y={h - 9} textAnchor="middle" fill="#334155">{b.label}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/** Rows × months grid shaded by value; blank cells are periods with no data. */
+function Heat({ rows, cols, format, total }: { rows: { label: string; values: (number | null)[]; total: string }[]; cols: string[]; format: (v: number) => string; total: string }) {
+  if (!rows.length) return <Empty />;
+  const L = 200, T = 60, cw = Math.max(Math.min((W - L - T) / cols.length, 56), 30), H = 22;
+  const w = L + cols.length * cw + T, h = (rows.length + 1) * H + 4;
+  const max = Math.max(...rows.flatMap((r) => r.values.map((v) => v ?? 0)), 0);
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${w} ${h}`} width={w > W ? w : "100%"} fontFamily={FONT} fontSize={11}>
+      <rect width={w} height={h} fill="#fff" />
+      {cols.map((c, j) => <text key={c} x={L + j * cw + cw / 2} y={H - 7} textAnchor="middle" fill="#64748b">{c}</text>)}
+      <text x={L + cols.length * cw + T / 2} y={H - 7} textAnchor="middle" fill="#64748b">{total}</text>
+      {rows.map((r, i) => (
+        <g key={i} transform={`translate(0 ${(i + 1) * H})`}>
+          <text x={L - 8} y={H / 2 + 4} textAnchor="end" fill="#334155" fontSize={12}>{short(r.label, 26)}</text>
+          {r.values.map((v, j) => (
+            <g key={j}>
+              <rect x={L + j * cw + 1} y={1} width={cw - 2} height={H - 2} rx={2} fill={v === null ? "#f8fafc" : `rgba(37,99,235,${max ? 0.08 + 0.82 * (v / max) : 0.08})`} />
+              {v !== null && v > 0 && <text x={L + j * cw + cw / 2} y={H / 2 + 4} textAnchor="middle" fill={max && v / max > 0.55 ? "#fff" : "#0f172a"}>{format(v)}</text>}
+            </g>
+          ))}
+          <text x={L + cols.length * cw + T / 2} y={H / 2 + 4} textAnchor="middle" fill="#0f172a" fontWeight={600}>{r.total}</text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+const PERIODS = [6, 12, 24];
+const TOP = 20;
+
+export function Analytics({ assets, borrows, statusLog, orgName }: { assets: Asset[]; borrows: BorrowRecord[]; statusLog: StatusChange[]; orgName: string }) {
+  const [period, setPeriod] = useState(12);
+  const [idleDays, setIdleDays] = useState(60);
+
+  const months = useMemo(() => lastMonths(period), [period]);
+  const since = months[0].start;
+  const inWindow = useMemo(() => borrows.filter((b) => new Date(b.start_date).getTime() >= since), [borrows, since]);
+  const util = useMemo(() => utilization(assets, borrows, statusLog, months), [assets, borrows, statusLog, months]);
+  const stats = useMemo(() => durationStats(inWindow), [inWindow]);
+  const histogram = useMemo(() => durationHistogram(inWindow), [inWindow]);
+  const byDept = useMemo(() => loansByDeptMonth(borrows, months), [borrows, months]);
+  const peaks = useMemo(() => peakDemand(assets, borrows, since), [assets, borrows, since]);
+  const idle = useMemo(() => idleAssets(assets, borrows, idleDays), [assets, borrows, idleDays]);
+
+  const cols = months.map((m) => monthLabel(m.key));
+  const keys = months.map((m) => m.key);
+  const file = (name: string) => `medical_pool_${name}_${keys[keys.length - 1]}`;
+  const range = `${cols[0]} – ${cols[cols.length - 1]}`;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <Card className="md:col-span-4 flex flex-wrap items-center gap-3 text-sm">
+        <BarChart3 size={18} className="text-blue-600"/><span className="font-semibold">วิเคราะห์การใช้งาน</span>
+        <span className="text-slate-500">ช่วง</span>
+        {PERIODS.map((p) => <Button key={p} size="sm" variant={p === period ? "default" : "ghost"} onClick={() => setPeriod(p)}>{p} เดือน</Button>)}
+        <span className="text-slate-500 ml-auto">{range}</span>
+      </Card>
+
+      <Card className="text-center"><div className="text-2xl font-bold">{inWindow.length}</div><div className="text-sm text-slate-500">การยืมในช่วงนี้</div></Card>
+      <Card className="text-center"><div className="text-2xl font-bold">{stats.mean.toFixed(1)}</div><div className="text-sm text-slate-500">วันยืมเฉลี่ย</div></Card>
+      <Card className="text-center"><div className="text-2xl font-bold">{stats.p50}</div><div className="text-sm text-slate-500">มัธยฐาน (P50) วัน</div></Card>
+      <Card className="text-center"><div className="text-2xl font-bold">{stats.p90}</div><div className="text-sm text-slate-500">P90 วัน (สูงสุด {stats.max})</div></Card>
+
+      <ChartCard title="อัตราการใช้งานรายรุ่น" icon={<Activity size={18} className="text-blue-600"/>} file={file("utilization_models")} orgName={orgName}
+        note="เวลาที่ถูกยืมออก ÷ เวลาที่เครื่องของรุ่นนั้นอยู่ในคลัง (ตั้งแต่วันซื้อถึงวันปลดระวาง)"
+        rows={() => [["รุ่น", ...keys, "รวมช่วง"], ...util.models.map((r) => [r.label, ...r.months.map(pct), pct(r.overall)])]}>
+        <Heat rows={util.models.map((r) => ({ label: r.label, values: r.months, total: pct(r.overall) }))} cols={cols} format={(v) => pct(v)} total="รวม" />
+      </ChartCard>
+
+      <ChartCard title={`อัตราการใช้งานรายเครื่อง (${Math.min(TOP, util.assets.length)} อันดับแรก)`} icon={<Activity size={18} className="text-blue-600"/>} file={file("utilization_assets")} orgName={orgName}
+        note="ไฟล์ Excel มีครบทุกเครื่องแยกรายเดือน"
+        rows={() => [["Asset", ...keys, "รวมช่วง"], ...util.assets.map((r) => [r.label, ...r.months.map(pct), pct(r.overall)])]}>
+        <HBars rows={util.assets.slice(0, TOP).map((r) => ({ label: r.label, value: r.overall ?? 0 }))} max={1} format={(v) => pct(v)} />
+      </ChartCard>
+
+      <ChartCard title="ระยะเวลาการยืม" icon={<Clock size={18} className="text-blue-600"/>} file={file("loan_duration")} orgName={orgName}
+        note={`นับเฉพาะรายการที่คืนแล้ว ${stats.count} รายการ — เฉลี่ย ${stats.mean.toFixed(1)} วัน, P50 ${stats.p50}, P90 ${stats.p90}, สูงสุด ${stats.max}`}
+        rows={() => [["ช่วงวัน", "จำนวนรายการ"], ...histogram.map((b) => [b.label, b.count]), [""], ["เฉลี่ย", +stats.mean.toFixed(2)], ["P50", stats.p50], ["P90", stats.p90], ["สูงสุด", stats.max]]}>
+        <Columns bars={histogram.map((b) => ({ label: b.label, value: b.count }))} />
+      </ChartCard>
+
+      <ChartCard title="ความต้องการพร้อมกันสูงสุดรายรุ่น" icon={<BarChart3 size={18} className="text-blue-600"/>} file={file("peak_demand")} orgName={orgName}
+        note={<>แถบเข้ม = ยืมออกพร้อมกันมากที่สุด, แถบจาง = จำนวนเครื่องที่มี — <Badge tone="red">เต็มจำนวน</Badge> แปลว่าช่วงนั้นไม่มีเครื่องเหลือให้ยืม</>}
+        rows={() => [["รุ่น", "ยืมพร้อมกันสูงสุด", "วันที่", "จำนวนเครื่อง"], ...peaks.map((p) => [p.model, p.peak, formatDate(p.at), p.fleet])]}>
+        <HBars rows={peaks.map((p) => ({ label: p.model, value: p.peak, ghost: p.fleet }))} max={Math.max(...peaks.map((p) => Math.max(p.peak, p.fleet)), 1)}
+          format={(v, fleet) => `${v}/${fleet}${fleet !== undefined && v >= fleet ? " เต็ม" : ""}`} />
+      </ChartCard>
+
+      <ChartCard title="จำนวนการยืมรายหน่วยงานต่อเดือน" icon={<Users size={18} className="text-blue-600"/>} file={file("loans_by_department")} orgName={orgName}
+        rows={() => [["หน่วยงาน", ...keys, "รวม"], ...byDept.map((d) => [d.dept, ...d.counts, d.total])]}>
+        <Heat rows={byDept.map((d) => ({ label: d.dept, values: d.counts, total: String(d.total) }))} cols={cols} format={String} total="รวม" />
+      </ChartCard>
+
+      <ChartCard title={`เครื่องที่ไม่ถูกยืมเกิน ${idleDays} วัน (${idle.length})`} icon={<Moon size={18} className="text-blue-600"/>} file={file(`idle_${idleDays}d`)} orgName={orgName}
+        note={<span className="inline-flex items-center gap-2">ไม่มีการยืมมาแล้วอย่างน้อย
+          <input type="number" min={1} className="w-20 px-2 py-1 border rounded-lg" value={idleDays} onChange={(e) => setIdleDays(Math.max(1, Number(e.target.value) || 1))} /> วัน
+          (นับจากวันคืนล่าสุด หรือวันซื้อถ้ายังไม่เคยถูกยืม)</span>}
+        rows={() => [["Asset ID", "ชื่อ", "รุ่น", "สถานะ", "ยืมล่าสุด", "ว่างมา (วัน)"], ...idle.map((x) => [x.asset.asset_id, x.asset.name, [x.asset.brand, x.asset.model].filter(Boolean).join(" "), x.asset.status, x.last ? formatDate(x.last) : "ไม่เคย", x.idleDays ?? ""])]}>
+        <HBars rows={idle.slice(0, TOP).map((x) => ({ label: `${x.asset.asset_id} ${x.asset.name}`, value: x.idleDays ?? 0 }))} max={Math.max(...idle.map((x) => x.idleDays ?? 0), 1)}
+          format={(v) => (v ? `${v} วัน` : "ไม่ทราบวันซื้อ")} />
+      </ChartCard>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ArrowLeft, History, CheckCircle2, Clock, Stethoscope, Wrench } from "lucide-react";
+import type { Asset, AssetStatus, BorrowRecord, ServicePlan, ServiceRecord, StatusChange } from "../types";
+import { assetUsage, loanDays } from "../domain/usage";
+import { ASSET_STATUSES, STATUS_LABELS, STATUS_TONE, statusChangeError, statusHistory } from "../domain/assetStatus";
+import { CONDITION_LABELS, CONDITION_TONE } from "../domain/inspection";
+import { Badge, Button, Card, Text } from "./ui";
+import { AssetService } from "./AssetService";
+import { formatDate, todayStr, uid } from "../utils";
+
+export const StatusBadge = ({ status }: { status: AssetStatus }) => <Badge tone={STATUS_TONE[status]}>{STATUS_LABELS[status]}</Badge>;
+
+/** Moves the asset to another lifecycle status and records why. */
+function StatusForm({ asset, borrows, onChangeStatus, staffName }: {
+  asset: Asset; borrows: BorrowRecord[]; onChangeStatus: (c: StatusChange) => Promise<boolean>; staffName?: string;
+}) {
+  const [form, setForm] = useState({ to: "" as AssetStatus | "", date: todayStr(), reason: "", changed_by: staffName ?? "" });
+  // the signed-in staff member is who made the change
+  useEffect(() => { if (staffName) setForm(f => ({ ...f, changed_by: staffName })); }, [staffName]);
+  const [err, setErr] = useState("");
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault(); setErr("");
+    if (!form.to) return setErr("เลือกสถานะใหม่");
+    if (!form.reason.trim() || !form.changed_by.trim()) return setErr("กรอกเหตุผลและผู้บันทึก");
+    const blocked = statusChangeError(asset, form.to, borrows);
+    if (blocked) return setErr(blocked);
+    const ok = await onChangeStatus({
+      id: uid(), asset_id: asset.asset_id, from: asset.status, to: form.to, date: form.date,
+      reason: form.reason.trim(), changed_by: form.changed_by.trim(), created_at: new Date().toISOString(),
+    });
+    if (ok) setForm({ ...form, to: "", reason: "" });
+  };
+  return (
+    <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+      {err && <div className="md:col-span-2"><Badge tone="red">{err}</Badge></div>}
+      <label className="block">
+        <span className="block text-sm font-medium mb-1">สถานะใหม่</span>
+        <select className="w-full px-3 py-2 border rounded-xl" value={form.to} onChange={(e) => setForm({ ...form, to: e.target.value as AssetStatus })}>
+          <option value="">-- เลือก --</option>
+          {ASSET_STATUSES.filter(s => s !== asset.status).map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+        </select>
+      </label>
+      <Text label="วันที่" type="date" value={form.date} onChange={(v) => setForm({ ...form, date: v })} required />
+      <Text label="เหตุผล" value={form.reason} onChange={(v) => setForm({ ...form, reason: v })} required />
+      <Text label="ผู้บันทึก" value={form.changed_by} onChange={(v) => setForm({ ...form, changed_by: v })} required readOnly={!!staffName} />
+      <div className="md:col-span-2"><Button size="sm" type="submit"><CheckCircle2 size={16}/>เปลี่ยนสถานะ</Button></div>
+    </form>
+  );
+}
+
+/********** asset detail: registration, usage and loan timeline **********/
+export function AssetDetail({ assetId, assets, borrows, statusLog, onChangeStatus, servicePlans, serviceLog, vendors, onSavePlan, onDeletePlan, onAddService, onBack, staffName }: {
+  assetId: string; assets: Asset[]; borrows: BorrowRecord[]; statusLog: StatusChange[];
+  onChangeStatus: (c: StatusChange) => Promise<boolean>;
+  servicePlans: ServicePlan[]; serviceLog: ServiceRecord[]; vendors: string[];
+  onSavePlan: (p: ServicePlan) => Promise<boolean>; onDeletePlan: (id: string) => Promise<boolean>;
+  onAddService: (s: ServiceRecord) => Promise<boolean>;
+  onBack: () => void; staffName?: string;
+}) {
+  const asset = assets.find(a => a.asset_id === assetId);
+  const usage = useMemo(() => assetUsage(assetId, asset, borrows), [assetId, asset, borrows]);
+  const changes = useMemo(() => statusHistory(assetId, statusLog), [assetId, statusLog]);
+  const name = asset?.name ?? usage.loans[0]?.asset_name ?? "";
+
+  const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
+    <div><div className="text-xs text-slate-500">{label}</div><div className="font-medium">{children || "-"}</div></div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" onClick={onBack}><ArrowLeft size={16}/>กลับ</Button>
+        <h3 className="font-semibold text-xl">{assetId} • {name}</h3>
+        {asset && <StatusBadge status={asset.status} />}
+        {usage.active ? <Badge tone="red">กำลังถูกยืม</Badge> : asset?.status === "in_service" && <Badge tone="green">ว่าง</Badge>}
+        {!asset && <Badge>ไม่อยู่ในทะเบียนแล้ว</Badge>}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <Card className="lg:col-span-2">
+          <h4 className="font-semibold mb-3">ข้อมูลทะเบียน</h4>
+          {asset ? (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+              <Field label="Asset ID">{asset.asset_id}</Field>
+              <Field label="ID CODE">{asset.id_code}</Field>
+              <Field label="ชื่อเครื่องมือ">{asset.name}</Field>
+              <Field label="ยี่ห้อ / รุ่น">{[asset.brand, asset.model].filter(Boolean).join(" ")}</Field>
+              <Field label="Serial">{asset.serial}</Field>
+              <Field label="บริษัทผู้ขาย">{asset.vendor}</Field>
+              <Field label="วันที่ซื้อ">{formatDate(asset.purchase_date)}</Field>
+              <Field label="ราคา">{asset.price != null ? asset.price.toLocaleString() : ""}</Field>
+            </div>
+          ) : <div className="text-sm text-slate-500">เครื่องนี้ถูกลบออกจากทะเบียนแล้ว — แสดงเฉพาะประวัติการยืม</div>}
+        </Card>
+
+        <Card>
+          <h4 className="font-semibold mb-3">สรุปการใช้งาน</h4>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <Field label="จำนวนครั้งที่ยืม">{usage.loans.length}</Field>
+            <Field label="วันที่ถูกยืมรวม">{usage.totalDays} วัน</Field>
+            <Field label="อัตราการใช้งาน">{usage.utilization != null ? `${(usage.utilization * 100).toFixed(1)}%` : ""}</Field>
+            <Field label="ช่วงที่คำนวณ">{usage.windowDays ? `${usage.windowDays} วัน` : ""}</Field>
+          </div>
+          <div className="mt-4 text-xs text-slate-500 mb-1">แผนกที่ใช้งาน</div>
+          {usage.depts.length ? (
+            <ul className="text-sm space-y-1">
+              {usage.depts.map(d => <li key={d.dept} className="flex justify-between"><span>{d.dept}</span><span className="text-slate-600">{d.loans} ครั้ง • {d.days} วัน</span></li>)}
+            </ul>
+          ) : <div className="text-sm text-slate-500">ยังไม่เคยถูกยืม</div>}
+        </Card>
+      </div>
+
+      <Card>
+        <div className="flex items-center gap-2 mb-3"><Wrench size={18} className="text-blue-600"/><h4 className="font-semibold">สถานะเครื่อง</h4></div>
+        {asset && <StatusForm key={asset.status} asset={asset} borrows={borrows} onChangeStatus={onChangeStatus} staffName={staffName} />}
+        <div className="overflow-auto mt-4 border rounded-xl">
+          <table className="min-w-full text-sm">
+            <thead className="bg-slate-50"><tr>{["วันที่", "จาก", "เป็น", "เหตุผล", "ผู้บันทึก"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+            <tbody>
+              {changes.map(s => (
+                <tr key={s.id} className="odd:bg-white even:bg-slate-50">
+                  <td className="px-3 py-2 border-b">{formatDate(s.date)}</td>
+                  <td className="px-3 py-2 border-b"><StatusBadge status={s.from} /></td>
+                  <td className="px-3 py-2 border-b"><StatusBadge status={s.to} /></td>
+                  <td className="px-3 py-2 border-b">{s.reason || "-"}</td>
+                  <td className="px-3 py-2 border-b">{s.changed_by || "-"}</td>
+                </tr>
+              ))}
+              {changes.length === 0 && <tr><td colSpan={5} className="px-3 py-4 text-center text-slate-500">ยังไม่เคยเปลี่ยนสถานะ</td></tr>}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {asset && (
+        <Card>
+          <div className="flex items-center gap-2 mb-3"><Stethoscope size={18} className="text-blue-600"/><h4 className="font-semibold">PM / สอบเทียบ</h4></div>
+          <AssetService asset={asset} plans={servicePlans} log={serviceLog} vendors={vendors} onSavePlan={onSavePlan} onDeletePlan={onDeletePlan} onAddService={onAddService} />
+        </Card>
+      )}
+
+      <Card>
+        <div className="flex items-center gap-2 mb-3"><History size={18} className="text-blue-600"/><h4 className="font-semibold">ประวัติการยืม-คืน</h4></div>
+        {usage.loans.length === 0 && <div className="text-sm text-slate-500">ไม่มีประวัติ</div>}
+        <ol className="relative border-l ml-2 space-y-4">
+          {usage.loans.map(b => (
+            <li key={b.id} className="ml-4">
+              <span className={"absolute -left-2 mt-1 w-4 h-4 rounded-full border-2 border-white " + (b.returned_at ? "bg-emerald-500" : "bg-red-500")} />
+              <div className="flex flex-wrap items-start gap-4">
+                <div className="text-sm flex-1 min-w-[240px]">
+                  <div className="font-medium flex items-center gap-2">
+                    {formatDate(b.start_date)} → {b.returned_at ? formatDate(b.returned_at) : "ยังไม่คืน"}
+                    {b.returned_at
+                      ? <span className="text-emerald-700 inline-flex items-center gap-1 text-xs"><CheckCircle2 size={14}/>คืนแล้ว</span>
+                      : <span className="text-red-700 inline-flex items-center gap-1 text-xs"><Clock size={14}/>ค้างยืม</span>}
+                    <span className="text-slate-500 text-xs">{loanDays(b)} วัน</span>
+                  </div>
+                  <div className="text-slate-600">ผู้ยืม {b.borrower_name} ({b.borrower_dept || "-"}) • ผู้ให้ยืม {b.lender_name || "-"}</div>
+                  {b.end_date && <div className="text-slate-500">กำหนดคืน {formatDate(b.end_date)}</div>}
+                  {b.peripherals && <div className="text-slate-500">อุปกรณ์ต่อพ่วง: {b.peripherals}</div>}
+                  {b.inspection && (
+                    <div className="mt-1 text-slate-600 flex flex-wrap items-center gap-2">
+                      รับคืนโดย {b.inspection.received_by || "-"} <Badge tone={CONDITION_TONE[b.inspection.condition]}>{CONDITION_LABELS[b.inspection.condition]}</Badge>
+                      {b.inspection.missing.length > 0 && <Badge tone="red">ขาด: {b.inspection.missing.join(", ")}</Badge>}
+                      {b.inspection.moved_to && <span>→ <StatusBadge status={b.inspection.moved_to} /></span>}
+                      {b.inspection.notes && <span className="text-slate-500">{b.inspection.notes}</span>}
+                    </div>
+                  )}
+                </div>
+                {b.borrower_sign && <img src={b.borrower_sign} alt="sign" className="h-12 border rounded bg-white" />}
+                {b.receiver_sign && <img src={b.receiver_sign} alt="receiver sign" title="ผู้รับคืน" className="h-12 border rounded bg-white" />}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </Card>
+    </div>
+  );
+}
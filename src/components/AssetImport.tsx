@@ -0,0 +1,118 @@
+import React, { useMemo, useRef, useState } from "react";
+import { FileSpreadsheet, Upload, CheckCircle2, Download } from "lucide-react";
+import type { Asset, Model } from "../types";
+import { FIELD_LABELS, IMPORT_FIELDS, guessColumns, planImport, readSheet, templateCSV, type ColumnMap } from "../domain/assetImport";
+import { Badge, Button } from "./ui";
+import { downloadBlob } from "../utils";
+
+/********** assets: bulk import from CSV **********/
+export function AssetImport({ assets, brands, models, vendors, onImport, onClose }: {
+  assets: Asset[]; brands: string[]; models: Model[]; vendors: string[];
+  onImport: (list: Asset[], added: { brands: string[]; models: Model[]; vendors: string[] }) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<unknown[][]>([]);
+  const [map, setMap] = useState<ColumnMap | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState("");
+  const [onlyErrors, setOnlyErrors] = useState(false);
+
+  const pickFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0]; e.target.value = "";
+    if (!f) return;
+    setErr(""); setLoading(true);
+    try {
+      const r = await readSheet(f);
+      if (r.length < 2) throw new Error("ไม่พบข้อมูลในไฟล์ (ต้องมีแถวหัวตารางและอย่างน้อย 1 แถว)");
+      setRows(r); setMap(guessColumns(r[0])); setFileName(f.name);
+    } catch (ex: any) {
+      setErr(ex?.message || String(ex)); setRows([]); setMap(null);
+    } finally { setLoading(false); }
+  };
+
+  const plan = useMemo(() => map ? planImport(rows, map, { assets, brands, models, vendors }) : null, [rows, map, assets, brands, models, vendors]);
+  const header = rows[0] ?? [];
+  const bad = plan ? plan.rows.filter(r => r.errors.length).length : 0;
+  const shown = plan ? (onlyErrors ? plan.rows.filter(r => r.errors.length) : plan.rows) : [];
+
+  const commit = async () => {
+    if (!plan || !plan.valid.length) return;
+    if (bad && !confirm(`มี ${bad} แถวที่ไม่ผ่านการตรวจสอบ จะนำเข้าเฉพาะ ${plan.valid.length} แถวที่ถูกต้อง ดำเนินการต่อ?`)) return;
+    if (!await onImport(plan.valid, { brands: plan.newBrands, models: plan.newModels, vendors: plan.newVendors })) return;
+    alert(`นำเข้าเครื่องมือ ${plan.valid.length} รายการเรียบร้อย`);
+    onClose();
+  };
+
+  return (
+    <div className="border rounded-xl p-3 bg-slate-50 mb-4">
+      <div className="flex items-center gap-2 mb-2">
+        <FileSpreadsheet size={18} className="text-emerald-600"/>
+        <h4 className="font-semibold">นำเข้าจาก CSV</h4>
+        <div className="ml-auto flex gap-2">
+          <Button variant="ghost" size="sm" onClick={() => downloadBlob(new Blob([templateCSV()], { type: "text/csv" }), "medical_pool_assets_template.csv")}><Download size={16}/>แม่แบบ CSV</Button>
+          <Button variant="ghost" size="sm" onClick={() => fileRef.current?.click()} disabled={loading}><Upload size={16}/>{loading ? "กำลังอ่านไฟล์..." : "เลือกไฟล์"}</Button>
+          <input ref={fileRef} type="file" accept=".csv,.txt" className="hidden" onChange={pickFile} />
+          <Button variant="ghost" size="sm" onClick={onClose}>ปิด</Button>
+        </div>
+      </div>
+      {err && <div className="mb-2"><Badge tone="red">{err}</Badge></div>}
+      {!plan && !err && <div className="text-sm text-slate-500">รองรับ .csv (จาก Excel ใช้ Save As → CSV UTF-8) — แถวแรกต้องเป็นหัวตาราง</div>}
+
+      {plan && map && (
+        <>
+          <div className="text-sm mb-2">ไฟล์ <b>{fileName}</b> • {rows.length - 1} แถว — จับคู่คอลัมน์:</div>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-3">
+            {IMPORT_FIELDS.map(f => (
+              <label key={f} className="block text-xs">
+                <span className="block text-slate-600 mb-1">{FIELD_LABELS[f]}</span>
+                <select className="w-full px-2 py-1 border rounded bg-white" value={map[f]} onChange={(e) => setMap({ ...map, [f]: Number(e.target.value) })}>
+                  <option value={-1}>-- ไม่ใช้ --</option>
+                  {header.map((h, i) => <option key={i} value={i}>{String(h || `คอลัมน์ ${i + 1}`)}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+            <Badge tone="green">ผ่าน {plan.valid.length}</Badge>
+            {bad > 0 && <Badge tone="red">ไม่ผ่าน {bad}</Badge>}
+            {plan.newBrands.length > 0 && <Badge tone="blue">ยี่ห้อใหม่ {plan.newBrands.length}</Badge>}
+            {plan.newModels.length > 0 && <Badge tone="blue">รุ่นใหม่ {plan.newModels.length}</Badge>}
+            {plan.newVendors.length > 0 && <Badge tone="blue">บริษัทใหม่ {plan.newVendors.length}</Badge>}
+            <label className="ml-auto inline-flex items-center gap-1"><input type="checkbox" checked={onlyErrors} onChange={(e) => setOnlyErrors(e.target.checked)} />แสดงเฉพาะแถวที่มีปัญหา</label>
+          </div>
+
+          <div className="overflow-auto max-h-80 border rounded-xl bg-white">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-50 sticky top-0"><tr>{["แถว", "Asset ID", "ID CODE", "ชื่อ", "ยี่ห้อ/รุ่น", "Serial", "วันที่ซื้อ", "ราคา", "ผลตรวจ"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+              <tbody>
+                {shown.map(r => (
+                  <tr key={r.line} className={"align-top " + (r.errors.length ? "bg-red-50" : "odd:bg-white even:bg-slate-50")}>
+                    <td className="px-3 py-2 border-b">{r.line}</td>
+                    <td className="px-3 py-2 border-b">{r.asset.asset_id}</td>
+                    <td className="px-3 py-2 border-b">{r.asset.id_code}</td>
+                    <td className="px-3 py-2 border-b">{r.asset.name}</td>
+                    <td className="px-3 py-2 border-b">{r.asset.brand} {r.asset.model}</td>
+                    <td className="px-3 py-2 border-b">{r.asset.serial}</td>
+                    <td className="px-3 py-2 border-b">{r.asset.purchase_date}</td>
+                    <td className="px-3 py-2 border-b">{r.asset.price != null ? r.asset.price.toLocaleString() : "-"}</td>
+                    <td className="px-3 py-2 border-b">
+                      {r.errors.length ? <div className="text-red-700 space-y-0.5">{r.errors.map((e, i) => <div key={i}>{e}</div>)}</div> : <span className="text-emerald-700 inline-flex items-center gap-1"><CheckCircle2 size={14}/>พร้อม</span>}
+                    </td>
+                  </tr>
+                ))}
+                {shown.length === 0 && <tr><td colSpan={9} className="px-3 py-6 text-center text-slate-500">ไม่มีแถวที่มีปัญหา</td></tr>}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-3 flex gap-2">
+            <Button variant="success" onClick={commit} disabled={!plan.valid.length}><CheckCircle2 size={18}/>นำเข้า {plan.valid.length} รายการ</Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { CheckCircle2, Stethoscope, Trash2 } from "lucide-react";
+import type { Asset, Model, ServiceKind, ServicePlan, ServiceRecord } from "../types";
+import { KIND_LABELS, RESULT_LABELS, SERVICE_KINDS, planFor, serviceDue, serviceHistory, type ServiceDue } from "../domain/maintenance";
+import { Badge, Button, CInput, Text } from "./ui";
+import { formatDate, todayStr, uid } from "../utils";
+
+export function DueBadge({ d }: { d: ServiceDue }) {
+  if (!d.due) return <Badge tone="red">{KIND_LABELS[d.kind]} ไม่มีวันอ้างอิง</Badge>;
+  if (d.state === "overdue") return <Badge tone="red">{KIND_LABELS[d.kind]} เลยกำหนด {-d.days} วัน</Badge>;
+  if (d.state === "due_soon") return <Badge tone="blue">{KIND_LABELS[d.kind]} อีก {d.days} วัน</Badge>;
+  return <Badge tone="green">{KIND_LABELS[d.kind]} {formatDate(d.due)}</Badge>;
+}
+
+/********** asset detail: PM / calibration schedule and service log **********/
+export function AssetService({ asset, plans, log, vendors, onSavePlan, onDeletePlan, onAddService }: {
+  asset: Asset; plans: ServicePlan[]; log: ServiceRecord[]; vendors: string[];
+  onSavePlan: (p: ServicePlan) => Promise<boolean>; onDeletePlan: (id: string) => Promise<boolean>;
+  onAddService: (s: ServiceRecord) => Promise<boolean>;
+}) {
+  const due = useMemo(() => serviceDue(asset, plans, log), [asset, plans, log]);
+  const history = useMemo(() => serviceHistory(asset.asset_id, log), [asset.asset_id, log]);
+  const [form, setForm] = useState({ kind: "pm" as ServiceKind, date: todayStr(), vendor: "", result: "pass" as ServiceRecord["result"], certificate: "" });
+  const [err, setErr] = useState("");
+
+  const own = (kind: ServiceKind) => plans.find(p => p.kind === kind && p.asset_id === asset.asset_id);
+  // intervals being typed; saved only when confirmed so "12" doesn't pass through a 1-month plan
+  const [drafts, setDrafts] = useState<Partial<Record<ServiceKind, string>>>({});
+  useEffect(() => setDrafts({}), [asset.asset_id]);
+  const intervalOf = (kind: ServiceKind) => drafts[kind] ?? String(own(kind)?.interval_months ?? "");
+  const editing = (kind: ServiceKind) => drafts[kind] !== undefined && drafts[kind] !== String(own(kind)?.interval_months ?? "");
+  const saveOwnInterval = async (kind: ServiceKind) => {
+    if (!editing(kind)) return;
+    const v = drafts[kind]!.trim(), months = Number(v), cur = own(kind);
+    if (v && (!Number.isInteger(months) || months <= 0)) return setErr("รอบต้องเป็นจำนวนเดือนเต็ม มากกว่า 0");
+    setErr("");
+    const ok = !v
+      ? !cur || await onDeletePlan(cur.id)
+      : await onSavePlan({ id: cur?.id ?? uid(), kind, brand: "", model: "", asset_id: asset.asset_id, interval_months: months });
+    if (ok) setDrafts(prev => ({ ...prev, [kind]: undefined }));
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault(); setErr("");
+    if (!form.date) return setErr("กรอกวันที่ให้บริการ");
+    const ok = await onAddService({ id: uid(), asset_id: asset.asset_id, ...form, certificate: form.certificate.trim(), created_at: new Date().toISOString() });
+    if (ok) setForm({ ...form, certificate: "" });
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {SERVICE_KINDS.map(kind => {
+          const d = due.find(x => x.kind === kind);
+          const inherited = planFor({ ...asset, asset_id: "" }, kind, plans);
+          return (
+            <div key={kind} className="border rounded-xl p-3">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="font-medium">{KIND_LABELS[kind]}</span>
+                {d ? <DueBadge d={d} /> : <Badge>ไม่มีรอบ</Badge>}
+              </div>
+              <label className="flex items-center gap-2">
+                <span className="text-slate-600">ทุก</span>
+                <CInput type="number" className="w-20" value={intervalOf(kind)} onChange={(v) => setDrafts(prev => ({ ...prev, [kind]: v }))} />
+                <span className="text-slate-600">เดือน</span>
+                {editing(kind) && (
+                  <>
+                    <Button variant="success" size="sm" onClick={() => saveOwnInterval(kind)}><CheckCircle2 size={16}/>บันทึก</Button>
+                    <Button variant="ghost" size="sm" onClick={() => setDrafts(prev => ({ ...prev, [kind]: undefined }))}>ยกเลิก</Button>
+                  </>
+                )}
+                <span className="text-xs text-slate-500">{inherited ? `(ตามรุ่น: ทุก ${inherited.interval_months} เดือน)` : "(ไม่มีรอบตามรุ่น)"}</span>
+              </label>
+              {d && <div className="text-xs text-slate-500 mt-1">ครั้งล่าสุด {d.last ? formatDate(d.last.date) : "-"} • ครบกำหนด {d.due ? formatDate(d.due) : "-"}</div>}
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={submit} className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+        {err && <div className="col-span-full"><Badge tone="red">{err}</Badge></div>}
+        <label className="block">
+          <span className="block text-sm font-medium mb-1">ประเภท</span>
+          <select className="w-full px-3 py-2 border rounded-xl" value={form.kind} onChange={(e) => setForm({ ...form, kind: e.target.value as ServiceKind })}>
+            {SERVICE_KINDS.map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+          </select>
+        </label>
+        <Text label="วันที่" type="date" value={form.date} onChange={(v) => setForm({ ...form, date: v })} required />
+        <label className="block">
+          <span className="block text-sm font-medium mb-1">ผู้ให้บริการ</span>
+          <select className="w-full px-3 py-2 border rounded-xl" value={form.vendor} onChange={(e) => setForm({ ...form, vendor: e.target.value })}>
+            <option value="">-- ภายใน / ไม่ระบุ --</option>
+            {vendors.map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-sm font-medium mb-1">ผล</span>
+          <select className="w-full px-3 py-2 border rounded-xl" value={form.result} onChange={(e) => setForm({ ...form, result: e.target.value as ServiceRecord["result"] })}>
+            {(Object.keys(RESULT_LABELS) as ServiceRecord["result"][]).map(r => <option key={r} value={r}>{RESULT_LABELS[r]}</option>)}
+          </select>
+        </label>
+        <Text label="ใบรับรอง / หมายเหตุ" value={form.certificate} onChange={(v) => setForm({ ...form, certificate: v })} />
+        <div className="col-span-full"><Button size="sm" type="submit"><CheckCircle2 size={16}/>บันทึกงานบริการ</Button></div>
+      </form>
+
+      <div className="overflow-auto border rounded-xl">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50"><tr>{["วันที่", "ประเภท", "ผู้ให้บริการ", "ผล", "ใบรับรอง / หมายเหตุ"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+          <tbody>
+            {history.map(s => (
+              <tr key={s.id} className="odd:bg-white even:bg-slate-50">
+                <td className="px-3 py-2 border-b">{formatDate(s.date)}</td>
+                <td className="px-3 py-2 border-b">{KIND_LABELS[s.kind]}</td>
+                <td className="px-3 py-2 border-b">{s.vendor || "-"}</td>
+                <td className="px-3 py-2 border-b"><Badge tone={s.result === "fail" ? "red" : "green"}>{RESULT_LABELS[s.result]}</Badge></td>
+                <td className="px-3 py-2 border-b">{s.certificate || "-"}</td>
+              </tr>
+            ))}
+            {history.length === 0 && <tr><td colSpan={5} className="px-3 py-4 text-center text-slate-500">ยังไม่มีประวัติ PM / สอบเทียบ</td></tr>}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/********** settings: PM / calibration intervals per model **********/
+export function ModelServicePlans({ models, plans, onSavePlan, onDeletePlan }: {
+  models: Model[]; plans: ServicePlan[];
+  onSavePlan: (p: ServicePlan) => Promise<boolean>; onDeletePlan: (id: string) => Promise<boolean>;
+}) {
+  const modelPlans = plans.filter(p => !p.asset_id);
+  const [form, setForm] = useState({ model: "", kind: "pm" as ServiceKind, months: "12" });
+  const [err, setErr] = useState("");
+
+  const add = async () => {
+    setErr("");
+    const m = form.model ? models[Number(form.model)] : undefined, months = Number(form.months);
+    if (!m) return setErr("เลือกรุ่น");
+    if (!Number.isInteger(months) || months <= 0) return setErr("รอบต้องเป็นจำนวนเดือนเต็ม");
+    const cur = modelPlans.find(p => p.kind === form.kind && p.brand === m.brand && p.model === m.name);
+    await onSavePlan({ id: cur?.id ?? uid(), kind: form.kind, brand: m.brand, model: m.name, asset_id: "", interval_months: months });
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center gap-2 mb-2"><Stethoscope size={18} className="text-blue-600"/><h4 className="font-semibold">รอบ PM / สอบเทียบตามรุ่น</h4></div>
+      {err && <div className="mb-2"><Badge tone="red">{err}</Badge></div>}
+      <div className="flex flex-wrap gap-2 items-center mb-2 text-sm">
+        <select className="px-3 py-2 border rounded-xl" value={form.model} onChange={(e) => setForm({ ...form, model: e.target.value })}>
+          <option value="">-- รุ่น --</option>
+          {models.map((m, i) => <option key={i} value={i}>{m.brand} {m.name}</option>)}
+        </select>
+        <select className="px-3 py-2 border rounded-xl" value={form.kind} onChange={(e) => setForm({ ...form, kind: e.target.value as ServiceKind })}>
+          {SERVICE_KINDS.map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+        </select>
+        <span>ทุก</span><CInput type="number" className="w-20" value={form.months} onChange={(v) => setForm({ ...form, months: v })} /><span>เดือน</span>
+        <Button size="sm" onClick={add}>บันทึก</Button>
+      </div>
+      <div className="overflow-auto max-h-64 border rounded-xl">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50 sticky top-0"><tr>{["ยี่ห้อ / รุ่น", "ประเภท", "รอบ", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+          <tbody>
+            {modelPlans.map(p => (
+              <tr key={p.id} className="odd:bg-white even:bg-slate-50">
+                <td className="px-3 py-2 border-b">{p.brand} {p.model}</td>
+                <td className="px-3 py-2 border-b">{KIND_LABELS[p.kind]}</td>
+                <td className="px-3 py-2 border-b">ทุก {p.interval_months} เดือน</td>
+                <td className="px-3 py-2 border-b text-right"><Button variant="danger" size="sm" onClick={() => onDeletePlan(p.id)}><Trash2 size={16}/>ลบ</Button></td>
+              </tr>
+            ))}
+            {modelPlans.length === 0 && <tr><td colSpan={4} className="px-3 py-4 text-center text-slate-500">ยังไม่ได้กำหนดรอบตามรุ่น</td></tr>}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React, { useMemo, useState } from "react";
+import { History, RotateCcw } from "lucide-react";
+import type { AuditAction, AuditEntity, AuditEntry } from "../types";
+import { ACTION_LABELS, UNDOABLE, changes, filterAudit, undoneIds, type AuditFilter } from "../domain/audit";
+import { COLLECTION_LABELS } from "./BackupPanel";
+import { Badge, Button, CInput } from "./ui";
+import { formatDate } from "../utils";
+
+export const ENTITY_LABELS: Record<AuditEntity, string> = { ...COLLECTION_LABELS, pool: "ทั้งระบบ", settings: "ตั้งค่า", quarantine: "ข้อมูลที่แยกเก็บ" };
+
+const SHOWN = 200;
+const show = (v: unknown): string => (v === null || v === undefined || v === "" ? "-" : typeof v === "object" ? JSON.stringify(v) : String(v));
+
+/********** audit viewer (Settings) **********/
+export function AuditLog({ audit, onUndo }: { audit: AuditEntry[]; onUndo: (e: AuditEntry) => Promise<boolean> }) {
+  const [filter, setFilter] = useState<AuditFilter>({ q: "", entity: "", action: "", from: "", to: "" });
+  const list = useMemo(() => filterAudit(audit, filter), [audit, filter]);
+  const undone = useMemo(() => undoneIds(audit), [audit]);
+  const set = (p: Partial<AuditFilter>) => setFilter(f => ({ ...f, ...p }));
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center gap-2 mb-2"><History size={18} className="text-blue-600"/><h4 className="font-semibold">บันทึกการแก้ไข ({audit.length})</h4></div>
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <CInput className="w-56" value={filter.q} onChange={(v) => set({ q: v })} />
+        <select className="px-3 py-2 border rounded-xl" value={filter.entity} onChange={(e) => set({ entity: e.target.value as AuditEntity | "" })}>
+          <option value="">ทุกชุดข้อมูล</option>
+          {(Object.keys(ENTITY_LABELS) as AuditEntity[]).map(k => <option key={k} value={k}>{ENTITY_LABELS[k]}</option>)}
+        </select>
+        <select className="px-3 py-2 border rounded-xl" value={filter.action} onChange={(e) => set({ action: e.target.value as AuditAction | "" })}>
+          <option value="">ทุกการกระทำ</option>
+          {(Object.keys(ACTION_LABELS) as AuditAction[]).map(k => <option key={k} value={k}>{ACTION_LABELS[k]}</option>)}
+        </select>
+        <span>ตั้งแต่</span><CInput type="date" value={filter.from} onChange={(v) => set({ from: v })} />
+        <span>ถึง</span><CInput type="date" value={filter.to} onChange={(v) => set({ to: v })} />
+      </div>
+      <div className="overflow-auto max-h-96 border rounded-xl">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50 sticky top-0"><tr>{["เวลา", "ผู้ทำรายการ", "การกระทำ", "ชุดข้อมูล", "รหัส", "ก่อน → หลัง", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+          <tbody>
+            {list.slice(0, SHOWN).map(e => (
+              <tr key={e.id} className="odd:bg-white even:bg-slate-50 align-top">
+                <td className="px-3 py-2 border-b whitespace-nowrap">{formatDate(e.at)} {new Date(e.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" })}</td>
+                <td className="px-3 py-2 border-b">{e.actor || "-"}</td>
+                <td className="px-3 py-2 border-b"><Badge tone={e.action === "delete" ? "red" : e.action === "undo" ? "blue" : "slate"}>{ACTION_LABELS[e.action]}</Badge></td>
+                <td className="px-3 py-2 border-b">{ENTITY_LABELS[e.entity] ?? e.entity}</td>
+                <td className="px-3 py-2 border-b font-mono text-xs">{e.ref || "-"}</td>
+                <td className="px-3 py-2 border-b text-xs max-w-md">
+                  {changes(e.before, e.after).slice(0, 8).map((c, i) => (
+                    <div key={i} className="truncate">{c.field && <b>{c.field}: </b>}<span className="text-red-700">{show(c.from)}</span> → <span className="text-emerald-700">{show(c.to)}</span></div>
+                  ))}
+                </td>
+                <td className="px-3 py-2 border-b">
+                  {UNDOABLE.includes(e.action) && (undone.has(e.id)
+                    ? <Badge>ย้อนกลับแล้ว</Badge>
+                    : <Button variant="ghost" size="sm" onClick={() => confirm(`ย้อนกลับ "${ACTION_LABELS[e.action]}" ${e.ref}?`) && onUndo(e)}><RotateCcw size={16}/>ย้อนกลับ</Button>)}
+                </td>
+              </tr>
+            ))}
+            {list.length === 0 && <tr><td colSpan={7} className="px-3 py-6 text-center text-slate-500">ไม่มีรายการ</td></tr>}
+          </tbody>
+        </table>
+      </div>
+      {list.length > SHOWN && <div className="mt-1 text-xs text-slate-500">แสดง {SHOWN} รายการล่าสุดจาก {list.length} — ใช้ตัวกรองเพื่อหารายการที่เก่ากว่า</div>}
+    </div>
+  );
+}
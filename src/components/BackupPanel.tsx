@@ -0,0 +1,119 @@
+import React, { useRef, useState } from "react";
+import { DatabaseBackup, Upload, Download } from "lucide-react";
+import type { PoolCollection, PoolData, QuarantinedRecord } from "../types";
+import { COLLECTIONS } from "../storage/schema";
+import { createBackup, diffBackup, mergePools, readBackup, type BackupFile, type PoolSettings, type RestoreMode } from "../storage/backup";
+import { Badge, Button } from "./ui";
+import { downloadBlob, formatDate, todayStr } from "../utils";
+
+export const COLLECTION_LABELS: Record<PoolCollection, string> = {
+  brands: "ยี่ห้อ", models: "รุ่น", vendors: "บริษัทผู้ขาย", depts: "แผนก", assets: "เครื่องมือ", borrows: "รายการยืม-คืน", statusLog: "ประวัติสถานะ",
+  servicePlans: "รอบ PM/สอบเทียบ", serviceLog: "ประวัติ PM/สอบเทียบ", reservations: "การจอง", waitlist: "คิวขอยืม", audit: "บันทึกการแก้ไข", staff: "บัญชีผู้ใช้",
+};
+
+/********** backup / restore (Settings) **********/
+export function BackupPanel({ data, settings, onRestore }: {
+  data: PoolData; settings: PoolSettings;
+  onRestore: (data: PoolData, settings: PoolSettings) => Promise<boolean>;
+}) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+  const [pending, setPending] = useState<{ name: string; file: BackupFile; rejected: QuarantinedRecord[] } | null>(null);
+
+  const exportBackup = async () => {
+    setBusy(true); setErr("");
+    try {
+      const file = await createBackup(data, settings);
+      downloadBlob(new Blob([JSON.stringify(file)], { type: "application/json" }), `medical_pool_backup_${todayStr()}.json`);
+    } catch (e: any) {
+      console.error("Backup failed", e);
+      setErr("สร้างไฟล์สำรองไม่สำเร็จ: " + (e?.message || e));
+    } finally { setBusy(false); }
+  };
+
+  const pickFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0]; e.target.value = "";
+    if (!f) return;
+    setErr(""); setPending(null);
+    try {
+      const { file, rejected } = readBackup(await f.text());
+      setPending({ name: f.name, file, rejected });
+    } catch (ex: any) { setErr(ex?.message || String(ex)); }
+  };
+
+  const apply = async (mode: RestoreMode) => {
+    if (!pending) return;
+    const { file } = pending;
+    if (mode === "replace" && !confirm("แทนที่ข้อมูลทั้งหมดในเครื่องนี้ด้วยข้อมูลจากไฟล์? ข้อมูลที่ไม่มีในไฟล์จะถูกลบ")) return;
+    let ok: boolean;
+    if (mode === "merge") {
+      // keep local org settings unless they were never filled in; the local loan, alert and cost policies
+      // and the local staff accounts always stay
+      ok = await onRestore(mergePools(data, file.data), {
+        orgName: settings.orgName && settings.orgName !== "Hospital Name" ? settings.orgName : file.settings.orgName || settings.orgName,
+        reportLogo: settings.reportLogo || file.settings.reportLogo,
+        loanPolicy: settings.loanPolicy,
+        notifyPolicy: settings.notifyPolicy,
+        costPolicy: settings.costPolicy,
+      });
+    } else {
+      ok = await onRestore(file.data, file.settings);
+    }
+    if (!ok) return;
+    setPending(null);
+    alert("กู้คืนข้อมูลเรียบร้อย");
+  };
+
+  const diff = pending ? diffBackup(data, pending.file.data) : null;
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center gap-2 mb-2">
+        <DatabaseBackup size={18} className="text-blue-600"/>
+        <h4 className="font-semibold">สำรอง / กู้คืนข้อมูล</h4>
+        <div className="ml-auto flex gap-2">
+          <Button variant="success" size="sm" onClick={exportBackup} disabled={busy}><Download size={16}/>{busy ? "กำลังสร้างไฟล์..." : "ดาวน์โหลดไฟล์สำรอง"}</Button>
+          <Button variant="ghost" size="sm" onClick={() => fileRef.current?.click()}><Upload size={16}/>นำเข้าไฟล์สำรอง</Button>
+          <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={pickFile} />
+        </div>
+      </div>
+      <div className="text-sm text-slate-500">รวมยี่ห้อ รุ่น บริษัท แผนก เครื่องมือ รายการยืม-คืน (พร้อมลายเซ็น) ชื่อหน่วยงานและโลโก้ ไว้ในไฟล์ .json ไฟล์เดียว</div>
+      {err && <div className="mt-2"><Badge tone="red">{err}</Badge></div>}
+
+      {pending && diff && (
+        <div className="mt-3 border rounded-xl p-3 bg-slate-50">
+          <div className="text-sm mb-2">
+            ไฟล์ <b>{pending.name}</b> • สำรองเมื่อ {formatDate(pending.file.exported_at) || "-"} • หน่วยงาน {pending.file.settings.orgName || "-"}
+            {pending.rejected.length > 0 && <span className="ml-2"><Badge tone="red">ข้ามข้อมูลเสียหาย {pending.rejected.length} รายการ</Badge></span>}
+          </div>
+          <div className="overflow-auto border rounded-xl bg-white">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-50"><tr>{["ชุดข้อมูล", "ในไฟล์", "ใหม่", "แก้ไข", "เหมือนเดิม", "ไม่มีในไฟล์"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+              <tbody>
+                {COLLECTIONS.map(c => (
+                  <tr key={c} className="odd:bg-white even:bg-slate-50">
+                    <td className="px-3 py-2 border-b">{COLLECTION_LABELS[c]}</td>
+                    <td className="px-3 py-2 border-b">{diff[c].incoming}</td>
+                    <td className="px-3 py-2 border-b text-emerald-700">{diff[c].added}</td>
+                    <td className="px-3 py-2 border-b text-blue-700">{diff[c].changed}</td>
+                    <td className="px-3 py-2 border-b text-slate-500">{diff[c].unchanged}</td>
+                    <td className={"px-3 py-2 border-b " + (diff[c].removed ? "text-red-700" : "text-slate-500")}>{diff[c].removed}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="text-xs text-slate-500 mt-2">
+            รวมข้อมูล: เพิ่มรายการใหม่ และใช้ค่าจากไฟล์กับรายการที่แก้ไข ยกเว้นบัญชีผู้ใช้ที่มีในเครื่องนี้แล้วจะคงไว้ตามเดิม • แทนที่ทั้งหมด: ลบรายการในคอลัมน์ "ไม่มีในไฟล์" และใช้ชื่อหน่วยงาน/โลโก้จากไฟล์ • บันทึกการแก้ไขจะถูกรวมเสมอ ไม่มีรายการใดถูกลบ
+          </div>
+          <div className="mt-3 flex gap-2">
+            <Button size="sm" onClick={() => apply("merge")}>รวมข้อมูล</Button>
+            <Button variant="danger" size="sm" onClick={() => apply("replace")}>แทนที่ทั้งหมด</Button>
+            <Button variant="ghost" size="sm" onClick={() => setPending(null)}>ยกเลิก</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
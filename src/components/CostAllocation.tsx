@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from "react";
+import { ChevronLeft, ChevronRight, Download, Printer, Wallet } from "lucide-react";
+import type { Asset, BorrowRecord, CostPolicy } from "../types";
+import { SOURCE_LABELS, allocateCosts, money, periodOf, shiftPeriod, statementAoa, type PeriodKind } from "../domain/costAllocation";
+import { costStatementHtml } from "../print/costStatement";
+import { Badge, Button, Card } from "./ui";
+import { formatDate, loadXLSX, openPrintWindow, todayStr } from "../utils";
+
+/********** report: departmental cost allocation **********/
+export function CostAllocation({ borrows, assets, policy, orgName, reportLogo }: {
+  borrows: BorrowRecord[]; assets: Asset[]; policy: CostPolicy; orgName: string; reportLogo: string;
+}) {
+  // the last complete month is what finance usually asks for
+  const [period, setPeriod] = useState(() => shiftPeriod(periodOf("month", todayStr()), -1));
+  const [open, setOpen] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const statement = useMemo(() => allocateCosts(borrows, assets, policy, period), [borrows, assets, policy, period]);
+
+  const setKind = (kind: PeriodKind) => setPeriod(periodOf(kind, period.from));
+
+  const exportXLSX = async () => {
+    try {
+      const XLSX = await loadXLSX();
+      const { summary, detail } = statementAoa(statement, orgName);
+      const wb = XLSX.utils.book_new();
+      const ws1 = XLSX.utils.aoa_to_sheet(summary);
+      (ws1["!cols"] as any) = [{ wch: 20 }, { wch: 12 }, { wch: 12 }, { wch: 16 }];
+      const ws2 = XLSX.utils.aoa_to_sheet(detail);
+      (ws2["!cols"] as any) = [{ wch: 14 }, { wch: 12 }, { wch: 22 }, { wch: 18 }, { wch: 16 }, { wch: 11 }, { wch: 11 }, { wch: 10 }, { wch: 10 }, { wch: 14 }, { wch: 14 }];
+      XLSX.utils.book_append_sheet(wb, ws1, "สรุป");
+      XLSX.utils.book_append_sheet(wb, ws2, "รายละเอียด");
+      XLSX.writeFile(wb, `medical_pool_costs_${period.from.slice(0, 7)}_${period.kind}.xlsx`);
+    } catch (e: any) {
+      setNote(e?.message || "สร้าง .xlsx ไม่ได้");
+      setTimeout(() => setNote(""), 3000);
+    }
+  };
+
+  return (
+    <Card className="mt-4">
+      <div className="flex flex-wrap items-center mb-3 gap-2">
+        <Wallet className="text-blue-600" size={18}/>
+        <h3 className="font-semibold text-xl">สรุปค่าใช้เครื่องรายหน่วยงาน</h3>
+        <div className="ml-auto flex gap-2">
+          <Button variant="success" onClick={exportXLSX} disabled={!statement.depts.length}><Download size={18}/>Export Excel (.xlsx)</Button>
+          <Button variant="secondary" onClick={() => openPrintWindow(costStatementHtml(statement, orgName, reportLogo))} disabled={!statement.depts.length}><Printer size={18}/>พิมพ์ใบแจ้งหนี้</Button>
+        </div>
+      </div>
+      {note && <div className="mb-3 text-sm text-slate-600">{note}</div>}
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        {(["month", "quarter"] as PeriodKind[]).map(k => (
+          <Button key={k} size="sm" variant={period.kind === k ? "default" : "ghost"} onClick={() => setKind(k)}>{k === "month" ? "รายเดือน" : "รายไตรมาส"}</Button>
+        ))}
+        <Button size="sm" variant="ghost" onClick={() => setPeriod(shiftPeriod(period, -1))}><ChevronLeft size={16}/></Button>
+        <span className="font-medium min-w-[9rem] text-center">{period.label}</span>
+        <Button size="sm" variant="ghost" onClick={() => setPeriod(shiftPeriod(period, 1))}><ChevronRight size={16}/></Button>
+        <span className="text-slate-500">{formatDate(period.from)} – {formatDate(period.to)}</span>
+        {statement.unpriced > 0 && <Badge tone="red">{statement.unpriced} รายการไม่มีอัตรา/ราคา</Badge>}
+      </div>
+      <div className="overflow-auto max-h-[28rem] border rounded-xl">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50 sticky top-0">
+            <tr>{["หน่วยงาน", "จำนวนรายการ", "วัน-เครื่อง", "ค่าใช้จ่าย (บาท)"].map((h, i) => <th key={h} className={"px-3 py-2 border-b " + (i ? "text-right" : "text-left")}>{h}</th>)}</tr>
+          </thead>
+          <tbody>
+            {statement.depts.map(d => (
+              <React.Fragment key={d.dept}>
+                <tr className="odd:bg-white even:bg-slate-50 hover:bg-slate-100/60 cursor-pointer" onClick={() => setOpen(open === d.dept ? null : d.dept)}>
+                  <td className="px-3 py-2 border-b font-medium">{open === d.dept ? "▾" : "▸"} {d.dept}</td>
+                  <td className="px-3 py-2 border-b text-right">{d.loans}</td>
+                  <td className="px-3 py-2 border-b text-right">{d.days}</td>
+                  <td className="px-3 py-2 border-b text-right">{money(d.amount)}</td>
+                </tr>
+                {open === d.dept && d.lines.map(l => (
+                  <tr key={l.loan.id} className="bg-blue-50/40 text-xs">
+                    <td className="px-3 py-1.5 border-b pl-8">{l.loan.asset_id} {l.loan.asset_name} — {l.loan.borrower_name}</td>
+                    <td className="px-3 py-1.5 border-b text-right">{formatDate(l.from)} – {formatDate(l.to)}</td>
+                    <td className="px-3 py-1.5 border-b text-right">{l.days} × {money(l.rate)}</td>
+                    <td className="px-3 py-1.5 border-b text-right" title={SOURCE_LABELS[l.source]}>{money(l.amount)}</td>
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+            {statement.depts.length === 0 && <tr><td colSpan={4} className="px-3 py-6 text-center text-slate-500">ไม่มีการยืมในช่วงนี้</td></tr>}
+          </tbody>
+          {statement.depts.length > 0 && (
+            <tfoot className="sticky bottom-0 bg-slate-100 font-semibold">
+              <tr>
+                <td className="px-3 py-2 border-b">รวม</td>
+                <td className="px-3 py-2 border-b text-right">{statement.depts.reduce((n, d) => n + d.loans, 0)}</td>
+                <td className="px-3 py-2 border-b text-right">{statement.days}</td>
+                <td className="px-3 py-2 border-b text-right">{money(statement.amount)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+      <div className="mt-1 text-xs text-slate-500">นับวัน-เครื่องตามวันที่ยืมถึงวันก่อนวันคืน (ยืม-คืนวันเดียวกันนับ 1 วัน) การยืมที่คร่อมงวดจะแบ่งวันให้แต่ละงวด — อัตรารายวันตั้งได้ที่ Settings</div>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+import React, { useState } from "react";
+import { Trash2, Wallet } from "lucide-react";
+import type { CostPolicy, Model } from "../types";
+import { money } from "../domain/costAllocation";
+import { Badge, Button, CInput } from "./ui";
+import { uid } from "../utils";
+
+/********** settings: daily rates for cost allocation **********/
+export function CostSettings({ policy, onChange, brands, models }: {
+  policy: CostPolicy; onChange: (p: CostPolicy) => void; brands: string[]; models: Model[];
+}) {
+  const [form, setForm] = useState({ brand: "", model: "", daily_rate: "" });
+  const [err, setErr] = useState("");
+  const modelOptions = models.filter(m => m.brand === form.brand).map(m => m.name);
+
+  const setNumber = (k: "life_years" | "residual_pct", v: string) => {
+    const n = Number(v);
+    if (v !== "" && Number.isFinite(n) && (k === "life_years" ? n > 0 : n >= 0 && n < 100)) onChange({ ...policy, [k]: n });
+  };
+
+  const addRate = () => {
+    setErr("");
+    const rate = Number(form.daily_rate);
+    if (!form.brand) return setErr("เลือกยี่ห้อ");
+    if (form.daily_rate === "" || !Number.isFinite(rate) || rate < 0) return setErr("อัตรารายวันต้องเป็นตัวเลขตั้งแต่ 0 ขึ้นไป");
+    const same = policy.rates.find(r => r.brand === form.brand && r.model === form.model);
+    const entry = { id: same?.id ?? uid(), brand: form.brand, model: form.model, daily_rate: rate };
+    onChange({ ...policy, rates: same ? policy.rates.map(r => r.id === same.id ? entry : r) : [...policy.rates, entry] });
+    setForm({ brand: "", model: "", daily_rate: "" });
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center gap-2 mb-2"><Wallet size={18} className="text-blue-600"/><h4 className="font-semibold">อัตราค่าใช้เครื่อง (ปันส่วนค่าใช้จ่ายให้หน่วยงาน)</h4></div>
+      <div className="flex flex-wrap items-center gap-2 text-sm mb-3">
+        <span>เครื่องที่ไม่มีอัตรา คิดค่าเสื่อมราคาเส้นตรงจากราคาซื้อ อายุใช้งาน</span>
+        <CInput type="number" className="w-20" value={policy.life_years} onChange={(v) => setNumber("life_years", v)} /><span>ปี</span>
+        <span className="ml-4">มูลค่าซาก</span><CInput type="number" className="w-20" value={policy.residual_pct} onChange={(v) => setNumber("residual_pct", v)} /><span>% ของราคา</span>
+      </div>
+
+      {err && <div className="mb-2"><Badge tone="red">{err}</Badge></div>}
+      <div className="flex flex-wrap items-center gap-2 text-sm mb-2">
+        <select className="px-3 py-2 border rounded-xl" value={form.brand} onChange={(e) => setForm({ ...form, brand: e.target.value, model: "" })}>
+          <option value="">เลือกยี่ห้อ</option>
+          {brands.map(b => <option key={b} value={b}>{b}</option>)}
+        </select>
+        <select className="px-3 py-2 border rounded-xl" value={form.model} disabled={!form.brand} onChange={(e) => setForm({ ...form, model: e.target.value })}>
+          <option value="">ทุกรุ่น</option>
+          {modelOptions.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <CInput type="number" className="w-28" value={form.daily_rate} onChange={(v) => setForm({ ...form, daily_rate: v })} /><span>บาท/วัน</span>
+        <Button size="sm" onClick={addRate}>เพิ่มอัตรา</Button>
+      </div>
+      <div className="overflow-auto max-h-64 border rounded-xl">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50 sticky top-0"><tr>{["ยี่ห้อ / รุ่น", "บาท/วัน", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+          <tbody>
+            {policy.rates.map(r => (
+              <tr key={r.id} className="odd:bg-white even:bg-slate-50">
+                <td className="px-3 py-2 border-b">{r.brand} {r.model || <span className="text-slate-500">(ทุกรุ่น)</span>}</td>
+                <td className="px-3 py-2 border-b">{money(r.daily_rate)}</td>
+                <td className="px-3 py-2 border-b"><Button variant="ghost" size="sm" onClick={() => onChange({ ...policy, rates: policy.rates.filter(x => x.id !== r.id) })}><Trash2 size={16}/></Button></td>
+              </tr>
+            ))}
+            {policy.rates.length === 0 && <tr><td colSpan={3} className="px-3 py-6 text-center text-slate-500">ยังไม่มีอัตราเฉพาะ — ทุกเครื่องคิดตามค่าเสื่อมราคา</td></tr>}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
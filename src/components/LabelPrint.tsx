@@ -0,0 +1,52 @@
+import React, { useState } from "react";
+import { Printer, Tags } from "lucide-react";
+import type { Asset } from "../types";
+import { LABEL_LAYOUTS, buildLabelSheet } from "../print/labels";
+import { Button } from "./ui";
+import { openPrintWindow } from "../utils";
+
+/********** assets: print QR labels for the selected devices **********/
+export function LabelPrint({ assets, orgName, onClose }: { assets: Asset[]; orgName: string; onClose: () => void }) {
+  const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[0].id);
+  const [skip, setSkip] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const layout = LABEL_LAYOUTS.find(l => l.id === layoutId) ?? LABEL_LAYOUTS[0];
+  const perPage = layout.cols * layout.rows;
+
+  const print = async () => {
+    setBusy(true);
+    try {
+      openPrintWindow(await buildLabelSheet(assets, layout, orgName, skip));
+    } catch (e: any) {
+      console.error("Label print failed", e);
+      alert("สร้างป้ายไม่สำเร็จ: " + (e?.message || e));
+    } finally { setBusy(false); }
+  };
+
+  return (
+    <div className="border rounded-xl p-3 bg-slate-50 mb-4">
+      <div className="flex items-center gap-2 mb-2">
+        <Tags size={18} className="text-blue-600"/>
+        <h4 className="font-semibold">พิมพ์ป้าย QR ({assets.length} เครื่อง)</h4>
+        <Button variant="ghost" size="sm" className="ml-auto" onClick={onClose}>ปิด</Button>
+      </div>
+      <div className="flex flex-wrap gap-3 items-end">
+        <label className="block">
+          <span className="block text-sm font-medium mb-1">รูปแบบกระดาษ</span>
+          <select className="px-3 py-2 border rounded-xl bg-white" value={layoutId} onChange={(e) => { setLayoutId(e.target.value); setSkip(0); }}>
+            {LABEL_LAYOUTS.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </select>
+        </label>
+        {perPage > 1 && (
+          <label className="block">
+            <span className="block text-sm font-medium mb-1">ข้ามดวงที่ใช้แล้ว</span>
+            <input type="number" min={0} max={perPage - 1} className="w-24 px-3 py-2 border rounded-xl" value={skip}
+              onChange={(e) => setSkip(Math.max(0, Math.min(perPage - 1, Number(e.target.value) || 0)))} />
+          </label>
+        )}
+        <Button variant="secondary" onClick={print} disabled={busy || !assets.length}><Printer size={18}/>{busy ? "กำลังสร้าง..." : "พิมพ์ป้าย"}</Button>
+      </div>
+      <div className="text-xs text-slate-500 mt-2">ป้ายประกอบด้วย QR (Asset ID), ID CODE, ชื่อเครื่อง, Serial และชื่อหน่วยงาน — ตั้งค่าการพิมพ์เป็น "ขนาดจริง / 100%" และไม่มีขอบกระดาษ</div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import React, { useState } from "react";
+import { CalendarClock, Trash2 } from "lucide-react";
+import type { LoanPolicy, Model } from "../types";
+import { Badge, Button, CInput } from "./ui";
+import { uid } from "../utils";
+
+/********** settings: loan duration policy **********/
+export function LoanPolicySettings({ policy, onChange, depts, brands, models }: {
+  policy: LoanPolicy; onChange: (p: LoanPolicy) => void;
+  depts: string[]; brands: string[]; models: Model[];
+}) {
+  const [form, setForm] = useState({ dept: "", brand: "", model: "", max_days: "" });
+  const [err, setErr] = useState("");
+  const modelOptions = models.filter(m => m.brand === form.brand).map(m => m.name);
+
+  const setNumber = (k: "max_days" | "warn_days", v: string) => {
+    const n = Number(v);
+    if (v !== "" && Number.isInteger(n) && n >= (k === "max_days" ? 1 : 0)) onChange({ ...policy, [k]: n });
+  };
+
+  const addRule = () => {
+    setErr("");
+    const days = Number(form.max_days);
+    if (!form.dept && !form.brand) return setErr("เลือกแผนกหรือยี่ห้ออย่างน้อยหนึ่งอย่าง");
+    if (!Number.isInteger(days) || days <= 0) return setErr("จำนวนวันต้องเป็นจำนวนเต็มมากกว่า 0");
+    const same = policy.rules.find(r => r.dept === form.dept && r.brand === form.brand && r.model === form.model);
+    const rule = { id: same?.id ?? uid(), dept: form.dept, brand: form.brand, model: form.model, max_days: days };
+    onChange({ ...policy, rules: same ? policy.rules.map(r => r.id === same.id ? rule : r) : [...policy.rules, rule] });
+    setForm({ dept: "", brand: "", model: "", max_days: "" });
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center gap-2 mb-2"><CalendarClock size={18} className="text-blue-600"/><h4 className="font-semibold">กติกาการยืม</h4></div>
+      <div className="flex flex-wrap items-center gap-2 text-sm mb-3">
+        <span>ยืมได้นานสุด</span><CInput type="number" className="w-20" value={policy.max_days} onChange={(v) => setNumber("max_days", v)} /><span>วัน</span>
+        <span className="ml-4">เตือนก่อนครบกำหนด</span><CInput type="number" className="w-20" value={policy.warn_days} onChange={(v) => setNumber("warn_days", v)} /><span>วัน</span>
+        <span className="text-xs text-slate-500 ml-2">รายการที่กรอกกำหนดคืนไว้ จะนับตามกำหนดคืนนั้น</span>
+      </div>
+
+      {err && <div className="mb-2"><Badge tone="red">{err}</Badge></div>}
+      <div className="flex flex-wrap items-center gap-2 text-sm mb-2">
+        <select className="px-3 py-2 border rounded-xl" value={form.dept} onChange={(e) => setForm({ ...form, dept: e.target.value })}>
+          <option value="">ทุกแผนก</option>
+          {depts.map(d => <option key={d} value={d}>{d}</option>)}
+        </select>
+        <select className="px-3 py-2 border rounded-xl" value={form.brand} onChange={(e) => setForm({ ...form, brand: e.target.value, model: "" })}>
+          <option value="">ทุกยี่ห้อ</option>
+          {brands.map(b => <option key={b} value={b}>{b}</option>)}
+        </select>
+        <select className="px-3 py-2 border rounded-xl" value={form.model} disabled={!form.brand} onChange={(e) => setForm({ ...form, model: e.target.value })}>
+          <option value="">ทุกรุ่น</option>
+          {modelOptions.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <span>นานสุด</span><CInput type="number" className="w-20" value={form.max_days} onChange={(v) => setForm({ ...form, max_days: v })} /><span>วัน</span>
+        <Button size="sm" onClick={addRule}>เพิ่มกติกา</Button>
+      </div>
+      <div className="overflow-auto max-h-64 border rounded-xl">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50 sticky top-0"><tr>{["แผนก", "ยี่ห้อ / รุ่น", "นานสุด", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+          <tbody>
+            {policy.rules.map(r => (
+              <tr key={r.id} className="odd:bg-white even:bg-slate-50">
+                <td className="px-3 py-2 border-b">{r.dept || "ทุกแผนก"}</td>
+                <td className="px-3 py-2 border-b">{r.brand ? `${r.brand} ${r.model || "(ทุกรุ่น)"}` : "ทุกยี่ห้อ"}</td>
+                <td className="px-3 py-2 border-b">{r.max_days} วัน</td>
+                <td className="px-3 py-2 border-b text-right">
+                  <Button variant="danger" size="sm" onClick={() => onChange({ ...policy, rules: policy.rules.filter(x => x.id !== r.id) })}><Trash2 size={16}/>ลบ</Button>
+                </td>
+              </tr>
+            ))}
+            {policy.rules.length === 0 && <tr><td colSpan={4} className="px-3 py-4 text-center text-slate-500">ยังไม่มีกติกาเฉพาะ — ใช้ค่าเริ่มต้นกับทุกรายการ</td></tr>}
+          </tbody>
+        </table>
+      </div>
+      <div className="text-xs text-slate-500 mt-1">ถ้ารายการยืมตรงกับหลายกติกา จะใช้กติกาที่สั้นที่สุด</div>
+    </div>
+  );
+}
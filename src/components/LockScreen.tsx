@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from "react";
+import { Lock, LogIn } from "lucide-react";
+import type { StaffAccount } from "../types";
+import { ROLE_LABELS, hasPin, verifyPin } from "../domain/staff";
+import { Badge, Button, Card } from "./ui";
+
+const MAX_TRIES = 5;
+const COOLDOWN_MS = 30000;
+
+/********** sign-in / lock screen for a shared terminal **********/
+export function LockScreen({ staff, orgName, lastUserId, onUnlock }: {
+  staff: StaffAccount[]; orgName: string; lastUserId: string | null; onUnlock: (account: StaffAccount) => void;
+}) {
+  const accounts = staff.filter(s => s.active && hasPin(s));
+  const [id, setId] = useState(lastUserId && accounts.some(a => a.id === lastUserId) ? lastUserId : "");
+  const [pin, setPin] = useState("");
+  const [err, setErr] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [tries, setTries] = useState(0);
+  const [waitUntil, setWaitUntil] = useState(0);
+  const [, tick] = useState(0);
+  const waiting = waitUntil > Date.now();
+
+  useEffect(() => {
+    if (!waiting) return;
+    const t = setInterval(() => tick(n => n + 1), 1000);
+    return () => clearInterval(t);
+  }, [waiting]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault(); setErr("");
+    const account = accounts.find(a => a.id === id);
+    if (!account) return setErr("เลือกผู้ใช้งาน");
+    if (waiting) return;
+    setBusy(true);
+    const ok = await verifyPin(account, pin);
+    setBusy(false); setPin("");
+    if (ok) { setTries(0); onUnlock(account); return; }
+    const n = tries + 1;
+    if (n >= MAX_TRIES) { setTries(0); setWaitUntil(Date.now() + COOLDOWN_MS); setErr(`ใส่ PIN ผิด ${MAX_TRIES} ครั้ง — รอ 30 วินาที`); }
+    else { setTries(n); setErr(`PIN ไม่ถูกต้อง (${n}/${MAX_TRIES})`); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gradient-to-b from-slate-100 to-slate-200 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm">
+        <Card>
+          <div className="flex items-center gap-2 mb-1"><Lock size={18} className="text-blue-600"/><h3 className="font-semibold">Medical Pool</h3></div>
+          <div className="text-sm text-slate-500 mb-4">{orgName} — เข้าสู่ระบบด้วย PIN</div>
+          {err && <div className="mb-3"><Badge tone="red">{err}</Badge></div>}
+          <form onSubmit={submit} className="space-y-3">
+            <label className="block">
+              <span className="block text-sm font-medium mb-1 text-slate-700">ผู้ใช้งาน</span>
+              <select className="w-full px-3 py-2.5 border rounded-xl" value={id} onChange={(e) => setId(e.target.value)}>
+                <option value="">-- เลือก --</option>
+                {accounts.map(a => <option key={a.id} value={a.id}>{a.name} ({ROLE_LABELS[a.role]})</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium mb-1 text-slate-700">PIN</span>
+              <input type="password" inputMode="numeric" autoComplete="off" autoFocus className="w-full px-3 py-2.5 border rounded-xl tracking-widest"
+                value={pin} onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))} disabled={waiting} />
+            </label>
+            <Button className="w-full justify-center" disabled={busy || waiting}>
+              <LogIn size={18}/>{waiting ? `รอ ${Math.ceil((waitUntil - Date.now()) / 1000)} วินาที` : "เข้าสู่ระบบ"}
+            </Button>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+}
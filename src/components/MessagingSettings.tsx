@@ -0,0 +1,143 @@
+import React, { useState } from "react";
+import { MessageSquare, RotateCcw, Send, Trash2 } from "lucide-react";
+import type { ChannelKind, Delivery, Department, MessageChannel, MessageEvent } from "../types";
+import { DEFAULT_TEMPLATES, EVENTS, EVENT_LABELS, KIND_LABELS, PLACEHOLDERS, RETRY_MINUTES } from "../domain/messaging";
+import { Badge, Button, Text } from "./ui";
+import { formatDate, uid } from "../utils";
+
+const KINDS = Object.keys(KIND_LABELS) as ChannelKind[];
+const URL_HINT: Record<ChannelKind, string> = {
+  webhook: "http://192.168.1.10:8788/webhook",
+  smtp: "http://192.168.1.10:8788/mail",
+  line: "http://192.168.1.10:8788/line",
+};
+const STATUS_TONE = { pending: "blue", sent: "green", failed: "red" } as const;
+const STATUS_TEXT = { pending: "รอส่ง", sent: "ส่งแล้ว", failed: "ส่งไม่สำเร็จ" } as const;
+const SHOWN = 100;
+
+const blank = (): MessageChannel => ({ id: "", name: "", kind: "webhook", dept: "", events: ["overdue"], url: "", token: "", to: "", enabled: true });
+const time = (iso: string) => `${formatDate(iso)} ${new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+
+/********** settings: outbound messages **********/
+export function MessagingSettings({ channels, setChannels, templates, setTemplates, deliveries, depts, onTest, onRetry, onClearLog }: {
+  channels: MessageChannel[]; setChannels: (v: MessageChannel[]) => void;
+  templates: Record<MessageEvent, string>; setTemplates: (v: Record<MessageEvent, string>) => void;
+  deliveries: Delivery[]; depts: Department[];
+  onTest: (c: MessageChannel) => void; onRetry: (id: string) => void; onClearLog: () => void;
+}) {
+  const [form, setForm] = useState<MessageChannel>(blank);
+  const [err, setErr] = useState("");
+  const [event, setEvent] = useState<MessageEvent>("overdue");
+  const name = (id: string) => channels.find(c => c.id === id)?.name ?? "(ลบแล้ว)";
+
+  const save = () => {
+    setErr("");
+    if (!form.name.trim()) return setErr("ตั้งชื่อช่องทาง");
+    if (!/^https?:\/\//.test(form.url.trim())) return setErr("ระบุ URL ปลายทาง (http:// หรือ https://)");
+    if (!form.events.length) return setErr("เลือกเหตุการณ์อย่างน้อยหนึ่งอย่าง");
+    if (form.kind === "smtp" && !form.to.trim()) return setErr("ระบุอีเมลผู้รับ");
+    const c = { ...form, id: form.id || uid(), name: form.name.trim(), url: form.url.trim(), to: form.to.trim() };
+    setChannels(form.id ? channels.map(x => x.id === c.id ? c : x) : [...channels, c]);
+    setForm(blank());
+  };
+  const toggleEvent = (e: MessageEvent) => setForm({ ...form, events: form.events.includes(e) ? form.events.filter(x => x !== e) : [...form.events, e] });
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center gap-2 mb-2"><MessageSquare size={18} className="text-blue-600"/><h4 className="font-semibold">ส่งข้อความออก (LINE / อีเมล / Webhook)</h4></div>
+
+      {err && <div className="mb-2"><Badge tone="red">{err}</Badge></div>}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end mb-2">
+        <Text label="ชื่อช่องทาง" value={form.name} onChange={(v) => setForm({ ...form, name: v })} placeholder="กลุ่ม LINE ICU" />
+        <label className="block">
+          <span className="block text-sm font-medium mb-1 text-slate-700">ประเภท</span>
+          <select className="w-full px-3 py-2.5 border rounded-xl" value={form.kind} onChange={(e) => setForm({ ...form, kind: e.target.value as ChannelKind })}>
+            {KINDS.map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-sm font-medium mb-1 text-slate-700">หน่วยงาน</span>
+          <select className="w-full px-3 py-2.5 border rounded-xl" value={form.dept} onChange={(e) => setForm({ ...form, dept: e.target.value })}>
+            <option value="">ทุกหน่วยงาน</option>
+            {depts.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+        </label>
+        <Text label="URL ปลายทาง" value={form.url} onChange={(v) => setForm({ ...form, url: v })} placeholder={URL_HINT[form.kind]} />
+        <Text label="Token (ถ้ามี)" type="password" value={form.token} onChange={(v) => setForm({ ...form, token: v })} />
+        {form.kind === "smtp" && <Text label="อีเมลผู้รับ (คั่นด้วย ,)" value={form.to} onChange={(v) => setForm({ ...form, to: v })} />}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-sm mb-3">
+        {EVENTS.map(e => <label key={e} className="inline-flex items-center gap-1"><input type="checkbox" checked={form.events.includes(e)} onChange={() => toggleEvent(e)}/>{EVENT_LABELS[e]}</label>)}
+        <Button size="sm" onClick={save}>{form.id ? "บันทึกการแก้ไข" : "เพิ่มช่องทาง"}</Button>
+        {form.id && <Button variant="ghost" size="sm" onClick={() => setForm(blank())}>ยกเลิก</Button>}
+      </div>
+
+      {channels.length > 0 && (
+        <div className="overflow-auto border rounded-xl mb-4">
+          <table className="min-w-full text-sm">
+            <thead className="bg-slate-50"><tr>{["ชื่อ", "ประเภท", "หน่วยงาน", "เหตุการณ์", "สถานะ", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+            <tbody>
+              {channels.map(c => (
+                <tr key={c.id} className="odd:bg-white even:bg-slate-50 align-top">
+                  <td className="px-3 py-2 border-b">{c.name}<div className="text-xs text-slate-500 break-all">{c.url}</div></td>
+                  <td className="px-3 py-2 border-b">{KIND_LABELS[c.kind]}</td>
+                  <td className="px-3 py-2 border-b">{c.dept || "ทุกหน่วยงาน"}</td>
+                  <td className="px-3 py-2 border-b">{c.events.map(e => EVENT_LABELS[e]).join(", ")}</td>
+                  <td className="px-3 py-2 border-b">
+                    <button onClick={() => setChannels(channels.map(x => x.id === c.id ? { ...x, enabled: !x.enabled } : x))}>
+                      {c.enabled ? <Badge tone="green">เปิด</Badge> : <Badge>ปิด</Badge>}
+                    </button>
+                  </td>
+                  <td className="px-3 py-2 border-b">
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => onTest(c)}><Send size={16}/>ทดสอบ</Button>
+                      <Button variant="ghost" size="sm" onClick={() => setForm(c)}>แก้ไข</Button>
+                      <Button variant="ghost" size="sm" onClick={() => confirm(`ลบช่องทาง "${c.name}"?`) && setChannels(channels.filter(x => x.id !== c.id))}><Trash2 size={16}/></Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="text-sm font-medium mb-1">ข้อความตามเหตุการณ์</div>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {EVENTS.map(e => <Button key={e} size="sm" variant={e === event ? "default" : "ghost"} onClick={() => setEvent(e)}>{EVENT_LABELS[e]}</Button>)}
+      </div>
+      <textarea className="w-full px-3 py-2 border rounded-xl text-sm" rows={3} value={templates[event] ?? DEFAULT_TEMPLATES[event]} onChange={(e) => setTemplates({ ...templates, [event]: e.target.value })} />
+      <div className="flex flex-wrap items-center gap-1 text-xs text-slate-500 mb-4">
+        <span>ใช้ได้:</span>{PLACEHOLDERS.map(p => <code key={p} className="px-1 bg-slate-100 rounded">{`{${p}}`}</code>)}
+        <Button variant="ghost" size="sm" className="ml-2" onClick={() => setTemplates({ ...templates, [event]: DEFAULT_TEMPLATES[event] })}>ใช้ข้อความเริ่มต้น</Button>
+      </div>
+
+      <div className="flex items-center gap-2 mb-1">
+        <div className="text-sm font-medium flex-1">ประวัติการส่ง ({deliveries.length})</div>
+        {deliveries.length > 0 && <Button variant="ghost" size="sm" onClick={() => confirm("ล้างประวัติการส่ง? (รายการที่รอส่งจะยังอยู่)") && onClearLog()}>ล้างประวัติ</Button>}
+      </div>
+      <div className="overflow-auto max-h-72 border rounded-xl">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50 sticky top-0"><tr>{["เวลา", "ช่องทาง", "เหตุการณ์", "ข้อความ", "สถานะ", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+          <tbody>
+            {deliveries.slice(0, SHOWN).map(d => (
+              <tr key={d.id} className="odd:bg-white even:bg-slate-50 align-top">
+                <td className="px-3 py-2 border-b whitespace-nowrap">{time(d.created_at)}</td>
+                <td className="px-3 py-2 border-b">{name(d.channel_id)}</td>
+                <td className="px-3 py-2 border-b">{EVENT_LABELS[d.event]}</td>
+                <td className="px-3 py-2 border-b text-xs max-w-md">{d.text}</td>
+                <td className="px-3 py-2 border-b">
+                  <Badge tone={STATUS_TONE[d.status]}>{STATUS_TEXT[d.status]}{d.attempts > 1 ? ` (${d.attempts} ครั้ง)` : ""}</Badge>
+                  {d.error && <div className="text-xs text-red-700 mt-1">{d.error}{d.status === "pending" && ` — ลองใหม่ ${time(d.next_at)}`}</div>}
+                </td>
+                <td className="px-3 py-2 border-b">{d.status === "failed" && <Button variant="ghost" size="sm" onClick={() => onRetry(d.id)}><RotateCcw size={16}/>ส่งใหม่</Button>}</td>
+              </tr>
+            ))}
+            {deliveries.length === 0 && <tr><td colSpan={6} className="px-3 py-6 text-center text-slate-500">ยังไม่มีข้อความ</td></tr>}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-1 text-xs text-slate-500">ส่งขณะเปิดโปรแกรมไว้ ถ้าส่งไม่สำเร็จจะลองใหม่อัตโนมัติหลัง {RETRY_MINUTES.join(", ")} นาที — ช่องทางและ token เก็บเฉพาะเครื่องนี้ ไม่รวมในไฟล์สำรอง</div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import React, { useState } from "react";
+import { BellRing, Trash2 } from "lucide-react";
+import type { NotifyPolicy } from "../types";
+import { Badge, Button, CInput } from "./ui";
+import { uid } from "../utils";
+import { normalizeNotifyPolicy } from "../domain/overdue";
+
+/********** settings: overdue alerts and escalation **********/
+export function NotifySettings({ policy, onChange }: { policy: NotifyPolicy; onChange: (p: NotifyPolicy) => void }) {
+  const [form, setForm] = useState({ after_days: "", label: "" });
+  const [err, setErr] = useState("");
+  const [permission, setPermission] = useState(() => (typeof Notification === "undefined" ? "unsupported" : Notification.permission));
+  const set = (p: Partial<NotifyPolicy>) => onChange(normalizeNotifyPolicy({ ...policy, ...p }));
+
+  const addStep = () => {
+    setErr("");
+    const days = Number(form.after_days);
+    if (form.after_days === "" || !Number.isInteger(days) || days < 0) return setErr("จำนวนวันต้องเป็นจำนวนเต็มตั้งแต่ 0");
+    if (!form.label.trim()) return setErr("ระบุผู้ที่ต้องแจ้งในขั้นนี้");
+    if (policy.steps.some(s => s.after_days === days)) return setErr("มีขั้นที่ใช้จำนวนวันนี้แล้ว");
+    set({ steps: [...policy.steps, { id: uid(), after_days: days, label: form.label.trim() }] });
+    setForm({ after_days: "", label: "" });
+  };
+  const askPermission = async () => {
+    const p = await Notification.requestPermission();
+    setPermission(p);
+    if (p === "granted") set({ browser: true });
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center gap-2 mb-2"><BellRing size={18} className="text-blue-600"/><h4 className="font-semibold">การแจ้งเตือนเกินกำหนดคืน</h4></div>
+      <div className="flex flex-wrap items-center gap-3 text-sm mb-3">
+        <label className="inline-flex items-center gap-2"><input type="checkbox" checked={policy.enabled} onChange={(e) => set({ enabled: e.target.checked })}/>ตรวจรายการเกินกำหนดอัตโนมัติ</label>
+        <span>ทุก</span><CInput type="number" className="w-20" value={policy.check_minutes} onChange={(v) => { const n = Number(v); if (Number.isInteger(n) && n > 0) set({ check_minutes: n }); }} /><span>นาที</span>
+        <label className="inline-flex items-center gap-2 ml-4">
+          <input type="checkbox" checked={policy.browser && permission === "granted"} disabled={permission !== "granted"} onChange={(e) => set({ browser: e.target.checked })}/>แจ้งเตือนผ่านเบราว์เซอร์
+        </label>
+        {permission === "default" && <Button variant="ghost" size="sm" onClick={askPermission}>อนุญาตการแจ้งเตือน</Button>}
+        {permission === "denied" && <span className="text-xs text-slate-500">เบราว์เซอร์ปิดการแจ้งเตือนของเว็บนี้ไว้ — เปิดได้ที่การตั้งค่าเว็บไซต์</span>}
+        {permission === "unsupported" && <span className="text-xs text-slate-500">เบราว์เซอร์นี้ไม่รองรับการแจ้งเตือน</span>}
+      </div>
+
+      {err && <div className="mb-2"><Badge tone="red">{err}</Badge></div>}
+      <div className="flex flex-wrap items-center gap-2 text-sm mb-2">
+        <span>เมื่อเกินกำหนด</span><CInput type="number" className="w-20" value={form.after_days} onChange={(v) => setForm({ ...form, after_days: v })} /><span>วัน แจ้ง</span>
+        <CInput className="w-64" value={form.label} onChange={(v) => setForm({ ...form, label: v })} />
+        <Button variant="ghost" size="sm" onClick={addStep}>เพิ่มขั้น</Button>
+      </div>
+      <div className="overflow-auto border rounded-xl">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50"><tr>{["ขั้น", "เกินกำหนด (วัน)", "แจ้ง", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+          <tbody>
+            {policy.steps.map((s, i) => (
+              <tr key={s.id} className="odd:bg-white even:bg-slate-50">
+                <td className="px-3 py-2 border-b">{i + 1}</td>
+                <td className="px-3 py-2 border-b">≥ {s.after_days}</td>
+                <td className="px-3 py-2 border-b">{s.label}</td>
+                <td className="px-3 py-2 border-b"><Button variant="ghost" size="sm" onClick={() => set({ steps: policy.steps.filter(x => x.id !== s.id) })}><Trash2 size={16}/>ลบ</Button></td>
+              </tr>
+            ))}
+            {policy.steps.length === 0 && <tr><td colSpan={4} className="px-3 py-4 text-center text-slate-500">ยังไม่มีขั้นการแจ้งเตือน</td></tr>}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-1 text-xs text-slate-500">ตรวจขณะเปิดโปรแกรมไว้ รายการหนึ่งจะแจ้งครั้งเดียวต่อหนึ่งขั้น และแจ้งอีกครั้งเมื่อเลื่อนไปขั้นถัดไป</div>
+    </div>
+  );
+}
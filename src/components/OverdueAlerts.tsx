@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from "react";
+import { Bell, CheckCheck, Copy, FileText, Printer } from "lucide-react";
+import type { BorrowRecord, OverdueAlert } from "../types";
+import type { LoanDue } from "../domain/loanPolicy";
+import { overdueByDept, reminderText } from "../domain/overdue";
+import { reminderHtml } from "../print/reminders";
+import { Badge, Button, Card } from "./ui";
+import { formatDate, openPrintWindow } from "../utils";
+
+/********** header bell: open overdue alerts **********/
+export function AlertBell({ alerts, onAck, onOpenAsset }: {
+  alerts: OverdueAlert[]; onAck: (ids: string[]) => void; onOpenAsset: (id: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(o => !o)} title="การแจ้งเตือน" className="relative p-1.5 rounded-lg border hover:bg-slate-50">
+        <Bell size={18} className={alerts.length ? "text-red-600" : "text-slate-500"}/>
+        {alerts.length > 0 && <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[11px] leading-[18px] text-center">{alerts.length}</span>}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 max-w-[90vw] z-30">
+          <Card className="p-3 shadow-lg">
+            <div className="flex items-center gap-2 mb-2">
+              <h4 className="font-semibold flex-1">การแจ้งเตือนเกินกำหนดคืน ({alerts.length})</h4>
+              {alerts.length > 0 && <Button variant="ghost" size="sm" onClick={() => onAck(alerts.map(a => a.id))}><CheckCheck size={16}/>รับทราบทั้งหมด</Button>}
+            </div>
+            <div className="max-h-96 overflow-auto space-y-2 text-sm">
+              {alerts.map(a => (
+                <div key={a.id} className="border rounded-xl p-2 flex gap-2 items-start">
+                  <div className="flex-1">
+                    <div className="flex flex-wrap items-center gap-1">
+                      <button className="font-mono text-blue-700 hover:underline" onClick={() => { setOpen(false); onOpenAsset(a.asset_id); }}>{a.asset_id}</button>
+                      <Badge tone="red">เกิน {a.days_over} วัน</Badge>
+                      <Badge tone={a.level > 1 ? "red" : "slate"}>ขั้นที่ {a.level}: {a.label}</Badge>
+                    </div>
+                    <div className="text-slate-600">{a.dept || "-"} · {a.borrower_name || "-"}</div>
+                    <div className="text-xs text-slate-400">{formatDate(a.created_at)} {new Date(a.created_at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => onAck([a.id])}>รับทราบ</Button>
+                </div>
+              ))}
+              {alerts.length === 0 && <div className="text-center text-slate-500 py-4">ไม่มีการแจ้งเตือนค้าง</div>}
+            </div>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/********** reminder letters per department (Dashboard) **********/
+export function ReminderLetters({ active, dueOf, orgName, reportLogo }: {
+  active: BorrowRecord[]; dueOf: (b: BorrowRecord) => LoanDue; orgName: string; reportLogo: string;
+}) {
+  const groups = useMemo(() => overdueByDept(active, dueOf), [active, dueOf]);
+  const [copied, setCopied] = useState("");
+  if (!groups.length) return null;
+
+  const print = (list: typeof groups) => openPrintWindow(reminderHtml(list, orgName, reportLogo));
+  const copy = async (g: (typeof groups)[number]) => {
+    try {
+      await navigator.clipboard.writeText(reminderText(g.dept, g.rows, orgName));
+      setCopied(g.dept);
+    } catch {
+      alert("คัดลอกไม่สำเร็จ — เบราว์เซอร์ไม่อนุญาตให้เข้าถึงคลิปบอร์ด");
+    }
+  };
+
+  return (
+    <Card className="mt-4">
+      <div className="flex items-center gap-2 mb-2">
+        <FileText className="text-red-600" size={18}/><h4 className="font-semibold flex-1">หนังสือติดตามการคืน ({groups.length} หน่วยงาน)</h4>
+        <Button variant="ghost" size="sm" onClick={() => print(groups)}><Printer size={16}/>พิมพ์ทุกหน่วยงาน</Button>
+      </div>
+      <div className="overflow-auto max-h-72">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50 sticky top-0"><tr>{["หน่วยงาน", "เครื่องที่เกินกำหนด", "เกินนานสุด (วัน)", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+          <tbody>
+            {groups.map(g => (
+              <tr key={g.dept} className="odd:bg-white even:bg-slate-50 align-top">
+                <td className="px-3 py-2 border-b">{g.dept}</td>
+                <td className="px-3 py-2 border-b">{g.rows.map(r => r.loan.asset_id).join(", ")}</td>
+                <td className="px-3 py-2 border-b">{g.rows[0].days_over}</td>
+                <td className="px-3 py-2 border-b">
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => print([g])}><Printer size={16}/>พิมพ์</Button>
+                    <Button variant="ghost" size="sm" onClick={() => copy(g)}><Copy size={16}/>{copied === g.dept ? "คัดลอกแล้ว" : "คัดลอกข้อความ"}</Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { ArrowDown, ArrowUp, Save, Trash2 } from "lucide-react";
+import type { Brand, Department, ReportColumn, ReportFilter, ReportPeriod, ReportStatus, ReportTemplate } from "../types";
+import { COLUMN_ORDER, DEFAULT_REPORT, GROUP_LABELS, PERIOD_LABELS, REPORT_COLUMNS, STATUS_FILTER_LABELS, newTemplate, templateDef, type ReportDef } from "../domain/report";
+import { Button } from "./ui";
+
+const select = "px-3 py-2 border rounded-xl w-full";
+const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <label className="block"><span className="block text-sm font-medium mb-1">{label}</span>{children}</label>
+);
+
+/** Columns, filters, grouping, sorting and saved templates of the Report tab. */
+export function ReportBuilder({ def, onChange, depts, brands, templates, setTemplates }: {
+  def: ReportDef; onChange: (d: ReportDef) => void; depts: Department[]; brands: Brand[];
+  templates: ReportTemplate[]; setTemplates: (v: ReportTemplate[]) => void;
+}) {
+  const [templateId, setTemplateId] = useState("");
+  const f = def.filter;
+  const setFilter = (patch: Partial<ReportFilter>) => onChange({ ...def, filter: { ...f, ...patch } });
+  const toggleColumn = (c: ReportColumn) => {
+    const on = def.columns.includes(c);
+    if (on && def.columns.length === 1) return;
+    // keep the register order so templates print the same way whatever order the boxes were ticked
+    onChange({ ...def, columns: on ? def.columns.filter(x => x !== c) : COLUMN_ORDER.filter(x => x === c || def.columns.includes(x)) });
+  };
+
+  const load = (id: string) => {
+    setTemplateId(id);
+    const t = templates.find(x => x.id === id);
+    onChange(t ? templateDef(t) : DEFAULT_REPORT);
+  };
+  const save = () => {
+    const current = templates.find(x => x.id === templateId);
+    const name = prompt("ชื่อรูปแบบรายงาน เช่น \"เกินกำหนดรายเดือนแยกหอผู้ป่วย\"", current?.name ?? "");
+    if (!name?.trim()) return;
+    const same = templates.find(x => x.name === name.trim());
+    if (same && !confirm(`มีรูปแบบชื่อ "${same.name}" แล้ว — บันทึกทับ?`)) return;
+    const t = same ? { ...same, ...def } : newTemplate(name, def);
+    setTemplates(same ? templates.map(x => x.id === same.id ? t : x) : [...templates, t]);
+    setTemplateId(t.id);
+  };
+  const remove = () => {
+    const t = templates.find(x => x.id === templateId);
+    if (!t || !confirm(`ลบรูปแบบรายงาน "${t.name}"?`)) return;
+    setTemplates(templates.filter(x => x.id !== t.id));
+    setTemplateId("");
+  };
+
+  return (
+    <div className="mb-3 space-y-3">
+      <div className="flex flex-wrap gap-2 items-end">
+        <div className="min-w-[240px]">
+          <Field label="รูปแบบรายงาน">
+            <select className={select} value={templateId} onChange={(e) => load(e.target.value)}>
+              <option value="">มาตรฐาน</option>
+              {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+          </Field>
+        </div>
+        <Button variant="ghost" onClick={save}><Save size={16}/>บันทึกรูปแบบ</Button>
+        {templateId && <Button variant="ghost" onClick={remove}><Trash2 size={16}/></Button>}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+        <Field label="ช่วงวันที่ยืม">
+          <select className={select} value={f.period} onChange={(e) => setFilter({ period: e.target.value as ReportPeriod })}>
+            {(Object.keys(PERIOD_LABELS) as ReportPeriod[]).map(p => <option key={p} value={p}>{PERIOD_LABELS[p]}</option>)}
+          </select>
+        </Field>
+        {f.period === "custom" ? (
+          <>
+            <Field label="จาก"><input type="date" className={select} value={f.from} onChange={(e) => setFilter({ from: e.target.value })} /></Field>
+            <Field label="ถึง"><input type="date" className={select} value={f.to} onChange={(e) => setFilter({ to: e.target.value })} /></Field>
+          </>
+        ) : <div className="md:col-span-2" />}
+        <Field label="สถานะ">
+          <select className={select} value={f.status} onChange={(e) => setFilter({ status: e.target.value as ReportStatus })}>
+            {(Object.keys(STATUS_FILTER_LABELS) as ReportStatus[]).map(s => <option key={s} value={s}>{STATUS_FILTER_LABELS[s]}</option>)}
+          </select>
+        </Field>
+        <Field label="แผนก">
+          <select className={select} value={f.dept} onChange={(e) => setFilter({ dept: e.target.value })}>
+            <option value="">ทั้งหมด</option>{depts.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+        </Field>
+        <Field label="ยี่ห้อ">
+          <select className={select} value={f.brand} onChange={(e) => setFilter({ brand: e.target.value })}>
+            <option value="">ทั้งหมด</option>{brands.map(b => <option key={b} value={b}>{b}</option>)}
+          </select>
+        </Field>
+        <Field label="เครื่อง (Asset ID / ชื่อ)"><input className={select} value={f.asset} onChange={(e) => setFilter({ asset: e.target.value })} /></Field>
+        <Field label="ผู้ให้ยืม"><input className={select} value={f.lender} onChange={(e) => setFilter({ lender: e.target.value })} /></Field>
+        <Field label="ผู้ยืม"><input className={select} value={f.borrower} onChange={(e) => setFilter({ borrower: e.target.value })} /></Field>
+        <Field label="จัดกลุ่มพร้อมยอดรวม">
+          <select className={select} value={def.group_by} onChange={(e) => onChange({ ...def, group_by: e.target.value as ReportDef["group_by"] })}>
+            {(Object.keys(GROUP_LABELS) as ReportDef["group_by"][]).map(g => <option key={g} value={g}>{GROUP_LABELS[g]}</option>)}
+          </select>
+        </Field>
+        <Field label="เรียงตาม">
+          <div className="flex gap-2">
+            <select className={select} value={def.sort_by} onChange={(e) => onChange({ ...def, sort_by: e.target.value as ReportColumn })}>
+              {COLUMN_ORDER.map(c => <option key={c} value={c}>{REPORT_COLUMNS[c].label}</option>)}
+            </select>
+            <Button variant="ghost" title={def.sort_desc ? "มากไปน้อย" : "น้อยไปมาก"} onClick={() => onChange({ ...def, sort_desc: !def.sort_desc })}>
+              {def.sort_desc ? <ArrowDown size={16}/> : <ArrowUp size={16}/>}
+            </Button>
+          </div>
+        </Field>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+        <span className="font-medium">คอลัมน์:</span>
+        {COLUMN_ORDER.map(c => (
+          <label key={c} className="inline-flex items-center gap-1">
+            <input type="checkbox" checked={def.columns.includes(c)} onChange={() => toggleColumn(c)} />{REPORT_COLUMNS[c].label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from "react";
+import { CalendarDays, CheckCircle2, HandPlatter, XCircle } from "lucide-react";
+import type { Asset, BorrowRecord, Department, Reservation } from "../types";
+import type { LoanDue } from "../domain/loanPolicy";
+import { conflictsFor, occupancy, openReservations, overlaps, type Busy } from "../domain/reservations";
+import { Badge, Button, Card, Text } from "./ui";
+import { addDays, formatDate, todayStr, uid } from "../utils";
+
+const EMPTY = { asset_id: "", dept: "", requester: "", start_date: "", end_date: "", note: "" };
+
+const dayLabel = (d: string) => { const x = new Date(d); return `${x.getDate()}/${x.getMonth() + 1}`; };
+
+/********** reservations: booking form, open bookings, timeline **********/
+export function Reservations({ assets, depts, borrows, reservations, dueOf, onCreate, onCancel, onConvert, onOpenAsset }: {
+  assets: Asset[]; depts: Department[]; borrows: BorrowRecord[]; reservations: Reservation[];
+  dueOf: (b: BorrowRecord) => LoanDue;
+  onCreate: (r: Reservation) => Promise<boolean>; onCancel: (id: string) => Promise<boolean>;
+  onConvert: (r: Reservation) => void; onOpenAsset?: (id: string) => void;
+}) {
+  const today = todayStr();
+  const [form, setForm] = useState(EMPTY);
+  const [err, setErr] = useState("");
+  const busy = useMemo(() => occupancy(borrows, reservations, dueOf, today), [borrows, reservations, dueOf, today]);
+  const asset = assets.find(a => a.asset_id === form.asset_id.trim());
+  const conflicts = asset && form.start_date && form.end_date ? conflictsFor(busy, { asset_id: asset.asset_id, from: form.start_date, to: form.end_date }) : [];
+  const open = useMemo(() => openReservations(reservations, today), [reservations, today]);
+  const nameOf = (id: string) => assets.find(a => a.asset_id === id)?.name ?? "";
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault(); setErr("");
+    if (!asset) return setErr("ไม่พบ Asset ID นี้");
+    if (asset.status === "retired") return setErr("เครื่องนี้ปลดระวางแล้ว");
+    if (!form.dept || !form.requester.trim() || !form.start_date || !form.end_date) return setErr("กรอกแผนก/ผู้จอง/ช่วงวันที่");
+    if (form.end_date < form.start_date) return setErr("วันสิ้นสุดต้องไม่ก่อนวันเริ่ม");
+    if (form.end_date < today) return setErr("ช่วงวันที่จองผ่านไปแล้ว");
+    if (conflicts.length) return setErr("ช่วงวันที่ชนกับรายการยืม/การจองอื่น");
+    const ok = await onCreate({
+      id: uid(), asset_id: asset.asset_id, dept: form.dept, requester: form.requester.trim(),
+      start_date: form.start_date, end_date: form.end_date, note: form.note.trim(),
+      status: "booked", borrow_id: null, created_at: new Date().toISOString(),
+    });
+    if (ok) setForm(EMPTY);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <Card>
+          <div className="flex items-center gap-2 mb-3"><CalendarDays size={18} className="text-blue-600"/><h3 className="font-semibold">จองเครื่องล่วงหน้า</h3></div>
+          {err && <div className="mb-3"><Badge tone="red">{err}</Badge></div>}
+          <form onSubmit={submit} className="space-y-3">
+            <label className="block">
+              <span className="block text-sm font-medium mb-1 text-slate-700">Asset ID *</span>
+              <input list="reservation-assets" className="w-full px-3 py-2.5 border rounded-xl" value={form.asset_id} onChange={(e) => setForm({ ...form, asset_id: e.target.value })} />
+              <datalist id="reservation-assets">
+                {assets.filter(a => a.status !== "retired").map(a => <option key={a.asset_id} value={a.asset_id}>{a.name}</option>)}
+              </datalist>
+              {asset && <span className="block text-xs text-slate-500 mt-1">{asset.name} • {asset.brand} {asset.model}</span>}
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium mb-1 text-slate-700">แผนก *</span>
+              <select className="w-full px-3 py-2.5 border rounded-xl" value={form.dept} onChange={(e) => setForm({ ...form, dept: e.target.value })}>
+                <option value="">-- เลือก --</option>
+                {depts.map(d => <option key={d} value={d}>{d}</option>)}
+              </select>
+            </label>
+            <Text label="ผู้จอง" value={form.requester} onChange={(v) => setForm({ ...form, requester: v })} required />
+            <div className="grid grid-cols-2 gap-2">
+              <Text label="ตั้งแต่" type="date" value={form.start_date} onChange={(v) => setForm({ ...form, start_date: v })} required />
+              <Text label="ถึง" type="date" value={form.end_date} onChange={(v) => setForm({ ...form, end_date: v })} required />
+            </div>
+            <Text label="หมายเหตุ (เช่น เคสผ่าตัด)" value={form.note} onChange={(v) => setForm({ ...form, note: v })} />
+            {conflicts.length > 0 && (
+              <div className="text-sm border border-red-200 bg-red-50 rounded-xl p-2 space-y-1">
+                <div className="font-medium text-red-700">ชนกับ</div>
+                {conflicts.map(c => <div key={c.ref}>{c.kind === "loan" ? "ยืมอยู่" : "จองแล้ว"} • {c.dept || "-"} ({c.who}) • {formatDate(c.from)} – {formatDate(c.to)}</div>)}
+              </div>
+            )}
+            <Button type="submit" disabled={conflicts.length > 0}><CheckCircle2 size={18}/>บันทึกการจอง</Button>
+          </form>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <h3 className="font-semibold mb-3">รายการจอง ({open.length})</h3>
+          <div className="overflow-auto max-h-96 border rounded-xl">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-50 sticky top-0"><tr>{["Asset ID", "ชื่อเครื่อง", "แผนก", "ผู้จอง", "ช่วงวันที่", "หมายเหตุ", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+              <tbody>
+                {open.map(r => {
+                  const held = conflictsFor(busy, { asset_id: r.asset_id, from: today, to: today }, r.id).some(b => b.kind === "loan");
+                  return (
+                    <tr key={r.id} className="odd:bg-white even:bg-slate-50 align-top">
+                      <td className="px-3 py-2 border-b">{onOpenAsset ? <button type="button" className="text-blue-700 hover:underline" onClick={() => onOpenAsset(r.asset_id)}>{r.asset_id}</button> : r.asset_id}</td>
+                      <td className="px-3 py-2 border-b">{nameOf(r.asset_id)}</td>
+                      <td className="px-3 py-2 border-b">{r.dept}</td>
+                      <td className="px-3 py-2 border-b">{r.requester}</td>
+                      <td className="px-3 py-2 border-b whitespace-nowrap">{formatDate(r.start_date)} – {formatDate(r.end_date)}</td>
+                      <td className="px-3 py-2 border-b">{r.note || "-"}</td>
+                      <td className="px-3 py-2 border-b">
+                        <div className="flex gap-2">
+                          <Button variant="success" size="sm" disabled={held} title={held ? "เครื่องยังถูกยืมอยู่" : ""} onClick={() => onConvert(r)}><HandPlatter size={16}/>รับเครื่อง</Button>
+                          <Button variant="ghost" size="sm" onClick={() => confirm("ยกเลิกการจองนี้?") && onCancel(r.id)}><XCircle size={16}/>ยกเลิก</Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {open.length === 0 && <tr><td colSpan={7} className="px-3 py-6 text-center text-slate-500">ไม่มีการจอง</td></tr>}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      </div>
+
+      <BookingTimeline assets={assets} depts={depts} busy={busy} onOpenAsset={onOpenAsset} />
+    </div>
+  );
+}
+
+/** Day grid of loans and bookings, one row per asset or per department. */
+function BookingTimeline({ assets, depts, busy, onOpenAsset }: {
+  assets: Asset[]; depts: Department[]; busy: Busy[]; onOpenAsset?: (id: string) => void;
+}) {
+  const [from, setFrom] = useState(todayStr());
+  const [span, setSpan] = useState(14);
+  const [by, setBy] = useState<"asset" | "dept">("asset");
+  const [dept, setDept] = useState("");
+  const days = useMemo(() => Array.from({ length: span }, (_, i) => addDays(from || todayStr(), i)), [from, span]);
+  const shown = busy.filter(b => (!dept || b.dept === dept) && overlaps(b, { from: days[0], to: days[days.length - 1] }));
+  const rows = by === "asset"
+    ? [...new Set(shown.map(b => b.asset_id))].map(id => ({ key: id, label: id, sub: assets.find(a => a.asset_id === id)?.name ?? "", items: shown.filter(b => b.asset_id === id) }))
+    : (dept ? [dept] : depts).map(d => ({ key: d, label: d, sub: "", items: shown.filter(b => b.dept === d) })).filter(r => r.items.length);
+
+  const cell = (items: Busy[], day: string) => {
+    const on = items.filter(b => b.from <= day && day <= b.to);
+    if (!on.length) return <td key={day} className="border-b border-l h-8" />;
+    const loan = on.some(b => b.kind === "loan");
+    const title = on.map(b => `${b.kind === "loan" ? "ยืม" : "จอง"} ${b.asset_id} • ${b.dept || "-"} (${b.who})`).join("\n");
+    return (
+      <td key={day} title={title} className={"border-b border-l h-8 text-center text-xs text-white " + (loan ? "bg-red-400" : "bg-blue-400")}>
+        {by === "dept" ? on.length : ""}
+      </td>
+    );
+  };
+
+  return (
+    <Card>
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <CalendarDays size={18} className="text-blue-600"/><h3 className="font-semibold mr-2">ตารางการใช้เครื่อง</h3>
+        <select className="px-2 py-1 border rounded" value={by} onChange={(e) => setBy(e.target.value as "asset" | "dept")}>
+          <option value="asset">ตามเครื่อง</option>
+          <option value="dept">ตามแผนก</option>
+        </select>
+        <select className="px-2 py-1 border rounded" value={dept} onChange={(e) => setDept(e.target.value)}>
+          <option value="">ทุกแผนก</option>
+          {depts.map(d => <option key={d} value={d}>{d}</option>)}
+        </select>
+        <input type="date" className="px-2 py-1 border rounded" value={from} onChange={(e) => setFrom(e.target.value)} />
+        <select className="px-2 py-1 border rounded" value={span} onChange={(e) => setSpan(Number(e.target.value))}>
+          {[7, 14, 28].map(n => <option key={n} value={n}>{n} วัน</option>)}
+        </select>
+        <span className="ml-auto inline-flex items-center gap-3 text-xs">
+          <span className="inline-flex items-center gap-1"><span className="w-3 h-3 rounded bg-red-400" />ยืมอยู่</span>
+          <span className="inline-flex items-center gap-1"><span className="w-3 h-3 rounded bg-blue-400" />จอง</span>
+        </span>
+      </div>
+      <div className="overflow-auto border rounded-xl">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="text-left px-3 py-2 border-b min-w-[10rem]">{by === "asset" ? "เครื่อง" : "แผนก"}</th>
+              {days.map(d => <th key={d} className={"px-1 py-2 border-b border-l text-xs font-normal " + (d === todayStr() ? "bg-blue-50 font-semibold" : "")}>{dayLabel(d)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(r => (
+              <tr key={r.key}>
+                <td className="px-3 py-1 border-b">
+                  {by === "asset" && onOpenAsset ? <button type="button" className="text-blue-700 hover:underline" onClick={() => onOpenAsset(r.key)}>{r.label}</button> : r.label}
+                  {r.sub && <div className="text-xs text-slate-500">{r.sub}</div>}
+                </td>
+                {days.map(d => cell(r.items, d))}
+              </tr>
+            ))}
+            {rows.length === 0 && <tr><td colSpan={days.length + 1} className="px-3 py-6 text-center text-slate-500">ไม่มีการยืมหรือจองในช่วงนี้</td></tr>}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from "react";
+import { CheckCircle2, ClipboardCheck, X } from "lucide-react";
+import type { Asset, AssetStatus, BorrowRecord, ReturnCondition, ReturnInspection } from "../types";
+import { CONDITIONS, CONDITION_LABELS, RETURN_STATUSES, peripheralItems, suggestedStatus } from "../domain/inspection";
+import { STATUS_LABELS } from "../domain/assetStatus";
+import { Badge, Button, CInput, Card, SignaturePad, Text } from "./ui";
+import { formatDate } from "../utils";
+
+/** A loan closed by the dialog together with what was found on return. */
+export type ReturnedLoan = { id: string; inspection: ReturnInspection };
+
+type Draft = { back: boolean[]; condition: ReturnCondition; notes: string; moved_to: AssetStatus | "" };
+
+/********** return inspection dialog (one or more loans, one receiver) **********/
+export function ReturnDialog({ loans, assets, receiverName, onConfirm, onClose }: {
+  loans: BorrowRecord[]; assets: Asset[]; receiverName?: string;
+  onConfirm: (items: ReturnedLoan[], receiverSign: string) => Promise<boolean>; onClose: () => void;
+}) {
+  const [drafts, setDrafts] = useState<Draft[]>(() => loans.map(b => ({ back: peripheralItems(b.peripherals).map(() => true), condition: "good", notes: "", moved_to: "" })));
+  const [receiver, setReceiver] = useState(receiverName ?? "");
+  const [sign, setSign] = useState<string | null>(null);
+  const [err, setErr] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const patch = (i: number, p: Partial<Draft>) => setDrafts(ds => ds.map((d, j) => j === i ? { ...d, ...p } : d));
+  const setCondition = (i: number, condition: ReturnCondition) => patch(i, { condition, moved_to: suggestedStatus(condition) ?? "" });
+
+  const submit = async () => {
+    setErr("");
+    if (!receiver.trim()) return setErr("กรอกชื่อผู้รับคืน");
+    if (!sign) return setErr("กรุณาเซ็นชื่อผู้รับคืน");
+    const items: ReturnedLoan[] = loans.map((b, i) => {
+      const d = drafts[i];
+      return {
+        id: b.id,
+        inspection: {
+          received_by: receiver.trim(), condition: d.condition, notes: d.notes.trim(),
+          missing: peripheralItems(b.peripherals).filter((_, k) => !d.back[k]),
+          moved_to: d.moved_to || null,
+        },
+      };
+    });
+    setBusy(true);
+    const ok = await onConfirm(items, sign);
+    setBusy(false);
+    if (ok) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className="w-full max-w-2xl max-h-[90vh] overflow-auto">
+        <Card>
+          <div className="flex items-center gap-2 mb-3">
+            <ClipboardCheck size={18} className="text-blue-600"/><h3 className="font-semibold">ตรวจรับคืน {loans.length > 1 ? `(${loans.length} เครื่อง)` : ""}</h3>
+            <button className="ml-auto p-1 rounded hover:bg-slate-100" onClick={onClose} aria-label="ปิด"><X size={18}/></button>
+          </div>
+          {err && <div className="mb-3"><Badge tone="red">{err}</Badge></div>}
+          <div className="space-y-3">
+            {loans.map((b, i) => {
+              const d = drafts[i];
+              const items = peripheralItems(b.peripherals);
+              const asset = assets.find(a => a.asset_id === b.asset_id);
+              return (
+                <div key={b.id} className="border rounded-xl p-3 text-sm">
+                  <div className="font-medium">{b.asset_id} • {b.asset_name}</div>
+                  <div className="text-slate-600 mb-2">ยืมโดย {b.borrower_name} ({b.borrower_dept || "-"}) ตั้งแต่ {formatDate(b.start_date)}</div>
+                  {items.length > 0 && (
+                    <div className="mb-2">
+                      <div className="text-slate-700 mb-1">อุปกรณ์ต่อพ่วงที่ได้รับคืน</div>
+                      <div className="flex flex-wrap gap-x-4 gap-y-1">
+                        {items.map((it, k) => (
+                          <label key={k} className={"inline-flex items-center gap-1 " + (d.back[k] ? "" : "text-red-700")}>
+                            <input type="checkbox" checked={d.back[k]} onChange={() => patch(i, { back: d.back.map((v, j) => j === k ? !v : v) })} />{it}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    <label className="block">
+                      <span className="block text-slate-700 mb-1">สภาพเครื่อง</span>
+                      <select className="w-full px-3 py-2 border rounded-xl" value={d.condition} onChange={(e) => setCondition(i, e.target.value as ReturnCondition)}>
+                        {CONDITIONS.map(c => <option key={c} value={c}>{CONDITION_LABELS[c]}</option>)}
+                      </select>
+                    </label>
+                    <label className="block">
+                      <span className="block text-slate-700 mb-1">หลังรับคืน</span>
+                      <select className="w-full px-3 py-2 border rounded-xl" value={d.moved_to} onChange={(e) => patch(i, { moved_to: e.target.value as AssetStatus | "" })}>
+                        <option value="">{asset && asset.status !== "in_service" ? `คงสถานะ ${STATUS_LABELS[asset.status]}` : "พร้อมให้ยืมต่อ"}</option>
+                        {RETURN_STATUSES.map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+                      </select>
+                    </label>
+                    <label className="block md:col-span-2">
+                      <span className="block text-slate-700 mb-1">บันทึกเพิ่มเติม</span>
+                      <CInput className="w-full" value={d.notes} onChange={(v) => patch(i, { notes: v })} />
+                    </label>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="mt-3 grid grid-cols-1 gap-3">
+            <Text label="ชื่อผู้รับคืน" value={receiver} onChange={setReceiver} required readOnly={!!receiverName} />
+            <SignaturePad value={sign} onChange={setSign} label="ลงลายเซ็นผู้รับคืน (เมาส์/นิ้ว)" />
+          </div>
+          <div className="mt-3 flex gap-2 justify-end">
+            <Button variant="ghost" onClick={onClose}>ยกเลิก</Button>
+            <Button variant="success" disabled={busy} onClick={submit}><CheckCircle2 size={18}/>ยืนยันรับคืน</Button>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ScanLine, X } from "lucide-react";
+import { Badge, Button, Card } from "./ui";
+
+const FORMATS = ["qr_code", "code_128", "code_39", "ean_13", "ean_8", "data_matrix"];
+
+/**
+ * Reads codes from the device camera. Uses the native BarcodeDetector when the browser has
+ * one, otherwise decodes QR codes from video frames with jsQR (loaded on first use).
+ */
+function useCameraScanner(videoRef: React.RefObject<HTMLVideoElement>, onDetect: (code: string) => void) {
+  const [error, setError] = useState("");
+  const [engine, setEngine] = useState("");
+  const cb = useRef(onDetect);
+  cb.current = onDetect;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer = 0;
+    let stopped = false;
+    (async () => {
+      try {
+        if (!navigator.mediaDevices?.getUserMedia) throw new Error("เบราว์เซอร์นี้ไม่รองรับกล้อง (ต้องเปิดผ่าน https หรือ localhost)");
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" }, audio: false });
+        const video = videoRef.current;
+        if (stopped || !video) return;
+        video.srcObject = stream;
+        await video.play();
+
+        let detect: () => Promise<string | null>;
+        const Native = (window as any).BarcodeDetector;
+        if (Native) {
+          const supported: string[] = (await Native.getSupportedFormats?.()) ?? FORMATS;
+          const detector = new Native({ formats: FORMATS.filter(f => supported.includes(f)) });
+          detect = async () => (await detector.detect(video))[0]?.rawValue ?? null;
+          setEngine("BarcodeDetector");
+        } else {
+          const jsQR = (await import("jsqr")).default;
+          const canvas = document.createElement("canvas");
+          const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+          detect = async () => {
+            const w = video.videoWidth, h = video.videoHeight;
+            if (!w || !h) return null;
+            canvas.width = w; canvas.height = h;
+            ctx.drawImage(video, 0, 0, w, h);
+            return jsQR(ctx.getImageData(0, 0, w, h).data, w, h)?.data ?? null;
+          };
+          setEngine("jsQR");
+        }
+
+        const tick = async () => {
+          if (stopped) return;
+          try {
+            const code = await detect();
+            if (code && !stopped) { cb.current(code); return; }
+          } catch {}
+          timer = window.setTimeout(tick, 200);
+        };
+        tick();
+      } catch (e: any) {
+        setError(e?.name === "NotAllowedError" ? "ไม่ได้รับอนุญาตให้ใช้กล้อง" : (e?.message || String(e)));
+      }
+    })();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [videoRef]);
+
+  return { error, engine };
+}
+
+/********** scanner dialog **********/
+export function ScannerDialog({ title = "สแกน QR / บาร์โค้ด", onDetect, onClose }: {
+  title?: string; onDetect: (code: string) => void; onClose: () => void;
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [manual, setManual] = useState("");
+  const { error, engine } = useCameraScanner(videoRef, onDetect);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className="w-full max-w-md">
+        <Card>
+          <div className="flex items-center gap-2 mb-3">
+            <ScanLine size={18} className="text-blue-600"/><h3 className="font-semibold">{title}</h3>
+            <button className="ml-auto p-1 rounded hover:bg-slate-100" onClick={onClose} aria-label="ปิด"><X size={18}/></button>
+          </div>
+          <div className="relative rounded-xl overflow-hidden bg-black aspect-[4/3]">
+            <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+            <div className="absolute inset-8 border-2 border-white/70 rounded-xl pointer-events-none" />
+          </div>
+          <div className="mt-2 text-xs text-slate-500 flex items-center gap-2">
+            {error ? <Badge tone="red">{error}</Badge> : <span>เล็งกล้องไปที่ป้ายของเครื่อง{engine && ` • ${engine}`}</span>}
+          </div>
+          <form className="mt-3 flex gap-2" onSubmit={(e) => { e.preventDefault(); if (manual.trim()) onDetect(manual.trim()); }}>
+            <input className="flex-1 px-3 py-2 border rounded-xl" placeholder="หรือพิมพ์ / ใช้เครื่องสแกน USB" value={manual} onChange={(e) => setManual(e.target.value)} autoFocus />
+            <Button size="sm" type="submit">ตกลง</Button>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { useState } from "react";
+import { KeyRound, UserPlus, Users } from "lucide-react";
+import type { StaffAccount, StaffRole } from "../types";
+import { PERMISSION_LABELS, PIN_PATTERN, ROLES, ROLE_LABELS, ROLE_PERMISSIONS, hasPin, hashPin, isLastAdmin, isSecured, newSalt } from "../domain/staff";
+import { Badge, Button, CInput, Text } from "./ui";
+import { formatDate, uid } from "../utils";
+
+/********** staff accounts (Settings) **********/
+export function StaffSettings({ staff, currentId, lockMinutes, setLockMinutes, onSave }: {
+  staff: StaffAccount[]; currentId: string | null;
+  lockMinutes: number; setLockMinutes: (v: number) => void;
+  onSave: (account: StaffAccount) => Promise<boolean>;
+}) {
+  const secured = isSecured(staff);
+  const [form, setForm] = useState({ name: "", role: "nurse" as StaffRole, pin: "", pin2: "" });
+  const [err, setErr] = useState("");
+  const [pinFor, setPinFor] = useState<string | null>(null);
+  const [newPin, setNewPin] = useState({ pin: "", pin2: "" });
+  const role = secured ? form.role : "admin"; // the first account manages the others
+
+  const pinError = (pin: string, pin2: string) =>
+    !PIN_PATTERN.test(pin) ? "PIN ต้องเป็นตัวเลข 4–8 หลัก" : pin !== pin2 ? "PIN ทั้งสองช่องไม่ตรงกัน" : "";
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault(); setErr("");
+    const name = form.name.trim();
+    if (!name) return setErr("กรอกชื่อผู้ใช้งาน");
+    if (staff.some(s => s.name === name)) return setErr("มีชื่อนี้แล้ว");
+    const bad = pinError(form.pin, form.pin2);
+    if (bad) return setErr(bad);
+    const salt = newSalt();
+    const ok = await onSave({ id: uid(), name, role, pin_hash: await hashPin(form.pin, salt), salt, active: true, created_at: new Date().toISOString() });
+    if (ok) setForm({ name: "", role: "nurse", pin: "", pin2: "" });
+  };
+
+  const setRole = (s: StaffAccount, r: StaffRole) => {
+    if (r !== "admin" && isLastAdmin(staff, s.id)) return alert("ต้องมีผู้ดูแลระบบที่ใช้งานอยู่อย่างน้อย 1 บัญชี");
+    onSave({ ...s, role: r });
+  };
+  const toggleActive = (s: StaffAccount) => {
+    if (s.active && isLastAdmin(staff, s.id)) return alert("ต้องมีผู้ดูแลระบบที่ใช้งานอยู่อย่างน้อย 1 บัญชี");
+    if (s.active && s.id === currentId) return alert("ปิดบัญชีที่กำลังใช้งานอยู่ไม่ได้");
+    onSave({ ...s, active: !s.active });
+  };
+  const savePin = async (s: StaffAccount) => {
+    const bad = pinError(newPin.pin, newPin.pin2);
+    if (bad) return alert(bad);
+    const salt = newSalt();
+    if (await onSave({ ...s, salt, pin_hash: await hashPin(newPin.pin, salt) })) { setPinFor(null); setNewPin({ pin: "", pin2: "" }); }
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center gap-2 mb-2"><Users size={18} className="text-blue-600"/><h4 className="font-semibold">บัญชีผู้ใช้งาน ({staff.length})</h4></div>
+      {!secured && <div className="text-sm text-slate-500 mb-2">ยังไม่มีบัญชีผู้ใช้ ทุกคนที่เปิดหน้านี้ใช้งานได้ทุกเมนู — บัญชีแรกจะเป็นผู้ดูแลระบบ และหลังจากนั้นต้องเข้าสู่ระบบด้วย PIN</div>}
+      {err && <div className="mb-2"><Badge tone="red">{err}</Badge></div>}
+      <form onSubmit={add} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end mb-3">
+        <Text label="ชื่อ" value={form.name} onChange={(v) => setForm({ ...form, name: v })} required />
+        <label className="block">
+          <span className="block text-sm font-medium mb-1 text-slate-700">บทบาท</span>
+          <select className="w-full px-3 py-2.5 border rounded-xl" value={role} disabled={!secured} onChange={(e) => setForm({ ...form, role: e.target.value as StaffRole })}>
+            {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+          </select>
+        </label>
+        <Text label="PIN" type="password" value={form.pin} onChange={(v) => setForm({ ...form, pin: v })} required />
+        <Text label="ยืนยัน PIN" type="password" value={form.pin2} onChange={(v) => setForm({ ...form, pin2: v })} required />
+        <Button type="submit"><UserPlus size={18}/>เพิ่มบัญชี</Button>
+      </form>
+
+      {staff.length > 0 && (
+        <div className="overflow-auto max-h-72 border rounded-xl mb-3">
+          <table className="min-w-full text-sm">
+            <thead className="bg-slate-50 sticky top-0"><tr>{["ชื่อ", "บทบาท", "สร้างเมื่อ", "สถานะ", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+            <tbody>
+              {staff.map(s => (
+                <tr key={s.id} className="odd:bg-white even:bg-slate-50 align-top">
+                  <td className="px-3 py-2 border-b">{s.name} {s.id === currentId && <Badge tone="blue">กำลังใช้งาน</Badge>}</td>
+                  <td className="px-3 py-2 border-b">
+                    <select className="px-2 py-1 border rounded" value={s.role} onChange={(e) => setRole(s, e.target.value as StaffRole)}>
+                      {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2 border-b">{formatDate(s.created_at)}</td>
+                  <td className="px-3 py-2 border-b">{s.active ? <Badge tone="green">ใช้งาน</Badge> : <Badge>ปิดใช้งาน</Badge>} {!hasPin(s) && <Badge tone="red">ยังไม่ตั้ง PIN ในเครื่องนี้</Badge>}</td>
+                  <td className="px-3 py-2 border-b">
+                    {pinFor === s.id ? (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span>PIN ใหม่</span><CInput type="password" className="w-24" value={newPin.pin} onChange={(v) => setNewPin({ ...newPin, pin: v })} />
+                        <span>ยืนยัน</span><CInput type="password" className="w-24" value={newPin.pin2} onChange={(v) => setNewPin({ ...newPin, pin2: v })} />
+                        <Button variant="success" size="sm" onClick={() => savePin(s)}>บันทึก</Button>
+                        <Button variant="ghost" size="sm" onClick={() => setPinFor(null)}>ยกเลิก</Button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => { setPinFor(s.id); setNewPin({ pin: "", pin2: "" }); }}><KeyRound size={16}/>ตั้ง PIN ใหม่</Button>
+                        <Button variant="ghost" size="sm" onClick={() => toggleActive(s)}>{s.active ? "ปิดใช้งาน" : "เปิดใช้งาน"}</Button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span>ล็อกหน้าจออัตโนมัติเมื่อไม่มีการใช้งาน</span>
+        <CInput type="number" className="w-20" value={lockMinutes} onChange={(v) => { const n = Number(v); if (v !== "" && Number.isInteger(n) && n >= 0) setLockMinutes(n); }} />
+        <span>นาที (0 = ไม่ล็อก)</span>
+      </div>
+      <div className="mt-2 text-xs text-slate-500 space-y-0.5">
+        {ROLES.map(r => <div key={r}><b>{ROLE_LABELS[r]}</b>: {ROLE_PERMISSIONS[r].map(p => PERMISSION_LABELS[p]).join(", ") || "ดูข้อมูลเท่านั้น"}</div>)}
+      </div>
+    </div>
+  );
+}
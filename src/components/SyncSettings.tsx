@@ -0,0 +1,118 @@
+import React, { useState } from "react";
+import { AlertTriangle, Cloud, CloudOff, RefreshCw, Server } from "lucide-react";
+import type { SyncConfig } from "../storage/dataSource";
+import { connectSync, disconnectSync, getSyncConfig, syncNow, testSync } from "../storage/sync";
+import { useSyncStatus } from "../hooks/useSyncStatus";
+import { Badge, Button, Text } from "./ui";
+import { formatDate } from "../utils";
+
+/**
+ * Settings that stay in each browser: only pool records travel through the server.
+ * Due dates, fees and reminders are computed from these, so every device must match.
+ */
+const PER_DEVICE = [
+  "นโยบายการยืม (กำหนดคืน)",
+  "การแจ้งเตือน ช่องทางส่ง และข้อความแจ้งเตือน",
+  "นโยบายค่าใช้จ่าย",
+  "ชื่อหน่วยงาน โลโก้ และแม่แบบรายงาน",
+  "เวลาล็อกหน้าจอ และ PIN ของผู้ใช้",
+];
+
+const time = (iso: string) => `${formatDate(iso)} ${new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+
+/** Header chip: only shown while a server is configured. */
+export function SyncBadge() {
+  const s = useSyncStatus();
+  if (s.mode === "local") return null;
+  const title = s.error ?? (s.last ? `ซิงก์ล่าสุด ${time(s.last)}` : "ยังไม่ได้ซิงก์");
+  return (
+    <button onClick={() => syncNow()} title={title} className="inline-flex">
+      {!s.online
+        ? <Badge tone="red"><CloudOff size={14} className="mr-1"/>ออฟไลน์{s.pending > 0 && ` · รอส่ง ${s.pending}`}</Badge>
+        : s.error
+          ? <Badge tone="red"><Cloud size={14} className="mr-1"/>ซิงก์ไม่สำเร็จ</Badge>
+          : <Badge tone={s.pending ? "blue" : "green"}><Cloud size={14} className="mr-1"/>{s.syncing ? "กำลังซิงก์" : s.pending ? `รอส่ง ${s.pending}` : "ซิงก์แล้ว"}</Badge>}
+    </button>
+  );
+}
+
+function PerDeviceNote() {
+  return (
+    <div className="rounded-xl border border-red-200 bg-red-50/80 text-red-800 p-3 flex gap-2">
+      <AlertTriangle size={18} className="shrink-0 mt-0.5"/>
+      <div>
+        การตั้งค่าต่อไปนี้ไม่ซิงก์ผ่านเซิร์ฟเวอร์ ต้องตั้งให้ตรงกันในทุกเครื่อง มิฉะนั้นกำหนดคืน ค่าใช้จ่าย และการแจ้งเตือนจะต่างกันในแต่ละจุด:
+        <ul className="list-disc ml-5">{PER_DEVICE.map((x) => <li key={x}>{x}</li>)}</ul>
+      </div>
+    </div>
+  );
+}
+
+/********** shared server (Settings) **********/
+export function SyncSettings() {
+  const s = useSyncStatus();
+  const [form, setForm] = useState<SyncConfig>(() => ({ ...getSyncConfig(), mode: "rest" }));
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState("");
+
+  const connect = async () => {
+    if (!/^https?:\/\//.test(form.url.trim())) return setMsg("ระบุที่อยู่เซิร์ฟเวอร์ เช่น http://192.168.1.10:8787");
+    if (!form.token.trim()) return setMsg("ระบุรหัสเข้าถึงที่ตั้งไว้บนเซิร์ฟเวอร์ (POOL_TOKEN)");
+    const cfg: SyncConfig = { mode: "rest", url: form.url.trim(), token: form.token.trim() };
+    setBusy(true); setMsg("");
+    try {
+      const info = await testSync(cfg);
+      const start = info.records === 0 ? "upload" : "download";
+      const ok = start === "upload"
+        ? confirm("เซิร์ฟเวอร์ยังไม่มีข้อมูล — ส่งข้อมูลในเครื่องนี้ขึ้นไปเป็นชุดตั้งต้น?")
+        : confirm(`เซิร์ฟเวอร์มีข้อมูลแล้ว ${info.records} รายการ — ข้อมูลในเครื่องนี้จะถูกแทนที่ด้วยข้อมูลจากเซิร์ฟเวอร์ (ควรดาวน์โหลดไฟล์สำรองก่อน) ดำเนินการต่อ?`);
+      if (ok) await connectSync(cfg, start);
+    } catch (e: any) {
+      setMsg(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+  const disconnect = () => {
+    const warn = s.pending ? `ยังมี ${s.pending} รายการที่ยังไม่ได้ส่งขึ้นเซิร์ฟเวอร์ และจะอยู่ในเครื่องนี้เท่านั้น — ` : "";
+    if (confirm(`${warn}เลิกเชื่อมต่อและกลับไปเก็บข้อมูลในเครื่องนี้อย่างเดียว?`)) disconnectSync();
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center gap-2 mb-2"><Server size={18} className="text-blue-600"/><h4 className="font-semibold">เซิร์ฟเวอร์กลาง (ใช้ข้อมูลชุดเดียวกันหลายจุด)</h4></div>
+      {s.mode === "local" ? (
+        <>
+          <div className="text-sm text-slate-500 mb-2">
+            ตอนนี้ข้อมูลเก็บในเบราว์เซอร์นี้เท่านั้น — เชื่อมต่อเซิร์ฟเวอร์ในเครือข่ายโรงพยาบาล (<code>POOL_TOKEN=… npm run server</code>) เพื่อให้จุดให้ยืมและหอผู้ป่วยเห็นข้อมูลเดียวกัน
+          </div>
+          <div className="text-sm mb-2"><PerDeviceNote /></div>
+          {msg && <div className="mb-2"><Badge tone="red">{msg}</Badge></div>}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+            <Text label="ที่อยู่เซิร์ฟเวอร์" value={form.url} onChange={(v) => setForm({ ...form, url: v })} placeholder="http://192.168.1.10:8787" />
+            <Text label="รหัสเข้าถึง" type="password" value={form.token} onChange={(v) => setForm({ ...form, token: v })} />
+            <Button onClick={connect} disabled={busy}><Cloud size={18}/>{busy ? "กำลังเชื่อมต่อ…" : "เชื่อมต่อ"}</Button>
+          </div>
+        </>
+      ) : (
+        <div className="text-sm space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span>เชื่อมต่อกับ <code>{getSyncConfig().url}</code></span>
+            <SyncBadge />
+            {s.last && <span className="text-slate-500">ซิงก์ล่าสุด {time(s.last)}</span>}
+          </div>
+          {s.error && <div><Badge tone="red">{s.error}</Badge></div>}
+          <div className="text-slate-500">
+            ระหว่างออฟไลน์ยังบันทึกได้ตามปกติ รายการจะถูกส่งเมื่อเชื่อมต่อได้อีกครั้ง — ถ้ามีผู้อื่นแก้รายการเดียวกันก่อน ระบบรวมการแก้ไขให้ และถ้าแก้ช่องเดียวกันจะใช้ค่าบนเซิร์ฟเวอร์ โดยเก็บฉบับของเครื่องนี้ไว้ในข้อมูลที่แยกเก็บ
+            บัญชีผู้ใช้ส่งขึ้นเซิร์ฟเวอร์ได้เฉพาะจากเครื่องที่ใช้รหัสผู้ดูแล (POOL_ADMIN_TOKEN) และ PIN ไม่ถูกส่งไปกับบัญชี — ต้องตั้ง PIN ในแต่ละเครื่อง
+          </div>
+          <PerDeviceNote />
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => syncNow()} disabled={s.syncing}><RefreshCw size={16}/>ซิงก์ตอนนี้</Button>
+            <Button variant="ghost" size="sm" onClick={disconnect}><CloudOff size={16}/>เลิกเชื่อมต่อ</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
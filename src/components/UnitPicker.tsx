@@ -0,0 +1,81 @@
+import React, { useMemo, useState } from "react";
+import { Sparkles } from "lucide-react";
+import type { Asset, BorrowRecord, ServicePlan, ServiceRecord } from "../types";
+import { deviceTypes, matchesType, typeLabel } from "../domain/waitlist";
+import { STRATEGY_LABELS, suggestUnits, type SuggestStrategy } from "../domain/suggest";
+import { Badge } from "./ui";
+
+const fmtDays = (n: number) => (n === Infinity ? "-" : `${n} วัน`);
+const pmText = (n: number) => (n === Infinity ? "ไม่มีรอบ" : n < 0 ? "เลยกำหนด" : `อีก ${n} วัน`);
+
+/********** borrow: pick by device type, with a suggested unit **********/
+export function UnitPicker({ assets, borrows, activeIds, servicePlans, serviceLog, selected, onPick }: {
+  assets: Asset[]; borrows: BorrowRecord[]; activeIds: string[];
+  servicePlans: ServicePlan[]; serviceLog: ServiceRecord[];
+  selected: string; onPick: (assetId: string) => void;
+}) {
+  const [kw, setKw] = useState("");
+  const [typeKey, setTypeKey] = useState("");
+  const [strategy, setStrategy] = useState<SuggestStrategy>("least_used");
+
+  const types = useMemo(() => deviceTypes(assets).map(t => {
+    const units = assets.filter(a => a.status !== "retired" && matchesType(t, a));
+    return { ...t, total: units.length, free: units.filter(a => a.status === "in_service" && !activeIds.includes(a.asset_id)).length };
+  }), [assets, activeIds]);
+  const found = useMemo(() => {
+    const k = kw.trim().toLowerCase();
+    return k ? types.filter(t => `${t.name} ${t.brand} ${t.model}`.toLowerCase().includes(k)) : types;
+  }, [types, kw]);
+  const type = types.find(t => t.key === typeKey);
+  const units = useMemo(
+    () => type ? suggestUnits(type, assets, borrows, activeIds, servicePlans, serviceLog, strategy) : [],
+    [type, assets, borrows, activeIds, servicePlans, serviceLog, strategy]
+  );
+
+  const chooseType = (key: string) => {
+    setTypeKey(key);
+    const t = types.find(x => x.key === key);
+    const best = t && suggestUnits(t, assets, borrows, activeIds, servicePlans, serviceLog, strategy)[0];
+    if (best) onPick(best.asset.asset_id);
+  };
+
+  return (
+    <div className="mt-4 border-t pt-3 text-sm">
+      <div className="font-medium mb-2">หรือเลือกตามประเภทเครื่อง</div>
+      <input className="w-full px-3 py-2 border rounded-xl mb-2" placeholder="ค้นหาชื่อ / ยี่ห้อ / รุ่น" value={kw} onChange={(e) => setKw(e.target.value)} />
+      <div className="max-h-40 overflow-auto border rounded-xl divide-y">
+        {found.map(t => (
+          <button key={t.key} type="button" onClick={() => chooseType(t.key)}
+            className={"w-full text-left px-3 py-2 flex items-center gap-2 " + (t.key === typeKey ? "bg-blue-50" : "hover:bg-slate-50")}>
+            <span className="flex-1">{typeLabel(t)}</span>
+            <Badge tone={t.free ? "green" : "red"}>ว่าง {t.free}/{t.total}</Badge>
+          </button>
+        ))}
+        {found.length === 0 && <div className="px-3 py-3 text-slate-500">ไม่พบประเภทเครื่อง</div>}
+      </div>
+
+      {type && (
+        <div className="mt-3">
+          <label className="flex items-center gap-2 mb-2">
+            <span className="text-slate-600">แนะนำตาม</span>
+            <select className="px-2 py-1 border rounded" value={strategy} onChange={(e) => setStrategy(e.target.value as SuggestStrategy)}>
+              {(Object.keys(STRATEGY_LABELS) as SuggestStrategy[]).map(s => <option key={s} value={s}>{STRATEGY_LABELS[s]}</option>)}
+            </select>
+          </label>
+          {units.length === 0 && <div className="text-slate-500">ไม่มีเครื่องว่างของประเภทนี้ — เข้าคิวรอได้ด้านล่าง</div>}
+          <div className="space-y-1">
+            {units.map((u, i) => (
+              <label key={u.asset.asset_id} className={"flex items-start gap-2 border rounded-xl px-3 py-2 cursor-pointer " + (u.asset.asset_id === selected ? "border-blue-400 bg-blue-50" : "hover:bg-slate-50")}>
+                <input type="radio" className="mt-1" checked={u.asset.asset_id === selected} onChange={() => onPick(u.asset.asset_id)} />
+                <div className="flex-1">
+                  <div className="font-medium flex items-center gap-2">{u.asset.asset_id}{i === 0 && <Badge tone="blue"><Sparkles size={12} className="inline"/> แนะนำ</Badge>}</div>
+                  <div className="text-xs text-slate-500">ยืม {u.loans} ครั้ง / {u.usedDays} วัน • ว่างมา {fmtDays(u.idleDays)} • PM {pmText(u.pmDays)}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
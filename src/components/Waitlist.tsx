@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { CheckCircle2, ListOrdered, XCircle } from "lucide-react";
+import type { Asset, Department, WaitlistEntry } from "../types";
+import { PRIORITIES, PRIORITY_LABELS, deviceTypes, matchesType, typeKey, typeLabel, waitingQueue } from "../domain/waitlist";
+import { Badge, Button, Card, Text } from "./ui";
+import { formatDate, uid } from "../utils";
+
+const PRIORITY_TONE: Record<WaitlistEntry["priority"], "red" | "blue" | "slate"> = { urgent: "red", high: "blue", normal: "slate" };
+
+export const PriorityBadge = ({ p }: { p: WaitlistEntry["priority"] }) => <Badge tone={PRIORITY_TONE[p]}>{PRIORITY_LABELS[p]}</Badge>;
+
+/********** waitlist: requests for a device type **********/
+export function Waitlist({ assets, depts, waitlist, activeIds, draftFrom, onAdd, onCancel }: {
+  assets: Asset[]; depts: Department[]; waitlist: WaitlistEntry[]; activeIds: string[];
+  /** asset whose type should be preselected, e.g. a unit that turned out to be on loan */
+  draftFrom?: Asset | null;
+  onAdd: (w: WaitlistEntry) => Promise<boolean>; onCancel: (id: string) => Promise<boolean>;
+}) {
+  const types = useMemo(() => deviceTypes(assets), [assets]);
+  const queue = useMemo(() => waitingQueue(waitlist), [waitlist]);
+  const [form, setForm] = useState({ type: "", dept: "", requester: "", priority: "normal" as WaitlistEntry["priority"], note: "" });
+  const [err, setErr] = useState("");
+
+  useEffect(() => {
+    if (draftFrom) setForm(f => ({ ...f, type: typeKey({ brand: draftFrom.model ? draftFrom.brand : "", model: draftFrom.model, name: draftFrom.name }) }));
+  }, [draftFrom]);
+
+  const free = (t: { brand: string; model: string; name: string }) =>
+    assets.filter(a => a.status === "in_service" && !activeIds.includes(a.asset_id) && matchesType(t, a)).length;
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault(); setErr("");
+    const t = types.find(x => x.key === form.type);
+    if (!t) return setErr("เลือกประเภทเครื่อง");
+    if (!form.dept || !form.requester.trim()) return setErr("กรอกแผนกและผู้ขอ");
+    const ok = await onAdd({
+      id: uid(), dept: form.dept, requester: form.requester.trim(), brand: t.brand, model: t.model, name: t.name,
+      priority: form.priority, note: form.note.trim(), status: "waiting", requested_at: new Date().toISOString(), borrow_id: null,
+    });
+    if (ok) setForm({ ...form, type: "", requester: "", note: "", priority: "normal" });
+  };
+
+  return (
+    <Card>
+      <div className="flex items-center gap-2 mb-3"><ListOrdered size={18} className="text-blue-600"/><h3 className="font-semibold">คิวขอยืมตามประเภทเครื่อง ({queue.length})</h3></div>
+      {err && <div className="mb-3"><Badge tone="red">{err}</Badge></div>}
+      <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end mb-4">
+        <label className="block md:col-span-2">
+          <span className="block text-sm font-medium mb-1 text-slate-700">ประเภทเครื่อง *</span>
+          <select className="w-full px-3 py-2.5 border rounded-xl" value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value })}>
+            <option value="">-- เลือก --</option>
+            {types.map(t => <option key={t.key} value={t.key}>{typeLabel(t)}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-sm font-medium mb-1 text-slate-700">แผนก *</span>
+          <select className="w-full px-3 py-2.5 border rounded-xl" value={form.dept} onChange={(e) => setForm({ ...form, dept: e.target.value })}>
+            <option value="">-- เลือก --</option>
+            {depts.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+        </label>
+        <Text label="ผู้ขอ" value={form.requester} onChange={(v) => setForm({ ...form, requester: v })} required />
+        <label className="block">
+          <span className="block text-sm font-medium mb-1 text-slate-700">ความเร่งด่วน</span>
+          <select className="w-full px-3 py-2.5 border rounded-xl" value={form.priority} onChange={(e) => setForm({ ...form, priority: e.target.value as WaitlistEntry["priority"] })}>
+            {PRIORITIES.map(p => <option key={p} value={p}>{PRIORITY_LABELS[p]}</option>)}
+          </select>
+        </label>
+        <div className="md:col-span-4"><Text label="หมายเหตุ" value={form.note} onChange={(v) => setForm({ ...form, note: v })} /></div>
+        <Button type="submit"><CheckCircle2 size={18}/>เข้าคิว</Button>
+      </form>
+
+      <div className="overflow-auto max-h-80 border rounded-xl">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50 sticky top-0"><tr>{["ลำดับ", "ประเภทเครื่อง", "แผนก", "ผู้ขอ", "ความเร่งด่วน", "ขอเมื่อ", "หมายเหตุ", "#"].map(h => <th key={h} className="text-left px-3 py-2 border-b">{h}</th>)}</tr></thead>
+          <tbody>
+            {queue.map((w, i) => {
+              const n = free(w);
+              return (
+                <tr key={w.id} className="odd:bg-white even:bg-slate-50 align-top">
+                  <td className="px-3 py-2 border-b">{i + 1}</td>
+                  <td className="px-3 py-2 border-b">{typeLabel(w)} {n > 0 && <Badge tone="green">ว่าง {n}</Badge>}</td>
+                  <td className="px-3 py-2 border-b">{w.dept}</td>
+                  <td className="px-3 py-2 border-b">{w.requester}</td>
+                  <td className="px-3 py-2 border-b"><PriorityBadge p={w.priority} /></td>
+                  <td className="px-3 py-2 border-b whitespace-nowrap">{formatDate(w.requested_at)} {new Date(w.requested_at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</td>
+                  <td className="px-3 py-2 border-b">{w.note || "-"}</td>
+                  <td className="px-3 py-2 border-b"><Button variant="ghost" size="sm" onClick={() => confirm("ยกเลิกคำขอนี้?") && onCancel(w.id)}><XCircle size={16}/>ยกเลิก</Button></td>
+                </tr>
+              );
+            })}
+            {queue.length === 0 && <tr><td colSpan={8} className="px-3 py-6 text-center text-slate-500">ไม่มีคิวรอ</td></tr>}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
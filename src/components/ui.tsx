@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from "react";
+import { CheckCircle2 } from "lucide-react";
+
+/********** tiny UI helpers **********/
+export const Card = ({ className = "", children }: { className?: string; children: React.ReactNode }) => (
+  <div className={"bg-white/90 backdrop-blur border rounded-2xl p-4 shadow-sm " + className}>{children}</div>
+);
+export const Badge = ({ tone = "slate", children }: { tone?: "slate" | "green" | "red" | "blue"; children: React.ReactNode }) => {
+  const map: any = {
+    slate: "bg-slate-100 text-slate-700 border-slate-200",
+    green: "bg-emerald-50 text-emerald-700 border-emerald-200",
+    red: "bg-red-50 text-red-700 border-red-200",
+    blue: "bg-blue-50 text-blue-700 border-blue-200",
+  };
+  return <span className={"inline-flex items-center px-2.5 py-1 rounded-full text-xs border " + map[tone]}>{children}</span>;
+};
+export const Button = ({ variant = "default", size = "md", className = "", ...rest }: any) => {
+  const variantMap: any = {
+    default: "bg-blue-600 text-white hover:bg-blue-700",
+    ghost: "border hover:bg-slate-50",
+    danger: "bg-red-600 text-white hover:bg-red-700",
+    success: "bg-emerald-600 text-white hover:bg-emerald-700",
+    secondary: "bg-slate-700 text-white hover:bg-slate-800",
+  };
+  const sizeMap: any = { sm: "px-3 py-1.5 rounded-lg text-sm", md: "px-4 py-2 rounded-xl", lg: "px-5 py-3 rounded-2xl text-base" };
+  return <button className={[variantMap[variant], sizeMap[size], "inline-flex items-center gap-2", className].join(" ")} {...rest} />;
+};
+
+/** composition-safe Text input (for labeled fields) */
+export const Text = ({
+  label, value, onChange, type = "text", placeholder, required, readOnly,
+}: { label: string; value: any; onChange?: (v: string) => void; type?: string; placeholder?: string; required?: boolean; readOnly?: boolean; }) => {
+  const [local, setLocal] = useState<string>("");
+  const composing = useRef(false);
+
+  useEffect(() => {
+    if (!composing.current) setLocal((value ?? "").toString());
+  }, [value]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const v = e.target.value;
+    setLocal(v);
+    if (!composing.current) onChange && onChange(v);
+  };
+
+  return (
+    <label className="block">
+      <span className="block text-sm font-medium mb-1 text-slate-700">
+        {label}{required ? " *" : ""}
+      </span>
+      <input
+        type={type}
+        value={local}
+        onChange={handleChange}
+        onCompositionStart={() => { composing.current = true; }}
+        onCompositionEnd={(e) => {
+          composing.current = false;
+          const v = (e.target as HTMLInputElement).value;
+          setLocal(v);
+          onChange && onChange(v);
+        }}
+        placeholder={placeholder}
+        required={required}
+        readOnly={readOnly}
+        className={"w-full px-3 py-2.5 border rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-200 " + (readOnly ? "bg-slate-50 text-slate-600" : "bg-white")}
+      />
+    </label>
+  );
+};
+
+/** composition-safe compact input (for table cells / inline edit) */
+export const CInput = ({
+  value, onChange, type = "text", className = "",
+}: { value: any; onChange?: (v: string)=>void; type?: string; className?: string; }) => {
+  const [local, setLocal] = useState<string>("");
+  const composing = useRef(false);
+  useEffect(()=>{ if(!composing.current) setLocal((value ?? "").toString()); }, [value]);
+  return (
+    <input
+      type={type}
+      value={local}
+      onChange={(e)=>{ const v=e.target.value; setLocal(v); if(!composing.current) onChange && onChange(v); }}
+      onCompositionStart={()=>{composing.current=true;}}
+      onCompositionEnd={(e)=>{ composing.current=false; const v=(e.target as HTMLInputElement).value; setLocal(v); onChange && onChange(v);}}
+      className={"px-2 py-1 border rounded " + className}
+    />
+  );
+};
+
+/********** signature **********/
+export function SignaturePad({ value, onChange, height = 120, label = "ลงลายเซ็นผู้ขอยืม (เมาส์/นิ้ว)" }: { value?: string | null; onChange?: (v: string | null) => void; height?: number; label?: string; }) {
+  const ref = useRef<HTMLCanvasElement | null>(null);
+  const drawing = useRef(false);
+  useEffect(() => {
+    const c = ref.current; if (!c) return;
+    const ctx = c.getContext("2d"); if (!ctx) return;
+    ctx.lineWidth = 2; ctx.lineCap = "round";
+    const pos = (e: any) => {
+      const r = c.getBoundingClientRect(); const t = e.touches?.[0];
+      const x = (t ? t.clientX : e.clientX) - r.left; const y = (t ? t.clientY : e.clientY) - r.top; return { x, y };
+    };
+    const start = (e: any) => { drawing.current = true; const p = pos(e); ctx.beginPath(); ctx.moveTo(p.x, p.y); };
+    const move = (e: any) => { if (!drawing.current) return; const p = pos(e); ctx.lineTo(p.x, p.y); ctx.stroke(); };
+    const end = () => { if (!drawing.current) return; drawing.current = false; onChange && onChange(c.toDataURL("image/png")); };
+    c.addEventListener("mousedown", start); c.addEventListener("mousemove", move); window.addEventListener("mouseup", end);
+    c.addEventListener("touchstart", start, { passive: false } as any); c.addEventListener("touchmove", move, { passive: false } as any); window.addEventListener("touchend", end);
+    return () => {
+      c.removeEventListener("mousedown", start); c.removeEventListener("mousemove", move); window.removeEventListener("mouseup", end);
+      c.removeEventListener("touchstart", start); c.removeEventListener("touchmove", move); window.removeEventListener("touchend", end);
+    };
+  }, [onChange]);
+  const clear = () => {
+    const c = ref.current; if (!c) return;
+    const ctx = c.getContext("2d"); if (!ctx) return;
+    ctx.clearRect(0, 0, c.width, c.height); onChange && onChange(null);
+  };
+  return (
+    <div>
+      <div className="text-xs text-slate-500 mb-1">{label}</div>
+      <div className="border rounded-xl bg-white"><canvas ref={ref} width={600} height={height} className="w-full rounded-xl" /></div>
+      <Button variant="ghost" size="sm" className="mt-2" onClick={clear}>ล้างลายเซ็น</Button>
+      {value && <span className="ml-2 text-emerald-700 text-sm inline-flex items-center gap-1"><CheckCircle2 size={16}/>บันทึกลายเซ็นแล้ว</span>}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import type { Asset, BorrowRecord, Department, StatusChange } from "../types";
+import { busyMs, loanDays, loanInterval } from "./usage";
+
+/********** analytics: utilization, turnaround, demand **********/
+
+const DAY = 86400000;
+
+/** "yyyy-mm" */
+export type MonthKey = string;
+export interface Month { key: MonthKey; start: number; end: number }
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** The last `count` calendar months up to and including the one `now` falls in, oldest first. */
+export function lastMonths(count: number, now: Date = new Date()): Month[] {
+  const out: Month[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const s = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    const e = new Date(s.getFullYear(), s.getMonth() + 1, 1);
+    out.push({ key: `${s.getFullYear()}-${pad(s.getMonth() + 1)}`, start: s.getTime(), end: e.getTime() });
+  }
+  return out;
+}
+
+export const modelKey = (a: Pick<Asset, "brand" | "model">): string => [a.brand, a.model].filter(Boolean).join(" ") || "-";
+
+/** [from, to) in epoch ms the asset could be lent: from purchase (or always) until it was retired. */
+function lifetime(a: Asset, retiredAt: Map<string, number>): [number, number] {
+  const bought = a.purchase_date ? new Date(a.purchase_date).getTime() : NaN;
+  return [isNaN(bought) ? -Infinity : bought, a.status === "retired" ? retiredAt.get(a.asset_id) ?? -Infinity : Infinity];
+}
+
+function retirements(statusLog: StatusChange[]): Map<string, number> {
+  const m = new Map<string, number>();
+  for (const s of statusLog) if (s.to === "retired") m.set(s.asset_id, Math.max(m.get(s.asset_id) ?? 0, new Date(s.date).getTime()));
+  return m;
+}
+
+const clip = (iv: Array<[number, number]>, s: number, e: number) =>
+  iv.map(([a, b]) => [Math.max(a, s), Math.min(b, e)] as [number, number]).filter(([a, b]) => b > a);
+
+export interface UtilizationRow {
+  key: string;
+  label: string;
+  /** share of the time on loan per month, 0–1; null where the asset(s) weren't in the fleet */
+  months: (number | null)[];
+  /** over the whole window */
+  overall: number | null;
+}
+
+/**
+ * Utilization per asset and per model over `months`: time on loan divided by the time
+ * the devices were in the fleet (purchase to retirement, and never past now).
+ */
+export function utilization(assets: Asset[], borrows: BorrowRecord[], statusLog: StatusChange[], months: Month[], now: Date = new Date()): { assets: UtilizationRow[]; models: UtilizationRow[] } {
+  const t = now.getTime();
+  const retiredAt = retirements(statusLog);
+  const loans = new Map<string, Array<[number, number]>>();
+  for (const b of borrows) {
+    const iv = loanInterval(b, now);
+    if (!iv) continue;
+    const l = loans.get(b.asset_id) ?? [];
+    l.push(iv);
+    loans.set(b.asset_id, l);
+  }
+  const from = months.length ? months[0].start : t, to = months.length ? Math.min(months[months.length - 1].end, t) : t;
+  // busy and available ms per asset per month, plus one extra slot for the whole window
+  const cells = assets.map((a) => {
+    const [life0, life1] = lifetime(a, retiredAt);
+    const iv = loans.get(a.asset_id) ?? [];
+    return [...months.map((m) => [m.start, Math.min(m.end, t)]), [from, to]].map(([s, e]) => {
+      const s1 = Math.max(s, life0), e1 = Math.min(e, life1);
+      return e1 > s1 ? { busy: busyMs(clip(iv, s1, e1)), avail: e1 - s1 } : { busy: 0, avail: 0 };
+    });
+  });
+  const share = (c: { busy: number; avail: number }) => (c.avail > 0 ? Math.min(c.busy / c.avail, 1) : null);
+  const row = (key: string, label: string, cs: { busy: number; avail: number }[]): UtilizationRow =>
+    ({ key, label, months: cs.slice(0, -1).map(share), overall: share(cs[cs.length - 1]) });
+
+  const byModel = new Map<string, { busy: number; avail: number }[]>();
+  assets.forEach((a, i) => {
+    const k = modelKey(a);
+    const sum = byModel.get(k) ?? cells[i].map(() => ({ busy: 0, avail: 0 }));
+    cells[i].forEach((c, j) => { sum[j].busy += c.busy; sum[j].avail += c.avail; });
+    byModel.set(k, sum);
+  });
+  const desc = (a: UtilizationRow, b: UtilizationRow) => (b.overall ?? -1) - (a.overall ?? -1) || a.label.localeCompare(b.label);
+  return {
+    assets: assets.map((a, i) => row(a.asset_id, `${a.asset_id} ${a.name}`, cells[i])).filter((r) => r.overall !== null).sort(desc),
+    models: [...byModel].map(([k, cs]) => row(k, k, cs)).filter((r) => r.overall !== null).sort(desc),
+  };
+}
+
+/** Nearest-rank percentile of an ascending list. */
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+export interface DurationStats { count: number; mean: number; p50: number; p90: number; max: number }
+
+/** Loan length in days of returned loans; open ones would pull the figures down. */
+export function durationStats(borrows: BorrowRecord[]): DurationStats {
+  const days = borrows.filter((b) => b.returned_at).map((b) => loanDays(b)).sort((a, b) => a - b);
+  const mean = days.length ? days.reduce((n, d) => n + d, 0) / days.length : 0;
+  return { count: days.length, mean, p50: percentile(days, 50), p90: percentile(days, 90), max: days[days.length - 1] ?? 0 };
+}
+
+/** Upper bounds (days) of the duration histogram; the last bucket takes everything longer. */
+export const DURATION_BUCKETS = [1, 3, 7, 14, 30];
+
+export function durationHistogram(borrows: BorrowRecord[]): { label: string; count: number }[] {
+  const counts = new Array(DURATION_BUCKETS.length + 1).fill(0);
+  for (const b of borrows) {
+    if (!b.returned_at) continue;
+    const d = loanDays(b), i = DURATION_BUCKETS.findIndex((u) => d <= u);
+    counts[i < 0 ? DURATION_BUCKETS.length : i]++;
+  }
+  return counts.map((count, i) => ({
+    label: i === DURATION_BUCKETS.length ? `> ${DURATION_BUCKETS[i - 1]} วัน` : `${i ? DURATION_BUCKETS[i - 1] + 1 : 0}–${DURATION_BUCKETS[i]} วัน`,
+    count,
+  }));
+}
+
+/** Loans started per department per month, busiest department first. */
+export function loansByDeptMonth(borrows: BorrowRecord[], months: Month[]): { dept: Department; counts: number[]; total: number }[] {
+  const idx = new Map(months.map((m, i) => [m.key, i]));
+  const byDept = new Map<string, number[]>();
+  for (const b of borrows) {
+    const i = idx.get(b.start_date.slice(0, 7));
+    if (i === undefined) continue;
+    const k = b.borrower_dept || "-";
+    const c = byDept.get(k) ?? months.map(() => 0);
+    c[i]++;
+    byDept.set(k, c);
+  }
+  return [...byDept].map(([dept, counts]) => ({ dept, counts, total: counts.reduce((n, x) => n + x, 0) }))
+    .sort((a, b) => b.total - a.total || a.dept.localeCompare(b.dept));
+}
+
+export interface PeakDemand { model: string; peak: number; at: string; fleet: number }
+
+/**
+ * Most loans of one model out at the same moment since `since`, against the number of
+ * devices of that model not retired — a peak at the fleet size means wards likely waited.
+ */
+export function peakDemand(assets: Asset[], borrows: BorrowRecord[], since: number, now: Date = new Date()): PeakDemand[] {
+  const modelOf = new Map(assets.map((a) => [a.asset_id, modelKey(a)]));
+  const events = new Map<string, Array<[number, number]>>();
+  for (const b of borrows) {
+    const iv = loanInterval(b, now);
+    if (!iv || iv[1] <= since) continue;
+    const k = modelOf.get(b.asset_id) ?? "-";
+    const ev = events.get(k) ?? [];
+    ev.push([Math.max(iv[0], since), 1], [iv[1], -1]);
+    events.set(k, ev);
+  }
+  const fleet = new Map<string, number>();
+  for (const a of assets) if (a.status !== "retired") fleet.set(modelKey(a), (fleet.get(modelKey(a)) ?? 0) + 1);
+  return [...events].map(([model, ev]) => {
+    // ends sort before starts at the same instant, so back-to-back loans don't overlap
+    ev.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+    let cur = 0, peak = 0, at = 0;
+    for (const [t, d] of ev) { cur += d; if (cur > peak) { peak = cur; at = t; } }
+    return { model, peak, at: new Date(at).toISOString(), fleet: fleet.get(model) ?? 0 };
+  }).sort((a, b) => b.peak - a.peak || a.model.localeCompare(b.model));
+}
+
+export interface IdleAsset { asset: Asset; last: string | null; idleDays: number | null }
+
+/** Lendable-in-principle (not retired) assets with no loan in the last `days` days, longest idle first. */
+export function idleAssets(assets: Asset[], borrows: BorrowRecord[], days: number, now: Date = new Date()): IdleAsset[] {
+  const last = new Map<string, number>();
+  for (const b of borrows) {
+    const iv = loanInterval(b, now);
+    if (iv) last.set(b.asset_id, Math.max(last.get(b.asset_id) ?? 0, b.returned_at ? iv[1] : now.getTime()));
+  }
+  return assets.filter((a) => a.status !== "retired").flatMap((a) => {
+    const l = last.get(a.asset_id);
+    const since = l ?? (a.purchase_date ? new Date(a.purchase_date).getTime() : NaN);
+    const idleDays = isNaN(since) ? null : Math.floor((now.getTime() - since) / DAY);
+    if (idleDays !== null && idleDays < days) return [];
+    return [{ asset: a, last: l ? new Date(l).toISOString() : null, idleDays }];
+  }).sort((a, b) => (b.idleDays ?? Infinity) - (a.idleDays ?? Infinity) || a.asset.asset_id.localeCompare(b.asset.asset_id));
+}
+
+/********** lightweight tests (console) **********/
+try {
+  const now = new Date(2024, 2, 31, 12);
+  const months = lastMonths(3, now);
+  console.assert(months.map((m) => m.key).join() === "2024-01,2024-02,2024-03", "lastMonths counts back from now");
+  const asset = (asset_id: string, model: string): Asset => ({ asset_id, id_code: "", name: asset_id, brand: "B", model, vendor: "", serial: "", purchase_date: "2023-01-01", price: null, status: "in_service" });
+  const loan = (id: string, asset_id: string, start: string, ret: string | null, dept = "ICU"): BorrowRecord => ({ id, asset_id, asset_name: "", peripherals: "", lender_name: "", borrower_name: "", borrower_dept: dept, start_date: start, end_date: null, returned_at: ret, borrower_sign: null, created_at: start, group_id: null, receiver_sign: null, inspection: null });
+  const assets = [asset("P1", "Pump"), asset("P2", "Pump"), asset("M1", "Monitor")];
+  const borrows = [loan("a", "P1", "2024-02-01", "2024-02-11T00:00:00Z"), loan("b", "P2", "2024-02-05", "2024-02-08T00:00:00Z", "ER"), loan("c", "P1", "2024-03-01", null)];
+  console.assert(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 90) === 9 && percentile([4], 50) === 4, "percentile uses nearest rank");
+  const s = durationStats(borrows);
+  console.assert(s.count === 2 && s.p50 === 3 && s.max === 10, "durationStats covers returned loans only");
+  const peaks = peakDemand(assets, borrows, months[0].start, now);
+  console.assert(peaks[0].model === "B Pump" && peaks[0].peak === 2 && peaks[0].fleet === 2, "peakDemand finds overlapping loans");
+  const dm = loansByDeptMonth(borrows, months);
+  console.assert(dm[0].dept === "ICU" && dm[0].counts.join() === "0,1,1", "loansByDeptMonth counts by start month");
+  const u = utilization(assets, borrows, [], months, now);
+  console.assert(u.models[0].key === "B Pump" && u.models.find((r) => r.key === "B Monitor")?.overall === 0, "utilization ranks models");
+  console.assert(idleAssets(assets, borrows, 30, now).map((x) => x.asset.asset_id).join() === "M1,P2", "idleAssets skips recently used devices");
+} catch (e) { console.warn("Analytics sanity test failed", e); }
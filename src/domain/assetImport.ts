@@ -0,0 +1,173 @@
+import type { Asset, Model } from "../types";
+
+/********** bulk asset import (CSV) **********/
+
+export const IMPORT_FIELDS = ["asset_id", "id_code", "name", "brand", "model", "vendor", "serial", "purchase_date", "price"] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+/** field → column index in the sheet, or -1 when not mapped */
+export type ColumnMap = Record<ImportField, number>;
+
+export const FIELD_LABELS: Record<ImportField, string> = {
+  asset_id: "Asset ID", id_code: "ID CODE", name: "ชื่อเครื่องมือ", brand: "ยี่ห้อ", model: "รุ่น",
+  vendor: "บริษัทผู้ขาย", serial: "Serial", purchase_date: "วันที่ซื้อ", price: "ราคา",
+};
+
+const REQUIRED: ImportField[] = ["asset_id", "id_code", "name", "serial"];
+
+// header aliases, compared after lower-casing and dropping spaces, "_" and "-"
+const ALIASES: Record<ImportField, string[]> = {
+  asset_id: ["assetid", "asset", "รหัสครุภัณฑ์", "เลขครุภัณฑ์"],
+  id_code: ["idcode", "code", "รหัส"],
+  name: ["name", "ชื่อ", "ชื่อเครื่องมือ", "ชื่อเครื่อง", "รายการ"],
+  brand: ["brand", "ยี่ห้อ"],
+  model: ["model", "รุ่น"],
+  vendor: ["vendor", "supplier", "บริษัท", "บริษัทผู้ขาย", "ผู้ขาย"],
+  serial: ["serial", "serialno", "sn", "s/n", "หมายเลขเครื่อง"],
+  purchase_date: ["purchasedate", "date", "วันที่ซื้อ", "วันที่รับ"],
+  price: ["price", "cost", "ราคา"],
+};
+
+const norm = (h: unknown) => String(h ?? "").toLowerCase().replace(/[\s_\-]/g, "");
+
+export function guessColumns(header: unknown[]): ColumnMap {
+  const cols = header.map(norm);
+  const map = {} as ColumnMap;
+  IMPORT_FIELDS.forEach((f) => {
+    const exact = cols.indexOf(norm(f));
+    map[f] = exact >= 0 ? exact : cols.findIndex((c) => c !== "" && ALIASES[f].includes(c));
+  });
+  return map;
+}
+
+/** Minimal RFC 4180 reader; the delimiter (comma, semicolon or tab) is taken from the first line. */
+export function parseCSV(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const first = src.split(/\r?\n/, 1)[0] ?? "";
+  const delim = [",", ";", "\t"].reduce((best, d) => (first.split(d).length > first.split(best).length ? d : best), ",");
+  const rows: string[][] = [];
+  let row: string[] = [], cell = "", quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delim) { row.push(cell); cell = ""; }
+    else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell); rows.push(row); row = []; cell = "";
+    } else cell += ch;
+  }
+  if (cell !== "" || row.length) { row.push(cell); rows.push(row); }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/**
+ * Reads a .csv into rows of cells. Workbooks are refused: the bundled SheetJS (0.18.5) has
+ * open advisories for parsing crafted files (CVE-2023-30533, CVE-2024-22363), so uploads
+ * only go through our own parser; it is still used for writing exports.
+ */
+export async function readSheet(file: File): Promise<unknown[][]> {
+  if (/\.(csv|txt)$/i.test(file.name)) return parseCSV(await file.text());
+  throw new Error("รองรับเฉพาะไฟล์ .csv — ใน Excel ใช้ Save As → CSV UTF-8 แล้วเลือกไฟล์นั้น");
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * Normalizes a spreadsheet date to yyyy-mm-dd. Accepts Date cells, Excel serials,
+ * yyyy-mm-dd and d/m/yyyy (Buddhist years are converted). Returns null if unreadable.
+ */
+export function parseDateCell(v: unknown): string | null {
+  if (v === "" || v == null) return "";
+  if (v instanceof Date) return isNaN(v.getTime()) ? null : `${v.getFullYear()}-${pad(v.getMonth() + 1)}-${pad(v.getDate())}`;
+  if (typeof v === "number") {
+    if (v < 1 || v > 100000) return null;
+    const d = new Date(Date.UTC(1899, 11, 30) + Math.round(v) * 86400000);
+    return d.toISOString().slice(0, 10);
+  }
+  const s = String(v).trim();
+  let y: number, m: number, d: number;
+  let x = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(s);
+  if (x) { y = +x[1]; m = +x[2]; d = +x[3]; }
+  else if ((x = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/.exec(s))) { d = +x[1]; m = +x[2]; y = +x[3]; }
+  else return null;
+  if (y > 2400) y -= 543;
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  if (dt.getUTCFullYear() !== y || dt.getUTCMonth() !== m - 1 || dt.getUTCDate() !== d) return null;
+  return `${y}-${pad(m)}-${pad(d)}`;
+}
+
+export interface ImportRow {
+  /** 1-based line number in the sheet, header included */
+  line: number;
+  asset: Asset;
+  errors: string[];
+}
+
+export interface ImportPlan {
+  rows: ImportRow[];
+  valid: Asset[];
+  newBrands: string[];
+  newModels: Model[];
+  newVendors: string[];
+}
+
+/** Builds assets from the data rows and checks them against each other and the register. */
+export function planImport(rows: unknown[][], map: ColumnMap, existing: { assets: Asset[]; brands: string[]; models: Model[]; vendors: string[] }): ImportPlan {
+  const cell = (r: unknown[], f: ImportField) => (map[f] >= 0 ? r[map[f]] : "");
+  const text = (r: unknown[], f: ImportField) => String(cell(r, f) ?? "").trim();
+  const taken = {
+    asset_id: new Set(existing.assets.map((a) => a.asset_id)),
+    id_code: new Set(existing.assets.map((a) => a.id_code)),
+    serial: new Set(existing.assets.map((a) => a.serial)),
+  };
+  const inFile = { asset_id: new Map<string, number>(), id_code: new Map<string, number>(), serial: new Map<string, number>() };
+
+  const out: ImportRow[] = rows.slice(1).map((r, i) => {
+    const line = i + 2;
+    const errors: string[] = [];
+    REQUIRED.forEach((f) => { if (!text(r, f)) errors.push(`ไม่มี ${FIELD_LABELS[f]}`); });
+
+    const purchase_date = parseDateCell(cell(r, "purchase_date"));
+    if (purchase_date === null) errors.push(`วันที่ซื้อไม่ถูกต้อง (${text(r, "purchase_date")})`);
+
+    const rawPrice = cell(r, "price");
+    let price: number | null = null;
+    if (rawPrice !== "" && rawPrice != null) {
+      price = typeof rawPrice === "number" ? rawPrice : Number(String(rawPrice).replace(/[,\s฿]/g, ""));
+      if (!isFinite(price) || price < 0) { errors.push(`ราคาไม่ถูกต้อง (${text(r, "price")})`); price = null; }
+    }
+
+    const asset: Asset = {
+      asset_id: text(r, "asset_id"), id_code: text(r, "id_code"), name: text(r, "name"),
+      brand: text(r, "brand"), model: text(r, "model"), vendor: text(r, "vendor"), serial: text(r, "serial"),
+      purchase_date: purchase_date || "", price, status: "in_service",
+    };
+    const keys = (["asset_id", "id_code", "serial"] as const).filter((k) => asset[k]);
+    keys.forEach((k) => {
+      const v = asset[k];
+      if (taken[k].has(v)) errors.push(`${FIELD_LABELS[k]} ซ้ำกับทะเบียน (${v})`);
+      else if (inFile[k].has(v)) errors.push(`${FIELD_LABELS[k]} ซ้ำกับบรรทัด ${inFile[k].get(v)} (${v})`);
+    });
+    // only rows that will be imported claim their IDs, so a corrected copy of a bad row still goes in
+    if (!errors.length) keys.forEach((k) => inFile[k].set(asset[k], line));
+    return { line, asset, errors };
+  });
+
+  const valid = out.filter((r) => !r.errors.length).map((r) => r.asset);
+  const newBrands = [...new Set(valid.map((a) => a.brand).filter((b) => b && !existing.brands.includes(b)))];
+  const newVendors = [...new Set(valid.map((a) => a.vendor).filter((v) => v && !existing.vendors.includes(v)))];
+  const newModels: Model[] = [];
+  valid.forEach((a) => {
+    if (!a.model) return;
+    const known = (m: Model) => m.brand === a.brand && m.name === a.model;
+    if (!existing.models.some(known) && !newModels.some(known)) newModels.push({ brand: a.brand, name: a.model });
+  });
+  return { rows: out, valid, newBrands, newModels, newVendors };
+}
+
+/** Header-only CSV with the column names guessColumns recognizes. */
+export const templateCSV = (): string => "\uFEFF" + IMPORT_FIELDS.join(",") + "\r\n";
@@ -0,0 +1,45 @@
+import type { Asset, AssetStatus, BorrowRecord, StatusChange } from "../types";
+
+/********** asset lifecycle status **********/
+
+export const ASSET_STATUSES: AssetStatus[] = ["in_service", "under_repair", "cleaning", "calibration", "retired"];
+
+export const STATUS_LABELS: Record<AssetStatus, string> = {
+  in_service: "พร้อมใช้งาน",
+  under_repair: "ส่งซ่อม",
+  cleaning: "รอทำความสะอาด",
+  calibration: "ส่งสอบเทียบ",
+  retired: "ปลดระวาง",
+};
+
+export const STATUS_TONE: Record<AssetStatus, "slate" | "green" | "red" | "blue"> = {
+  in_service: "green",
+  under_repair: "red",
+  cleaning: "blue",
+  calibration: "blue",
+  retired: "slate",
+};
+
+export const isLendable = (a: Asset): boolean => a.status === "in_service";
+
+/** Number of assets in each status; every status is present, zero included. */
+export function statusCounts(assets: Asset[]): Record<AssetStatus, number> {
+  const out = Object.fromEntries(ASSET_STATUSES.map((s) => [s, 0])) as Record<AssetStatus, number>;
+  assets.forEach((a) => { out[a.status]++; });
+  return out;
+}
+
+/** Status changes of one asset, newest first. */
+export const statusHistory = (assetId: string, log: StatusChange[]): StatusChange[] =>
+  log.filter((s) => s.asset_id === assetId)
+    .sort((a, b) => (b.date + b.created_at).localeCompare(a.date + a.created_at));
+
+/**
+ * Why an asset may not be moved to `to`, or null when it may. Retiring a device
+ * that is still out on loan would leave an open loan on a retired asset.
+ */
+export function statusChangeError(a: Asset, to: AssetStatus, borrows: BorrowRecord[]): string | null {
+  if (a.status === to) return "สถานะเดิมอยู่แล้ว";
+  if (to === "retired" && borrows.some((b) => b.asset_id === a.asset_id && !b.returned_at)) return "เครื่องนี้ยังถูกยืมอยู่ — บันทึกคืนก่อนปลดระวาง";
+  return null;
+}
@@ -0,0 +1,90 @@
+import type { AuditAction, AuditEntity, AuditEntry } from "../types";
+import { uid } from "../utils";
+
+/********** audit trail **********/
+
+export const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "เพิ่ม",
+  update: "แก้ไข",
+  delete: "ลบ",
+  return: "บันทึกคืน",
+  status: "เปลี่ยนสถานะ",
+  cancel: "ยกเลิก",
+  restore: "กู้คืนข้อมูล",
+  reset: "ล้างข้อมูลทั้งหมด",
+  undo: "ย้อนกลับ",
+};
+
+/** Entries that can be reversed from the audit viewer. */
+export const UNDOABLE: AuditAction[] = ["return", "delete"];
+
+const SIGNED = "(ลายเซ็น)";
+/** Fields kept out of the log, with the marker shown instead. */
+const HIDDEN: Record<string, string> = { borrower_sign: SIGNED, receiver_sign: SIGNED, pin_hash: "(ซ่อน)", salt: "(ซ่อน)" };
+
+/** Copy of a record fit for the log: signature images and PIN hashes are replaced by a marker. */
+export const snapshot = (x: unknown): unknown =>
+  x && typeof x === "object" && !Array.isArray(x)
+    ? Object.fromEntries(Object.entries(x).map(([k, v]) => [k, k in HIDDEN && v ? HIDDEN[k] : v]))
+    : x ?? null;
+
+export const auditEntry = (
+  actor: string, action: AuditAction, entity: AuditEntity, ref: string,
+  before: unknown, after: unknown, undoes: string | null = null,
+): AuditEntry => ({ id: uid(), at: new Date().toISOString(), actor, action, entity, ref, before: snapshot(before), after: snapshot(after), undoes });
+
+export interface FieldChange { field: string; from: unknown; to: unknown }
+
+/**
+ * What differs between two snapshots: changed fields of a record, or for plain
+ * lists (brands, departments…) the items removed (`from`) and added (`to`).
+ */
+export function changes(before: unknown, after: unknown): FieldChange[] {
+  if (Array.isArray(before) || Array.isArray(after)) {
+    const b = (before ?? []) as unknown[], a = (after ?? []) as unknown[];
+    const key = (x: unknown) => JSON.stringify(x);
+    const removed = b.filter((x) => !a.some((y) => key(y) === key(x)));
+    const added = a.filter((x) => !b.some((y) => key(y) === key(x)));
+    return removed.length || added.length ? [{ field: "", from: removed, to: added }] : [];
+  }
+  const plain = (x: unknown) => x !== null && x !== undefined && typeof x !== "object";
+  if (plain(before) || plain(after)) return before === after ? [] : [{ field: "", from: before ?? null, to: after ?? null }];
+  const b = (before ?? {}) as Record<string, unknown>, a = (after ?? {}) as Record<string, unknown>;
+  return [...new Set([...Object.keys(b), ...Object.keys(a)])]
+    .filter((k) => JSON.stringify(b[k]) !== JSON.stringify(a[k]))
+    .map((k) => ({ field: k, from: b[k] ?? null, to: a[k] ?? null }));
+}
+
+/** Ids of entries that a later entry has reversed. */
+export const undoneIds = (log: AuditEntry[]): Set<string> =>
+  new Set(log.map((e) => e.undoes).filter((x): x is string => !!x));
+
+export interface AuditFilter {
+  q: string;
+  entity: AuditEntity | "";
+  action: AuditAction | "";
+  from: string; // yyyy-mm-dd, inclusive
+  to: string;
+}
+
+/** Entries matching the viewer's filter; the text search covers actor, record key and the snapshots. */
+export function filterAudit(log: AuditEntry[], f: AuditFilter): AuditEntry[] {
+  const q = f.q.trim().toLowerCase();
+  return log.filter((e) => {
+    if (f.entity && e.entity !== f.entity) return false;
+    if (f.action && e.action !== f.action) return false;
+    const day = e.at.slice(0, 10);
+    if (f.from && day < f.from) return false;
+    if (f.to && day > f.to) return false;
+    return !q || `${e.actor} ${e.ref} ${JSON.stringify(e.before)} ${JSON.stringify(e.after)}`.toLowerCase().includes(q);
+  });
+}
+
+/********** lightweight tests (console) **********/
+try {
+  const s = snapshot({ id: "1", borrower_sign: "data:image/png;base64,xx", receiver_sign: null }) as any;
+  console.assert(s.borrower_sign === SIGNED && s.receiver_sign === null, "snapshot hides signatures");
+  console.assert(changes({ a: 1, b: 2 }, { a: 1, b: 3 }).map((c) => c.field).join() === "b", "changes lists changed fields");
+  const l = changes(["X", "Y"], ["Y", "Z"])[0];
+  console.assert(JSON.stringify(l.from) === '["X"]' && JSON.stringify(l.to) === '["Z"]', "changes diffs plain lists");
+} catch (e) { console.warn("Audit sanity test failed", e); }
@@ -0,0 +1,49 @@
+import type { BorrowRecord } from "../types";
+
+/********** multi-asset checkout: transaction IDs and grouping **********/
+
+/** Short, readable transaction ID for a checkout, e.g. TX-240131-K3F9. */
+export const newGroupId = (now: Date = new Date()): string =>
+  `TX-${now.toISOString().slice(2, 10).replace(/-/g, "")}-${Math.random().toString(36).slice(2, 6).toUpperCase().padEnd(4, "0")}`;
+
+/** Loans of one checkout; a borrow without a group_id forms a group of its own. */
+export interface LoanGroup {
+  /** group_id, or the borrow id for a stand-alone loan */
+  key: string;
+  group_id: string | null;
+  items: BorrowRecord[];
+}
+
+/** Groups `list` by transaction, keeping the order in which each group first appears. */
+export function groupLoans(list: BorrowRecord[]): LoanGroup[] {
+  const out: LoanGroup[] = [];
+  const byKey = new Map<string, LoanGroup>();
+  for (const b of list) {
+    const key = b.group_id || b.id;
+    let g = byKey.get(key);
+    if (!g) { g = { key, group_id: b.group_id, items: [] }; byKey.set(key, g); out.push(g); }
+    g.items.push(b);
+  }
+  return out;
+}
+
+/** Every loan of the transaction `groupId`, returned or not. */
+export const loansInGroup = (borrows: BorrowRecord[], groupId: string): BorrowRecord[] => borrows.filter((b) => b.group_id === groupId);
+
+/** A slip handed over with the devices when they go out, or when they come back. */
+export type SlipKind = "borrow" | "return";
+
+/** Loans on the same handover slip as `b`: its transaction, or for a return slip the part of it returned with `b`. */
+export const slipLoans = (borrows: BorrowRecord[], b: BorrowRecord, kind: SlipKind): BorrowRecord[] =>
+  !b.group_id ? [b] : loansInGroup(borrows, b.group_id).filter((x) => kind === "borrow" || x.returned_at === b.returned_at);
+
+/********** lightweight tests (console) **********/
+try {
+  const b = (id: string, group_id: string | null) => ({ id, group_id } as BorrowRecord);
+  const g = groupLoans([b("1", "T1"), b("2", null), b("3", "T1")]);
+  console.assert(g.length === 2 && g[0].items.length === 2 && g[1].key === "2", "groupLoans merges a transaction and keeps singles apart");
+  const r = (id: string, returned_at: string | null) => ({ id, group_id: "T1", returned_at } as BorrowRecord);
+  const tx = [r("1", "t1"), r("2", "t2"), r("3", "t1")];
+  console.assert(slipLoans(tx, tx[0], "return").length === 2 && slipLoans(tx, tx[1], "borrow").length === 3, "slipLoans");
+  console.assert(/^TX-\d{6}-[0-9A-Z]{4}$/.test(newGroupId(new Date("2024-01-31T10:00:00Z"))), "newGroupId format");
+} catch (e) { console.warn("Checkout sanity test failed", e); }
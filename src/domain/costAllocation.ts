@@ -0,0 +1,163 @@
+import type { Asset, BorrowRecord, CostPolicy, CostRate, Department } from "../types";
+import { todayStr } from "../utils";
+
+/********** departmental cost allocation **********/
+
+const DAY = 86400000;
+
+export const DEFAULT_COST: CostPolicy = { life_years: 5, residual_pct: 0, rates: [] };
+
+export function normalizeCostPolicy(raw: unknown): CostPolicy {
+  const p = (typeof raw === "object" && raw !== null ? raw : {}) as Partial<CostPolicy>;
+  const rates = Array.isArray(p.rates)
+    ? p.rates.filter((r) => r && typeof r.id === "string" && typeof r.brand === "string" && r.brand && Number.isFinite(r.daily_rate) && r.daily_rate >= 0)
+      .map((r) => ({ id: r.id, brand: r.brand, model: String(r.model ?? ""), daily_rate: r.daily_rate }))
+    : DEFAULT_COST.rates;
+  return {
+    life_years: Number.isFinite(p.life_years) && p.life_years! > 0 ? p.life_years! : DEFAULT_COST.life_years,
+    residual_pct: Number.isFinite(p.residual_pct) && p.residual_pct! >= 0 && p.residual_pct! < 100 ? p.residual_pct! : DEFAULT_COST.residual_pct,
+    rates,
+  };
+}
+
+export type RateSource = "model" | "brand" | "depreciation" | "none";
+
+/** Daily charge for an asset: a model rate, else a brand rate, else its price written off over its life. */
+export function dailyRate(asset: Asset | undefined, policy: CostPolicy): { rate: number; source: RateSource; rule?: CostRate } {
+  if (asset) {
+    const model = policy.rates.find((r) => r.brand === asset.brand && r.model && r.model === asset.model);
+    if (model) return { rate: model.daily_rate, source: "model", rule: model };
+    const brand = policy.rates.find((r) => r.brand === asset.brand && !r.model);
+    if (brand) return { rate: brand.daily_rate, source: "brand", rule: brand };
+    if (asset.price && asset.price > 0) {
+      return { rate: (asset.price * (1 - policy.residual_pct / 100)) / (policy.life_years * 365), source: "depreciation" };
+    }
+  }
+  return { rate: 0, source: "none" };
+}
+
+export type PeriodKind = "month" | "quarter";
+
+/** Inclusive yyyy-mm-dd range. */
+export interface Period { kind: PeriodKind; label: string; from: string; to: string }
+
+const ymd = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+/** The month or quarter containing `day` (yyyy-mm-dd). */
+export function periodOf(kind: PeriodKind, day: string): Period {
+  const [y, m] = day.split("-").map(Number);
+  const first = kind === "quarter" ? Math.floor((m - 1) / 3) * 3 : m - 1;
+  const months = kind === "quarter" ? 3 : 1;
+  const label = kind === "quarter"
+    ? `ไตรมาส ${first / 3 + 1}/${y}`
+    : new Date(y, first, 1).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+  return { kind, label, from: ymd(new Date(y, first, 1)), to: ymd(new Date(y, first + months, 0)) };
+}
+
+/** The period before or after `p`. */
+export function shiftPeriod(p: Period, step: number): Period {
+  const [y, m] = p.from.split("-").map(Number);
+  return periodOf(p.kind, ymd(new Date(y, m - 1 + step * (p.kind === "quarter" ? 3 : 1), 1)));
+}
+
+// local calendar day number, so a loan counts by the dates on the form whatever the time zone
+const dayNo = (d: string | Date) => {
+  const x = typeof d === "string" && /^\d{4}-\d{2}-\d{2}$/.test(d) ? new Date(`${d}T00:00:00`) : new Date(d);
+  return Math.round(new Date(x.getFullYear(), x.getMonth(), x.getDate()).getTime() / DAY);
+};
+
+/**
+ * Device-days of a loan inside [from, to]: each calendar day from the start up to (not
+ * including) the return day counts, so a loan crossing a period boundary is split
+ * between the periods without counting a day twice. Same-day loans count one day.
+ */
+export function deviceDays(b: BorrowRecord, from: string, to: string, today = todayStr()): number {
+  const s = dayNo(b.start_date);
+  let e = dayNo(b.returned_at ?? today) + (b.returned_at ? 0 : 1); // a loan still out is charged for today
+  if (e <= s) e = s + 1;
+  return Math.max(Math.min(e, dayNo(to) + 1) - Math.max(s, dayNo(from)), 0);
+}
+
+export interface StatementLine {
+  loan: BorrowRecord;
+  asset: Asset | undefined;
+  /** first and last charged day inside the period */
+  from: string;
+  to: string;
+  days: number;
+  rate: number;
+  source: RateSource;
+  amount: number;
+}
+
+export interface DeptStatement { dept: Department; lines: StatementLine[]; loans: number; days: number; amount: number }
+
+export interface CostStatement { period: Period; depts: DeptStatement[]; days: number; amount: number; unpriced: number }
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function allocateCosts(borrows: BorrowRecord[], assets: Asset[], policy: CostPolicy, period: Period, today = todayStr()): CostStatement {
+  const byId = new Map(assets.map((a) => [a.asset_id, a]));
+  const depts = new Map<string, StatementLine[]>();
+  for (const b of borrows) {
+    const days = deviceDays(b, period.from, period.to, today);
+    if (!days) continue;
+    const asset = byId.get(b.asset_id);
+    const { rate, source } = dailyRate(asset, policy);
+    const first = b.start_date > period.from ? b.start_date : period.from;
+    const k = b.borrower_dept || "-";
+    const [y, m, d] = first.split("-").map(Number);
+    const line = { loan: b, asset, from: first, to: ymd(new Date(y, m - 1, d + days - 1)), days, rate, source, amount: round2(days * rate) };
+    if (depts.has(k)) depts.get(k)!.push(line);
+    else depts.set(k, [line]);
+  }
+  const list = [...depts].map(([dept, lines]) => ({
+    dept,
+    lines: lines.sort((a, b) => a.loan.asset_id.localeCompare(b.loan.asset_id) || a.from.localeCompare(b.from)),
+    loans: lines.length,
+    days: lines.reduce((n, l) => n + l.days, 0),
+    amount: round2(lines.reduce((n, l) => n + l.amount, 0)),
+  })).sort((a, b) => b.amount - a.amount || a.dept.localeCompare(b.dept));
+  return {
+    period, depts: list,
+    days: list.reduce((n, d) => n + d.days, 0),
+    amount: round2(list.reduce((n, d) => n + d.amount, 0)),
+    unpriced: list.reduce((n, d) => n + d.lines.filter((l) => l.source === "none").length, 0),
+  };
+}
+
+export const money = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const SOURCE_LABELS: Record<RateSource, string> = { model: "อัตรารุ่น", brand: "อัตรายี่ห้อ", depreciation: "ค่าเสื่อมราคา", none: "ไม่มีอัตรา" };
+
+/** Summary and per-loan detail as two arrays-of-arrays for SheetJS. */
+export function statementAoa(s: CostStatement, orgName: string): { summary: (string | number)[][]; detail: (string | number)[][] } {
+  const title = [[orgName], [`สรุปค่าใช้เครื่องมือแพทย์รายหน่วยงาน ${s.period.label}`, `${s.period.from} ถึง ${s.period.to}`], [""]];
+  const summary = [...title, ["หน่วยงาน", "จำนวนรายการ", "วัน-เครื่อง", "ค่าใช้จ่าย (บาท)"],
+    ...s.depts.map((d) => [d.dept, d.loans, d.days, d.amount]),
+    ["รวม", s.depts.reduce((n, d) => n + d.loans, 0), s.days, s.amount]];
+  const detail: (string | number)[][] = [...title, ["หน่วยงาน", "Asset ID", "ชื่อเครื่อง", "ยี่ห้อ / รุ่น", "ผู้ยืม", "ตั้งแต่", "ถึง", "วัน-เครื่อง", "อัตรา/วัน", "ที่มาอัตรา", "จำนวนเงิน"]];
+  for (const d of s.depts) {
+    for (const l of d.lines) detail.push([d.dept, l.loan.asset_id, l.loan.asset_name, l.asset ? [l.asset.brand, l.asset.model].filter(Boolean).join(" ") : "", l.loan.borrower_name, l.from, l.to, l.days, round2(l.rate), SOURCE_LABELS[l.source], l.amount]);
+    detail.push([`รวม ${d.dept}`, "", "", "", "", "", "", d.days, "", "", d.amount]);
+  }
+  detail.push(["รวมทั้งหมด", "", "", "", "", "", "", s.days, "", "", s.amount]);
+  return { summary, detail };
+}
+
+/********** lightweight tests (console) **********/
+try {
+  const loan = (id: string, dept: string, start: string, returned: string | null): BorrowRecord => ({ id, asset_id: id, asset_name: "", peripherals: "", lender_name: "", borrower_name: "", borrower_dept: dept, start_date: start, end_date: null, returned_at: returned, borrower_sign: null, created_at: start, group_id: null, receiver_sign: null, inspection: null });
+  const jan = periodOf("month", "2024-01-15"), feb = shiftPeriod(jan, 1);
+  console.assert(jan.to === "2024-01-31" && feb.from === "2024-02-01" && feb.to === "2024-02-29", "periods follow the calendar");
+  console.assert(periodOf("quarter", "2024-05-02").from === "2024-04-01" && shiftPeriod(periodOf("quarter", "2024-01-02"), -1).from === "2023-10-01", "quarters");
+  const cross = loan("P1", "ICU", "2024-01-30", "2024-02-03T08:00:00");
+  console.assert(deviceDays(cross, jan.from, jan.to) === 2 && deviceDays(cross, feb.from, feb.to) === 2, "a loan across the boundary is split by day");
+  console.assert(deviceDays(loan("P2", "ER", "2024-01-10", "2024-01-10T15:00:00"), jan.from, jan.to) === 1, "a same-day loan counts one day");
+  console.assert(deviceDays(loan("P3", "ER", "2024-02-27", null), feb.from, feb.to, "2024-03-05") === 3, "an open loan runs to the period end");
+  const asset = (asset_id: string, brand: string, model: string, price: number | null): Asset => ({ asset_id, id_code: "", name: "", brand, model, vendor: "", serial: "", purchase_date: "", price, status: "in_service" });
+  const policy = normalizeCostPolicy({ life_years: 5, residual_pct: 0, rates: [{ id: "r", brand: "B", model: "Pump", daily_rate: 50 }] });
+  console.assert(dailyRate(asset("x", "B", "Pump", 9999), policy).rate === 50 && dailyRate(asset("y", "C", "Mon", 182500), policy).rate === 100, "model rate before depreciation");
+  const s = allocateCosts([cross], [asset("P1", "B", "Pump", null)], policy, jan);
+  console.assert(s.amount === 100 && s.depts[0].lines[0].to === "2024-01-31", "allocateCosts prices device-days");
+} catch (e) { console.warn("Cost allocation sanity test failed", e); }
@@ -0,0 +1,71 @@
+import type { Asset, BorrowRecord, LoanPolicy, LoanRule } from "../types";
+import { addDays, daysBetween, todayStr } from "../utils";
+
+/********** loan policy: due dates and due-soon / overdue states **********/
+
+/** The 14-day limit the pool used before policies were configurable. */
+export const DEFAULT_POLICY: LoanPolicy = { max_days: 14, warn_days: 2, rules: [] };
+
+export type LoanState = "ok" | "due_soon" | "overdue";
+
+export interface LoanDue {
+  /** yyyy-mm-dd the loan should be back by */
+  due: string;
+  /** days until due; negative once overdue */
+  days: number;
+  state: LoanState;
+  /** where the due date came from */
+  source: "end_date" | "rule" | "default";
+  rule?: LoanRule;
+}
+
+const posInt = (v: unknown, fallback: number) => (Number.isInteger(v) && (v as number) > 0 ? (v as number) : fallback);
+
+/** Fills missing or invalid fields of a stored or imported policy from the defaults. */
+export function normalizePolicy(raw: unknown): LoanPolicy {
+  const p = (typeof raw === "object" && raw !== null ? raw : {}) as Partial<LoanPolicy>;
+  return {
+    max_days: posInt(p.max_days, DEFAULT_POLICY.max_days),
+    warn_days: Number.isInteger(p.warn_days) && p.warn_days! >= 0 ? p.warn_days! : DEFAULT_POLICY.warn_days,
+    rules: (Array.isArray(p.rules) ? p.rules : [])
+      .filter((r) => r && typeof r.id === "string" && posInt(r.max_days, 0) > 0)
+      .map((r) => ({ id: r.id, dept: String(r.dept ?? ""), brand: String(r.brand ?? ""), model: String(r.model ?? ""), max_days: r.max_days })),
+  };
+}
+
+const matches = (r: LoanRule, b: BorrowRecord, a: Asset | undefined) =>
+  (!r.dept || r.dept === b.borrower_dept) &&
+  (!r.brand || r.brand === a?.brand) &&
+  (!r.model || r.model === a?.model);
+
+/** Matching rule with the shortest limit, if any. */
+export const ruleFor = (b: BorrowRecord, a: Asset | undefined, policy: LoanPolicy): LoanRule | undefined =>
+  policy.rules.filter((r) => matches(r, b, a)).sort((x, y) => x.max_days - y.max_days)[0];
+
+/** Due date and state of a loan: its own end_date when set, otherwise start date + policy limit. */
+export function loanDue(b: BorrowRecord, a: Asset | undefined, policy: LoanPolicy, today: string = todayStr()): LoanDue {
+  const rule = b.end_date ? undefined : ruleFor(b, a, policy);
+  const due = b.end_date || addDays(b.start_date, rule ? rule.max_days : policy.max_days);
+  const days = daysBetween(today, due);
+  return {
+    due, days, rule,
+    state: days < 0 ? "overdue" : days <= policy.warn_days ? "due_soon" : "ok",
+    source: b.end_date ? "end_date" : rule ? "rule" : "default",
+  };
+}
+
+/** loanDue bound to the register, for views that evaluate many loans. */
+export function loanEvaluator(policy: LoanPolicy, assets: Asset[], today: string = todayStr()): (b: BorrowRecord) => LoanDue {
+  const byId = new Map(assets.map((a) => [a.asset_id, a]));
+  return (b) => loanDue(b, byId.get(b.asset_id), policy, today);
+}
+
+/********** lightweight tests (console) **********/
+try {
+  const b = { asset_id: "A", borrower_dept: "ICU", start_date: "2024-01-01", end_date: null } as BorrowRecord;
+  const a = { asset_id: "A", brand: "B", model: "M" } as Asset;
+  console.assert(loanDue(b, a, DEFAULT_POLICY, "2024-01-15").state === "due_soon" && loanDue(b, a, DEFAULT_POLICY, "2024-01-16").state === "overdue", "default limit is 14 days");
+  const policy: LoanPolicy = { ...DEFAULT_POLICY, rules: [{ id: "1", dept: "ICU", brand: "", model: "", max_days: 30 }, { id: "2", dept: "", brand: "B", model: "M", max_days: 7 }] };
+  console.assert(loanDue(b, a, policy, "2024-01-02").due === "2024-01-08", "shortest matching rule applies");
+  console.assert(loanDue({ ...b, end_date: "2024-03-01" }, a, policy, "2024-02-01").state === "ok", "end_date overrides the policy");
+} catch (e) { console.warn("Loan policy sanity test failed", e); }
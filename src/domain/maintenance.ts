@@ -0,0 +1,83 @@
+import type { Asset, ServiceKind, ServicePlan, ServiceRecord } from "../types";
+import { daysBetween, todayStr } from "../utils";
+
+/********** PM / calibration schedule **********/
+
+export const SERVICE_KINDS: ServiceKind[] = ["pm", "calibration"];
+export const KIND_LABELS: Record<ServiceKind, string> = { pm: "PM", calibration: "สอบเทียบ" };
+export const RESULT_LABELS: Record<ServiceRecord["result"], string> = { pass: "ผ่าน", adjusted: "ปรับตั้งแล้วผ่าน", fail: "ไม่ผ่าน" };
+
+/** Services due within this many days show as "due soon". */
+export const DUE_SOON_DAYS = 30;
+
+export type DueState = "ok" | "due_soon" | "overdue";
+
+export interface ServiceDue {
+  asset: Asset;
+  kind: ServiceKind;
+  plan: ServicePlan;
+  /** last service that counts towards the schedule (failed ones do not) */
+  last: ServiceRecord | undefined;
+  /** null when there is neither a passed service nor a purchase date to count from */
+  due: string | null;
+  /** days until due; negative once overdue */
+  days: number;
+  state: DueState;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** yyyy-mm-dd plus n calendar months; the day is clamped to the end of a shorter month. */
+export function addMonths(date: string, n: number): string {
+  const [y, m, d] = date.slice(0, 10).split("-").map(Number);
+  const t = new Date(Date.UTC(y, m - 1 + n, 1));
+  const last = new Date(Date.UTC(t.getUTCFullYear(), t.getUTCMonth() + 1, 0)).getUTCDate();
+  return `${t.getUTCFullYear()}-${pad(t.getUTCMonth() + 1)}-${pad(Math.min(d, last))}`;
+}
+
+/** The plan that applies to an asset: its own plan first, then the plan of its model. */
+export const planFor = (a: Asset, kind: ServiceKind, plans: ServicePlan[]): ServicePlan | undefined =>
+  plans.find((p) => p.kind === kind && p.asset_id === a.asset_id)
+  ?? plans.find((p) => p.kind === kind && !p.asset_id && p.model !== "" && p.brand === a.brand && p.model === a.model);
+
+/** Services of one asset, newest first. */
+export const serviceHistory = (assetId: string, log: ServiceRecord[]): ServiceRecord[] =>
+  log.filter((s) => s.asset_id === assetId)
+    .sort((a, b) => (b.date + b.created_at).localeCompare(a.date + a.created_at));
+
+/** Schedule of every planned service kind of an asset. */
+export function serviceDue(a: Asset, plans: ServicePlan[], log: ServiceRecord[], today: string = todayStr()): ServiceDue[] {
+  const history = serviceHistory(a.asset_id, log);
+  const out: ServiceDue[] = [];
+  SERVICE_KINDS.forEach((kind) => {
+    const plan = planFor(a, kind, plans);
+    if (!plan) return;
+    const last = history.find((s) => s.kind === kind && s.result !== "fail");
+    const from = last?.date || a.purchase_date;
+    const due = from ? addMonths(from, plan.interval_months) : null;
+    const days = due ? daysBetween(today, due) : -Infinity;
+    out.push({ asset: a, kind, plan, last, due, days, state: days < 0 ? "overdue" : days <= DUE_SOON_DAYS ? "due_soon" : "ok" });
+  });
+  return out;
+}
+
+/** Services that are due soon or overdue across the register, most urgent first. Retired assets are skipped. */
+export const dueServices = (assets: Asset[], plans: ServicePlan[], log: ServiceRecord[], today: string = todayStr()): ServiceDue[] =>
+  assets.filter((a) => a.status !== "retired")
+    .flatMap((a) => serviceDue(a, plans, log, today))
+    .filter((d) => d.state !== "ok")
+    .sort((x, y) => x.days - y.days);
+
+/********** lightweight tests (console) **********/
+try {
+  console.assert(addMonths("2024-01-31", 1) === "2024-02-29" && addMonths("2024-11-15", 3) === "2025-02-15", "addMonths clamps and wraps years");
+  const a = { asset_id: "A", brand: "B", model: "M", purchase_date: "2024-01-01", status: "in_service" } as Asset;
+  const plans: ServicePlan[] = [
+    { id: "1", kind: "pm", brand: "B", model: "M", asset_id: "", interval_months: 6 },
+    { id: "2", kind: "pm", brand: "", model: "", asset_id: "A", interval_months: 12 },
+  ];
+  const [pm] = serviceDue(a, plans, [], "2024-12-15");
+  console.assert(pm.plan.id === "2" && pm.due === "2025-01-01" && pm.state === "due_soon", "asset plan overrides model plan");
+  const failed: ServiceRecord = { id: "s", asset_id: "A", kind: "pm", date: "2024-12-01", vendor: "", result: "fail", certificate: "", created_at: "" };
+  console.assert(serviceDue(a, plans, [failed], "2025-01-02")[0].state === "overdue", "failed service does not reset the schedule");
+} catch (e) { console.warn("Maintenance sanity test failed", e); }
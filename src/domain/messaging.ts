@@ -0,0 +1,101 @@
+import type { BorrowRecord, ChannelKind, Delivery, MessageChannel, MessageEvent } from "../types";
+import type { LoanDue } from "./loanPolicy";
+import { formatDate, uid } from "../utils";
+
+/********** outbound messages: events, templates, queue **********/
+
+export const EVENTS: MessageEvent[] = ["borrow_created", "return_recorded", "due_soon", "overdue"];
+
+export const EVENT_LABELS: Record<MessageEvent, string> = {
+  borrow_created: "บันทึกยืม",
+  return_recorded: "บันทึกคืน",
+  due_soon: "ใกล้ครบกำหนดคืน",
+  overdue: "เกินกำหนดคืน",
+};
+
+export const KIND_LABELS: Record<ChannelKind, string> = {
+  webhook: "Webhook (JSON)",
+  smtp: "อีเมลผ่าน SMTP relay",
+  line: "LINE Notify",
+};
+
+/** Fields a template can use as {name}. */
+export const PLACEHOLDERS = [
+  "asset_id", "asset_name", "borrower_name", "borrower_dept", "lender_name", "peripherals",
+  "start_date", "end_date", "due_date", "days_over", "returned_at", "received_by", "tx_id", "org_name",
+] as const;
+export type MessageFields = Partial<Record<(typeof PLACEHOLDERS)[number], string | number>>;
+
+export const DEFAULT_TEMPLATES: Record<MessageEvent, string> = {
+  borrow_created: "[ยืม] {asset_id} {asset_name} → {borrower_dept} ({borrower_name}) เริ่ม {start_date} กำหนดคืน {due_date}",
+  return_recorded: "[คืน] {asset_id} {asset_name} จาก {borrower_dept} รับคืนโดย {received_by} เมื่อ {returned_at}",
+  due_soon: "[ใกล้ครบกำหนด] {asset_id} {asset_name} ที่ {borrower_dept} ({borrower_name}) ครบกำหนดคืน {due_date}",
+  overdue: "[เกินกำหนด {days_over} วัน] {asset_id} {asset_name} ที่ {borrower_dept} ({borrower_name}) ครบกำหนดคืน {due_date} — กรุณาส่งคืน {org_name}",
+};
+
+/** Fills {name} placeholders; unknown names are left as typed so a typo shows in the message. */
+export const fillTemplate = (template: string, fields: MessageFields): string =>
+  template.replace(/\{(\w+)\}/g, (m, k: string) => (k in fields ? String(fields[k as keyof MessageFields] ?? "") : m));
+
+export function loanFields(b: BorrowRecord, extra: MessageFields = {}): MessageFields {
+  return {
+    asset_id: b.asset_id, asset_name: b.asset_name, borrower_name: b.borrower_name, borrower_dept: b.borrower_dept,
+    lender_name: b.lender_name, peripherals: b.peripherals, start_date: formatDate(b.start_date),
+    end_date: formatDate(b.end_date), due_date: formatDate(b.end_date), returned_at: formatDate(b.returned_at),
+    received_by: b.inspection?.received_by ?? "", tx_id: b.group_id ?? "",
+    ...extra,
+  };
+}
+
+/** Enabled channels that take `event` for loans of `dept`. */
+export const channelsFor = (channels: MessageChannel[], event: MessageEvent, dept: string): MessageChannel[] =>
+  channels.filter((c) => c.enabled && c.events.includes(event) && (!c.dept || c.dept === dept));
+
+/**
+ * Deliveries for an event, one per matching channel. `ref` + event (+ channel) already
+ * queued are skipped, so scheduled checks can run as often as they like.
+ */
+export function queueMessages(existing: Delivery[], channels: MessageChannel[], templates: Record<MessageEvent, string>, event: MessageEvent, ref: string, dept: string, fields: MessageFields, now = new Date().toISOString()): Delivery[] {
+  const text = fillTemplate(templates[event] || DEFAULT_TEMPLATES[event], fields);
+  const subject = `Medical Pool: ${EVENT_LABELS[event]} ${fields.asset_id ?? ""}`.trim();
+  return channelsFor(channels, event, dept)
+    .filter((c) => !existing.some((d) => d.channel_id === c.id && d.event === event && d.ref === ref))
+    .map((c) => ({ id: uid(), channel_id: c.id, event, ref, subject, text, status: "pending", attempts: 0, next_at: now, error: "", created_at: now, sent_at: null }));
+}
+
+/**
+ * Loans due soon whose notice has not gone out. `sent` holds borrow ids and is kept
+ * apart from the delivery log, which gets cleared and trimmed.
+ */
+export function dueSoonPending(active: BorrowRecord[], dueOf: (b: BorrowRecord) => LoanDue, sent: string[]): BorrowRecord[] {
+  const done = new Set(sent);
+  return active.filter((b) => !done.has(b.id) && dueOf(b).state === "due_soon");
+}
+
+/** Waits between attempts; after the last one the delivery is marked failed. */
+export const RETRY_MINUTES = [1, 5, 15, 60];
+export const MAX_ATTEMPTS = RETRY_MINUTES.length + 1;
+/** Deliveries kept in the log; the oldest go first. */
+export const MAX_DELIVERIES = 500;
+
+/** The delivery after one more failed attempt. */
+export function afterFailure(d: Delivery, error: string, now = new Date()): Delivery {
+  const attempts = d.attempts + 1;
+  if (attempts >= MAX_ATTEMPTS) return { ...d, attempts, error, status: "failed" };
+  return { ...d, attempts, error, next_at: new Date(now.getTime() + RETRY_MINUTES[attempts - 1] * 60000).toISOString() };
+}
+
+/********** lightweight tests (console) **********/
+try {
+  console.assert(fillTemplate("{asset_id} {nope} {days_over}", { asset_id: "A1", days_over: 3 }) === "A1 {nope} 3", "fillTemplate keeps unknown placeholders");
+  const ch = (id: string, dept: string): MessageChannel => ({ id, name: id, kind: "webhook", dept, events: ["overdue"], url: "", token: "", to: "", enabled: true });
+  const chans = [ch("all", ""), ch("icu", "ICU"), ch("er", "ER")];
+  const q = queueMessages([], chans, DEFAULT_TEMPLATES, "overdue", "b1", "ICU", { asset_id: "A1" });
+  console.assert(q.length === 2 && queueMessages(q, chans, DEFAULT_TEMPLATES, "overdue", "b1", "ICU", {}).length === 0, "queueMessages picks department channels once");
+  let d = q[0];
+  for (let i = 0; i < MAX_ATTEMPTS; i++) d = afterFailure(d, "x");
+  console.assert(d.status === "failed" && d.attempts === MAX_ATTEMPTS, "deliveries give up after the last retry");
+  const soon = (b: BorrowRecord): LoanDue => ({ due: "", days: 1, state: b.id === "b3" ? "ok" : "due_soon" } as LoanDue);
+  const loans = ["b1", "b2", "b3"].map((id) => ({ id } as BorrowRecord));
+  console.assert(dueSoonPending(loans, soon, ["b1"]).map((b) => b.id).join() === "b2", "dueSoonPending skips loans already notified, whatever the log holds");
+} catch (e) { console.warn("Messaging sanity test failed", e); }
@@ -0,0 +1,112 @@
+import type { BorrowRecord, Department, EscalationStep, NotifyPolicy, OverdueAlert } from "../types";
+import type { LoanDue } from "./loanPolicy";
+import { daysBetween, formatDate, todayStr, uid } from "../utils";
+
+/********** overdue alerts, escalation and reminder letters **********/
+
+export const DEFAULT_NOTIFY: NotifyPolicy = {
+  enabled: true,
+  browser: false,
+  check_minutes: 15,
+  steps: [
+    { id: "s1", after_days: 1, label: "ผู้ยืม / หอผู้ป่วย" },
+    { id: "s2", after_days: 3, label: "หัวหน้าหอผู้ป่วย" },
+    { id: "s3", after_days: 7, label: "หัวหน้าพยาบาล / ผู้บริหาร" },
+  ],
+};
+
+/** Alerts kept per device; older ones are dropped first. */
+export const MAX_ALERTS = 500;
+
+/** Fills missing or invalid fields of a stored or imported policy from the defaults; steps come out sorted. */
+export function normalizeNotifyPolicy(raw: unknown): NotifyPolicy {
+  const p = (typeof raw === "object" && raw !== null ? raw : {}) as Partial<NotifyPolicy>;
+  const steps = Array.isArray(p.steps)
+    ? p.steps.filter((s) => s && typeof s.id === "string" && Number.isInteger(s.after_days) && s.after_days >= 0)
+      .map((s) => ({ id: s.id, after_days: s.after_days, label: String(s.label ?? "") }))
+    : DEFAULT_NOTIFY.steps;
+  return {
+    enabled: typeof p.enabled === "boolean" ? p.enabled : DEFAULT_NOTIFY.enabled,
+    browser: typeof p.browser === "boolean" ? p.browser : DEFAULT_NOTIFY.browser,
+    check_minutes: Number.isInteger(p.check_minutes) && p.check_minutes! > 0 ? p.check_minutes! : DEFAULT_NOTIFY.check_minutes,
+    steps: [...steps].sort((a, b) => a.after_days - b.after_days),
+  };
+}
+
+/** Highest step a loan `daysOver` past due has reached, with its 1-based level. */
+export function stepFor(daysOver: number, steps: EscalationStep[]): { step: EscalationStep; level: number } | null {
+  for (let i = steps.length - 1; i >= 0; i--) if (daysOver >= steps[i].after_days) return { step: steps[i], level: i + 1 };
+  return null;
+}
+
+/**
+ * Alerts to raise now: one per overdue loan per step it has newly reached. A loan
+ * that was already alerted at its current step (acknowledged or not) stays quiet.
+ */
+export function evaluateOverdue(active: BorrowRecord[], dueOf: (b: BorrowRecord) => LoanDue, policy: NotifyPolicy, alerts: OverdueAlert[], now = new Date().toISOString()): OverdueAlert[] {
+  if (!policy.enabled) return [];
+  const raised = new Set(alerts.map((a) => a.borrow_id + "|" + a.step_id));
+  const out: OverdueAlert[] = [];
+  for (const b of active) {
+    const d = dueOf(b);
+    if (d.state !== "overdue") continue;
+    const hit = stepFor(-d.days, policy.steps);
+    if (!hit || raised.has(b.id + "|" + hit.step.id)) continue;
+    out.push({
+      id: uid(), borrow_id: b.id, asset_id: b.asset_id, dept: b.borrower_dept, borrower_name: b.borrower_name,
+      step_id: hit.step.id, level: hit.level, label: hit.step.label, days_over: -d.days,
+      created_at: now, ack_at: null, ack_by: "",
+    });
+  }
+  return out;
+}
+
+/** Alerts still worth showing: unacknowledged, and the loan is still out. */
+export const openAlerts = (alerts: OverdueAlert[], active: BorrowRecord[]): OverdueAlert[] => {
+  const out = new Set(active.map((b) => b.id));
+  return alerts.filter((a) => !a.ack_at && out.has(a.borrow_id));
+};
+
+export interface OverdueRow { loan: BorrowRecord; due: LoanDue; days_out: number; days_over: number }
+
+/** Overdue loans grouped by borrowing department, longest overdue first. */
+export function overdueByDept(active: BorrowRecord[], dueOf: (b: BorrowRecord) => LoanDue, today = todayStr()): { dept: Department; rows: OverdueRow[] }[] {
+  const map = new Map<Department, OverdueRow[]>();
+  for (const b of active) {
+    const due = dueOf(b);
+    if (due.state !== "overdue") continue;
+    const row = { loan: b, due, days_out: daysBetween(b.start_date, today), days_over: -due.days };
+    const dept = b.borrower_dept || "(ไม่ระบุหน่วยงาน)";
+    map.set(dept, [...(map.get(dept) ?? []), row]);
+  }
+  return [...map].map(([dept, rows]) => ({ dept, rows: rows.sort((a, b) => b.days_over - a.days_over) }))
+    .sort((a, b) => a.dept.localeCompare(b.dept, "th"));
+}
+
+/** Plain-text reminder for pasting into a message or memo. */
+export function reminderText(dept: Department, rows: OverdueRow[], orgName: string, today = todayStr()): string {
+  return [
+    "เรื่อง ขอติดตามการคืนเครื่องมือแพทย์ที่เกินกำหนด",
+    `เรียน หัวหน้า ${dept}`,
+    "",
+    `ตามที่ ${dept} ได้ยืมเครื่องมือแพทย์จาก ${orgName} ขณะนี้มีรายการที่เกินกำหนดคืน ${rows.length} รายการ ดังนี้`,
+    ...rows.map((r, i) => `${i + 1}. ${r.loan.asset_id} ${r.loan.asset_name} — ผู้ยืม ${r.loan.borrower_name || "-"} ยืมเมื่อ ${formatDate(r.loan.start_date)} ครบกำหนด ${formatDate(r.due.due)} (ยืมมาแล้ว ${r.days_out} วัน เกินกำหนด ${r.days_over} วัน)`),
+    "",
+    "จึงเรียนมาเพื่อโปรดส่งคืน หรือแจ้งขอขยายเวลาการยืม เพื่อให้หน่วยงานอื่นได้ใช้เครื่องต่อ",
+    "",
+    orgName,
+    `วันที่ ${formatDate(today)}`,
+  ].join("\n");
+}
+
+/********** lightweight tests (console) **********/
+try {
+  const p = normalizeNotifyPolicy({ steps: [{ id: "b", after_days: 5, label: "B" }, { id: "a", after_days: 0, label: "A" }, { id: "x", after_days: -1 }] });
+  console.assert(p.steps.map((s) => s.id).join() === "a,b" && p.check_minutes === 15, "normalizeNotifyPolicy drops bad steps and sorts");
+  console.assert(stepFor(4, p.steps)?.level === 1 && stepFor(5, p.steps)?.level === 2 && stepFor(-1, p.steps) === null, "stepFor picks the highest step reached");
+  const b = { id: "1", asset_id: "A", borrower_dept: "ICU", borrower_name: "x", start_date: "2024-01-01" } as BorrowRecord;
+  const due = (days: number) => () => ({ due: "2024-01-10", days, state: days < 0 ? "overdue" : "ok", source: "default" }) as LoanDue;
+  const first = evaluateOverdue([b], due(-2), p, []);
+  console.assert(first.length === 1 && first[0].level === 1, "an overdue loan raises its step");
+  console.assert(evaluateOverdue([b], due(-3), p, first).length === 0 && evaluateOverdue([b], due(-6), p, first)[0]?.level === 2, "each step is raised once, escalation raises again");
+} catch (e) { console.warn("Overdue sanity test failed", e); }
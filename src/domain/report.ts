@@ -0,0 +1,209 @@
+import type { Asset, BorrowRecord, ReportColumn, ReportFilter, ReportPeriod, ReportStatus, ReportTemplate } from "../types";
+import type { LoanDue } from "./loanPolicy";
+import { modelKey } from "./analytics";
+import { daysBetween, formatDate, todayStr, uid } from "../utils";
+
+/********** report builder: one definition for screen, xlsx, xls and print **********/
+
+export type ReportCell = string | number;
+/** A template without its name: what the Report tab is currently showing. */
+export type ReportDef = Omit<ReportTemplate, "id" | "name">;
+
+export interface ReportRow {
+  loan: BorrowRecord;
+  asset: Asset | undefined;
+  due: LoanDue;
+  /** days on loan, until return or today */
+  duration: number;
+  /** days past due: until now while out, until the return once back */
+  daysOver: number;
+}
+
+interface ColumnSpec {
+  label: string;
+  /** xlsx column width in characters */
+  width: number;
+  get: (r: ReportRow) => ReportCell;
+  /** value used for sorting when the display value doesn't sort right (dates) */
+  sortBy?: (r: ReportRow) => ReportCell;
+  /** summed in group subtotals and the grand total */
+  sum?: boolean;
+}
+
+const statusLabel = (r: ReportRow) =>
+  r.loan.returned_at ? (r.daysOver > 0 ? "คืนช้า" : "คืนแล้ว") : r.due.state === "overdue" ? "เกินกำหนด" : "ยืมอยู่";
+
+export const REPORT_COLUMNS: Record<ReportColumn, ColumnSpec> = {
+  asset_id:      { label: "Asset ID", width: 12, get: (r) => r.loan.asset_id },
+  asset_name:    { label: "ชื่อเครื่อง", width: 22, get: (r) => r.loan.asset_name },
+  brand:         { label: "ยี่ห้อ", width: 12, get: (r) => r.asset?.brand ?? "" },
+  model:         { label: "รุ่น", width: 14, get: (r) => r.asset?.model ?? "" },
+  borrower_name: { label: "ผู้ยืม", width: 16, get: (r) => r.loan.borrower_name },
+  borrower_dept: { label: "แผนก", width: 10, get: (r) => r.loan.borrower_dept },
+  lender_name:   { label: "ผู้ให้ยืม", width: 14, get: (r) => r.loan.lender_name },
+  peripherals:   { label: "อุปกรณ์ต่อพ่วง", width: 20, get: (r) => r.loan.peripherals },
+  start_date:    { label: "เริ่มยืม", width: 12, get: (r) => formatDate(r.loan.start_date), sortBy: (r) => r.loan.start_date },
+  due_date:      { label: "กำหนดคืน", width: 12, get: (r) => formatDate(r.due.due), sortBy: (r) => r.due.due },
+  returned_at:   { label: "คืนจริง", width: 12, get: (r) => formatDate(r.loan.returned_at), sortBy: (r) => r.loan.returned_at ?? "" },
+  duration:      { label: "ระยะเวลา(วัน)", width: 12, get: (r) => r.duration, sum: true },
+  status:        { label: "สถานะ", width: 10, get: statusLabel },
+  days_over:     { label: "เกินกำหนด(วัน)", width: 12, get: (r) => r.daysOver, sum: true },
+  received_by:   { label: "ผู้รับคืน", width: 14, get: (r) => r.loan.inspection?.received_by ?? "" },
+  borrower_sign: { label: "ลายเซ็น", width: 10, get: (r) => (r.loan.borrower_sign ? "มี" : "") },
+};
+
+export const COLUMN_ORDER = Object.keys(REPORT_COLUMNS) as ReportColumn[];
+
+export const STATUS_FILTER_LABELS: Record<ReportStatus, string> = { all: "ทั้งหมด", active: "ยังไม่คืน", returned: "คืนแล้ว", overdue: "เกินกำหนด (รวมคืนช้า)" };
+export const PERIOD_LABELS: Record<ReportPeriod, string> = { custom: "กำหนดเอง", this_month: "เดือนนี้", last_month: "เดือนที่แล้ว", this_year: "ปีนี้" };
+export const GROUP_LABELS: Record<ReportDef["group_by"], string> = { "": "ไม่จัดกลุ่ม", dept: "หน่วยงาน", model: "รุ่น" };
+
+export const EMPTY_FILTER: ReportFilter = { period: "custom", from: "", to: "", dept: "", status: "all", asset: "", brand: "", lender: "", borrower: "" };
+
+/** The columns the report had before it could be customised. */
+export const DEFAULT_REPORT: ReportDef = {
+  columns: ["asset_id", "asset_name", "borrower_name", "borrower_dept", "lender_name", "start_date", "due_date", "returned_at", "duration", "borrower_sign"],
+  filter: EMPTY_FILTER, group_by: "", sort_by: "start_date", sort_desc: true,
+};
+
+const ymd = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+/** The from/to a filter means on `today`; "" = open-ended. */
+export function periodRange(f: ReportFilter, today = todayStr()): { from: string; to: string } {
+  const [y, m] = today.split("-").map(Number);
+  if (f.period === "this_month") return { from: ymd(new Date(y, m - 1, 1)), to: ymd(new Date(y, m, 0)) };
+  if (f.period === "last_month") return { from: ymd(new Date(y, m - 2, 1)), to: ymd(new Date(y, m - 1, 0)) };
+  if (f.period === "this_year") return { from: `${y}-01-01`, to: `${y}-12-31` };
+  return { from: f.from, to: f.to };
+}
+
+export function reportRow(loan: BorrowRecord, asset: Asset | undefined, due: LoanDue): ReportRow {
+  const end = loan.returned_at ?? new Date();
+  return {
+    loan, asset, due,
+    duration: loan.returned_at ? daysBetween(loan.start_date, loan.returned_at) : daysBetween(loan.start_date),
+    daysOver: Math.max(daysBetween(due.due, end), 0),
+  };
+}
+
+const has = (v: string, q: string) => v.toLowerCase().includes(q.trim().toLowerCase());
+
+export function matches(r: ReportRow, f: ReportFilter, today = todayStr()): boolean {
+  const { from, to } = periodRange(f, today);
+  const b = r.loan;
+  if (from && b.start_date < from) return false;
+  if (to && b.start_date > to) return false;
+  if (f.dept && (b.borrower_dept || "") !== f.dept) return false;
+  if (f.status === "active" && b.returned_at) return false;
+  if (f.status === "returned" && !b.returned_at) return false;
+  if (f.status === "overdue" && r.daysOver <= 0) return false;
+  if (f.asset.trim() && !has(b.asset_id, f.asset) && !has(b.asset_name, f.asset)) return false;
+  if (f.brand && r.asset?.brand !== f.brand) return false;
+  if (f.lender.trim() && !has(b.lender_name, f.lender)) return false;
+  if (f.borrower.trim() && !has(b.borrower_name, f.borrower)) return false;
+  return true;
+}
+
+export interface ReportGroup {
+  /** "" when the report isn't grouped */
+  label: string;
+  rows: ReportRow[];
+  subtotal: ReportCell[];
+}
+
+export interface Report {
+  def: ReportDef;
+  /** human-readable filter summary for headers */
+  caption: string;
+  groups: ReportGroup[];
+  total: ReportCell[];
+  count: number;
+}
+
+const totals = (rows: ReportRow[], columns: ReportColumn[], label: string): ReportCell[] =>
+  columns.map((c, i) => {
+    const spec = REPORT_COLUMNS[c];
+    if (spec.sum) return rows.reduce((n, r) => n + Number(spec.get(r)), 0);
+    return i === 0 ? `${label} ${rows.length} รายการ` : "";
+  });
+
+export function captionOf(def: ReportDef, today = todayStr()): string {
+  const f = def.filter, { from, to } = periodRange(f, today);
+  const parts = [
+    from || to ? `${from ? formatDate(from) : "…"} – ${to ? formatDate(to) : "…"}` : "",
+    f.status !== "all" ? STATUS_FILTER_LABELS[f.status] : "",
+    f.dept && `แผนก ${f.dept}`, f.brand && `ยี่ห้อ ${f.brand}`, f.asset.trim() && `เครื่อง "${f.asset.trim()}"`,
+    f.lender.trim() && `ผู้ให้ยืม "${f.lender.trim()}"`, f.borrower.trim() && `ผู้ยืม "${f.borrower.trim()}"`,
+    def.group_by ? `จัดกลุ่มตาม${GROUP_LABELS[def.group_by]}` : "",
+  ];
+  return parts.filter(Boolean).join(" • ");
+}
+
+/** Filters, sorts and groups the loans; every output renders from the result. */
+export function buildReport(def: ReportDef, borrows: BorrowRecord[], assets: Asset[], dueOf: (b: BorrowRecord) => LoanDue, today = todayStr()): Report {
+  const byId = new Map(assets.map((a) => [a.asset_id, a]));
+  const spec = REPORT_COLUMNS[def.sort_by] ?? REPORT_COLUMNS.start_date;
+  const key = spec.sortBy ?? spec.get;
+  const dir = def.sort_desc ? -1 : 1;
+  const rows = borrows.map((b) => reportRow(b, byId.get(b.asset_id), dueOf(b))).filter((r) => matches(r, def.filter, today))
+    .sort((a, b) => {
+      const x = key(a), y = key(b);
+      return dir * (typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y)));
+    });
+
+  const groupOf = (r: ReportRow) => (def.group_by === "dept" ? r.loan.borrower_dept || "-" : def.group_by === "model" ? (r.asset ? modelKey(r.asset) : "-") : "");
+  const grouped = new Map<string, ReportRow[]>();
+  for (const r of rows) {
+    const k = groupOf(r);
+    if (grouped.has(k)) grouped.get(k)!.push(r);
+    else grouped.set(k, [r]);
+  }
+  const groups = [...grouped].sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([label, rs]) => ({ label, rows: rs, subtotal: totals(rs, def.columns, label ? `รวม ${label}` : "รวม") }));
+
+  return { def, caption: captionOf(def, today), groups, total: totals(rows, def.columns, "รวมทั้งหมด"), count: rows.length };
+}
+
+/** Header, group and subtotal rows as one array-of-arrays for SheetJS; `groupRows` are indexes of group heading rows. */
+export function reportAoa(report: Report, orgName: string, title: string, printedAt = new Date()): { aoa: ReportCell[][]; groupRows: number[] } {
+  const { columns, group_by } = report.def;
+  const aoa: ReportCell[][] = [[orgName], [title, printedAt.toLocaleString()], [report.caption], columns.map((c) => REPORT_COLUMNS[c].label)];
+  const groupRows: number[] = [];
+  for (const g of report.groups) {
+    if (group_by) { groupRows.push(aoa.length); aoa.push([g.label]); }
+    for (const r of g.rows) aoa.push(columns.map((c) => REPORT_COLUMNS[c].get(r)));
+    if (group_by) aoa.push(g.subtotal);
+  }
+  aoa.push(report.total);
+  return { aoa, groupRows };
+}
+
+export function newTemplate(name: string, def: ReportDef): ReportTemplate {
+  return { id: uid(), name: name.trim(), ...def };
+}
+
+/** Drops unknown columns and fills filter fields added since the template was saved. */
+export function templateDef(t: ReportTemplate): ReportDef {
+  const columns = (t.columns ?? []).filter((c) => c in REPORT_COLUMNS);
+  return {
+    columns: columns.length ? columns : DEFAULT_REPORT.columns,
+    filter: { ...EMPTY_FILTER, ...t.filter },
+    group_by: t.group_by in GROUP_LABELS ? t.group_by : "",
+    sort_by: t.sort_by in REPORT_COLUMNS ? t.sort_by : "start_date",
+    sort_desc: !!t.sort_desc,
+  };
+}
+
+/********** lightweight tests (console) **********/
+try {
+  const due = (d: string): LoanDue => ({ due: d, days: 0, state: "ok", source: "end_date" });
+  const loan = (id: string, dept: string, start: string, returned: string | null): BorrowRecord => ({ id, asset_id: id, asset_name: "Pump " + id, peripherals: "", lender_name: "Nok", borrower_name: "Ann", borrower_dept: dept, start_date: start, end_date: null, returned_at: returned, borrower_sign: null, created_at: start, group_id: null, receiver_sign: null, inspection: null });
+  const borrows = [loan("A", "ICU", "2024-03-01", "2024-03-11T00:00:00Z"), loan("B", "ER", "2024-03-05", "2024-03-06T00:00:00Z"), loan("C", "ICU", "2024-02-01", "2024-02-02T00:00:00Z")];
+  const def: ReportDef = { ...DEFAULT_REPORT, columns: ["asset_id", "duration", "days_over"], filter: { ...EMPTY_FILTER, period: "last_month", status: "overdue" }, group_by: "dept", sort_by: "duration" };
+  const rep = buildReport(def, borrows, [], () => due("2024-03-08"), "2024-04-15");
+  console.assert(periodRange(def.filter, "2024-01-10").from === "2023-12-01" && periodRange(def.filter, "2024-01-10").to === "2023-12-31", "last_month crosses the year");
+  console.assert(rep.count === 1 && rep.groups[0].label === "ICU" && rep.groups[0].subtotal.join() === "รวม ICU 1 รายการ,10,3", "overdue filter, grouping and subtotals");
+  const { aoa } = reportAoa(buildReport({ ...def, filter: EMPTY_FILTER }, borrows, [], () => due("2024-03-08"), "2024-04-15"), "Org", "T");
+  console.assert(aoa[aoa.length - 1].join() === "รวมทั้งหมด 3 รายการ,12,3" && aoa.filter((r) => r.length === 1 && (r[0] === "ER" || r[0] === "ICU")).length === 2, "reportAoa lays out groups and the grand total");
+  console.assert(templateDef({ id: "t", name: "x", columns: ["nope" as ReportColumn], filter: {} as ReportFilter, group_by: "dept", sort_by: "duration", sort_desc: true }).columns.length === DEFAULT_REPORT.columns.length, "templateDef repairs old templates");
+} catch (e) { console.warn("Report sanity test failed", e); }
@@ -0,0 +1,42 @@
+import type { BorrowRecord, Reservation } from "../types";
+import type { LoanDue } from "./loanPolicy";
+import { todayStr } from "../utils";
+
+/********** reservations: occupancy and conflicts **********/
+
+/** A span of days (yyyy-mm-dd, both ends inclusive) during which an asset is taken. */
+export interface Busy {
+  kind: "loan" | "booking";
+  asset_id: string;
+  from: string;
+  to: string;
+  dept: string;
+  who: string;
+  /** id of the BorrowRecord or Reservation */
+  ref: string;
+}
+
+export const overlaps = (a: { from: string; to: string }, b: { from: string; to: string }) => a.from <= b.to && b.from <= a.to;
+
+/**
+ * Everything that holds assets from `today` on: active loans until their due date
+ * (or today, while overdue) and bookings that are still open.
+ */
+export function occupancy(borrows: BorrowRecord[], reservations: Reservation[], dueOf: (b: BorrowRecord) => LoanDue, today: string = todayStr()): Busy[] {
+  const loans: Busy[] = borrows.filter((b) => !b.returned_at).map((b) => {
+    const due = dueOf(b).due;
+    return { kind: "loan", asset_id: b.asset_id, from: b.start_date, to: due > today ? due : today, dept: b.borrower_dept, who: b.borrower_name, ref: b.id };
+  });
+  const bookings: Busy[] = reservations.filter((r) => r.status === "booked" && r.end_date >= today).map((r) => (
+    { kind: "booking", asset_id: r.asset_id, from: r.start_date, to: r.end_date, dept: r.dept, who: r.requester, ref: r.id }
+  ));
+  return [...loans, ...bookings].sort((x, y) => x.from.localeCompare(y.from));
+}
+
+/** Loans and bookings of the same asset that overlap the requested span; `ignore` skips one record (the one being edited or converted). */
+export const conflictsFor = (busy: Busy[], req: { asset_id: string; from: string; to: string }, ignore?: string): Busy[] =>
+  busy.filter((b) => b.asset_id === req.asset_id && b.ref !== ignore && overlaps(b, req));
+
+/** Open bookings, soonest first. */
+export const openReservations = (reservations: Reservation[], today: string = todayStr()): Reservation[] =>
+  reservations.filter((r) => r.status === "booked" && r.end_date >= today).sort((a, b) => a.start_date.localeCompare(b.start_date));
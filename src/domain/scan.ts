@@ -0,0 +1,43 @@
+import type { Asset, BorrowRecord } from "../types";
+
+/********** scanned code → asset **********/
+
+/**
+ * Finds the asset a scanned label refers to. Labels carry the plain asset_id, but
+ * older stickers may hold the ID CODE or the serial, and links may carry `asset=<id>`.
+ */
+export function resolveScan(code: string, assets: Asset[]): Asset | undefined {
+  let v = code.trim();
+  const param = /[?#&]asset=([^&#]+)/.exec(v);
+  if (param) v = decodeURIComponent(param[1]);
+  if (!v) return undefined;
+  const lower = v.toLowerCase();
+  return assets.find((a) => a.asset_id === v)
+    ?? assets.find((a) => a.asset_id.toLowerCase() === lower)
+    ?? assets.find((a) => a.id_code && a.id_code.toLowerCase() === lower)
+    ?? assets.find((a) => a.serial && a.serial.toLowerCase() === lower);
+}
+
+/**
+ * Link printed as the QR of a handover slip. Opened in a browser it leads back to the
+ * loan (or its transaction); scanned at the desk, `asset=` makes it work like a label.
+ */
+export function loanLink(b: BorrowRecord, base: string): string {
+  const ref = b.group_id ? `tx=${encodeURIComponent(b.group_id)}` : `loan=${encodeURIComponent(b.id)}`;
+  return `${base}?${ref}&asset=${encodeURIComponent(b.asset_id)}`;
+}
+
+/** The loan or transaction a page was opened for, from its query string. */
+export function linkedLoan(search: string): { loan?: string; tx?: string } | null {
+  const q = new URLSearchParams(search);
+  const loan = q.get("loan") ?? undefined, tx = q.get("tx") ?? undefined;
+  return loan || tx ? { loan, tx } : null;
+}
+
+/********** lightweight tests (console) **********/
+try {
+  const a = { asset_id: "MP-001", id_code: "ID9", serial: "SN1" } as Asset;
+  const link = loanLink({ id: "b1", asset_id: "MP-001", group_id: "TX-240131-K3F9" } as BorrowRecord, "https://pool.example/app/");
+  console.assert(resolveScan(link, [a]) === a, "a slip QR scans like a label");
+  console.assert(linkedLoan(link.slice(link.indexOf("?")))?.tx === "TX-240131-K3F9" && linkedLoan("?asset=MP-001") === null, "linkedLoan");
+} catch (e) { console.warn("Scan sanity test failed", e); }
@@ -0,0 +1,77 @@
+import type { StaffAccount, StaffRole } from "../types";
+
+/********** staff accounts, roles and PINs **********/
+
+export const ROLES: StaffRole[] = ["admin", "engineer", "nurse", "viewer"];
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  admin: "ผู้ดูแลระบบ",
+  engineer: "วิศวกร/ช่าง",
+  nurse: "พยาบาล",
+  viewer: "ดูอย่างเดียว",
+};
+
+/**
+ * assets: register, edit, status and PM/calibration · delete: delete or retire assets and plans ·
+ * lend: borrow, return, bookings and waitlist · settings: the Settings tab · reset: wipe all data
+ */
+export type Permission = "assets" | "delete" | "lend" | "settings" | "reset";
+
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  admin: ["assets", "delete", "lend", "settings", "reset"],
+  engineer: ["assets", "delete", "lend"],
+  nurse: ["lend"],
+  viewer: [],
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  assets: "จัดการทะเบียนเครื่องมือ",
+  delete: "ลบเครื่องมือ",
+  lend: "บันทึกยืม-คืน",
+  settings: "ตั้งค่าระบบ",
+  reset: "ล้างข้อมูลทั้งหมด",
+};
+
+/** With no active account the app is open to everyone, as before accounts existed. */
+export const can = (user: StaffAccount | null, secured: boolean, p: Permission): boolean =>
+  !secured || (!!user && ROLE_PERMISSIONS[user.role].includes(p));
+
+/** Accounts shared through a sync server arrive without a PIN until one is set on this device. */
+export const hasPin = (s: StaffAccount): boolean => !!s.pin_hash && !!s.salt;
+
+/** The account without its PIN hash and salt, as it travels to a sync server. */
+export const withoutPin = (s: StaffAccount): StaffAccount => ({ ...s, pin_hash: "", salt: "" });
+
+export const isSecured = (staff: StaffAccount[]): boolean => staff.some((s) => s.active && hasPin(s));
+
+/** Whether the account may be deactivated or demoted without leaving nobody able to manage accounts. */
+export const isLastAdmin = (staff: StaffAccount[], id: string): boolean =>
+  !staff.some((s) => s.id !== id && s.active && s.role === "admin") && staff.some((s) => s.id === id && s.active && s.role === "admin");
+
+export const DEFAULT_LOCK_MINUTES = 5;
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+const hex = (buf: ArrayBuffer) => Array.from(new Uint8Array(buf), (b) => b.toString(16).padStart(2, "0")).join("");
+
+export const newSalt = (): string => hex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+
+/** PBKDF2-SHA-256 of the PIN; only this hash and its salt are stored. */
+export async function hashPin(pin: string, salt: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt: new TextEncoder().encode(salt), iterations: 100_000 }, key, 256);
+  return hex(bits);
+}
+
+export const verifyPin = async (account: StaffAccount, pin: string): Promise<boolean> =>
+  hasPin(account) && (await hashPin(pin, account.salt)) === account.pin_hash;
+
+/********** lightweight tests (console) **********/
+try {
+  const a = (id: string, role: StaffRole, active = true) => ({ id, name: id, role, pin_hash: "", salt: "", active, created_at: "" });
+  const staff = [a("1", "admin"), a("2", "nurse"), a("3", "admin", false)];
+  console.assert(can(null, false, "reset") && !can(null, true, "lend") && !can(staff[1], true, "assets") && can(staff[0], true, "reset"), "can follows roles once secured");
+  console.assert(can(staff[1], true, "lend") && !can(staff[1], true, "assets"), "a nurse can take returns but not change asset status by hand");
+  console.assert(isLastAdmin(staff, "1") && !isLastAdmin(staff, "2"), "isLastAdmin ignores inactive admins");
+  const pinned = { ...staff[0], pin_hash: "h", salt: "s" };
+  console.assert(isSecured([pinned]) && !isSecured([withoutPin(pinned)]), "accounts without a PIN on this device don't lock it");
+} catch (e) { console.warn("Staff sanity test failed", e); }
@@ -0,0 +1,53 @@
+import type { Asset, BorrowRecord, ServicePlan, ServiceRecord } from "../types";
+import { loanDays } from "./usage";
+import { serviceDue } from "./maintenance";
+import { matchesType } from "./waitlist";
+import { daysBetween } from "../utils";
+
+/********** unit suggestion for type-first borrowing **********/
+
+export type SuggestStrategy = "least_used" | "longest_idle" | "pm_furthest";
+
+export const STRATEGY_LABELS: Record<SuggestStrategy, string> = {
+  least_used: "ใช้งานน้อยที่สุด",
+  longest_idle: "ว่างนานที่สุด",
+  pm_furthest: "ครบกำหนด PM ไกลที่สุด",
+};
+
+export interface UnitCandidate {
+  asset: Asset;
+  loans: number;
+  usedDays: number;
+  /** days since the last return (or purchase); Infinity when never used and no purchase date */
+  idleDays: number;
+  /** days until the nearest PM / calibration; Infinity without a plan */
+  pmDays: number;
+}
+
+/** Units of a device type that can be lent now, best first for the chosen strategy. */
+export function suggestUnits(
+  type: { brand: string; model: string; name: string },
+  assets: Asset[], borrows: BorrowRecord[], activeIds: string[],
+  plans: ServicePlan[], log: ServiceRecord[], strategy: SuggestStrategy, now: Date = new Date(),
+): UnitCandidate[] {
+  const units = assets.filter((a) => a.status === "in_service" && !activeIds.includes(a.asset_id) && matchesType(type, a));
+  const out = units.map((asset): UnitCandidate => {
+    const mine = borrows.filter((b) => b.asset_id === asset.asset_id);
+    const lastBack = mine.reduce((m, b) => (b.returned_at && b.returned_at > m ? b.returned_at : m), "");
+    const since = lastBack || asset.purchase_date;
+    const due = serviceDue(asset, plans, log).map((d) => d.days);
+    return {
+      asset,
+      loans: mine.length,
+      usedDays: mine.reduce((n, b) => n + loanDays(b, now), 0),
+      idleDays: since ? daysBetween(since, now) : Infinity,
+      pmDays: due.length ? Math.min(...due) : Infinity,
+    };
+  });
+  const by: Record<SuggestStrategy, (x: UnitCandidate, y: UnitCandidate) => number> = {
+    least_used: (x, y) => x.usedDays - y.usedDays || x.loans - y.loans,
+    longest_idle: (x, y) => (y.idleDays === x.idleDays ? 0 : y.idleDays > x.idleDays ? 1 : -1),
+    pm_furthest: (x, y) => (y.pmDays === x.pmDays ? 0 : y.pmDays > x.pmDays ? 1 : -1),
+  };
+  return out.sort((x, y) => by[strategy](x, y) || x.asset.asset_id.localeCompare(y.asset.asset_id));
+}
@@ -0,0 +1,69 @@
+import type { Asset, BorrowRecord, Department } from "../types";
+import { daysBetween, isValidDate } from "../utils";
+
+/********** loan duration & utilization **********/
+
+const DAY = 86400000;
+
+/** Days a loan has lasted: until `returned_at`, or until now while it is still out. */
+export const loanDays = (b: BorrowRecord, now: Date = new Date()): number =>
+  Math.max(b.returned_at ? daysBetween(b.start_date, b.returned_at) : daysBetween(b.start_date, now), 0);
+
+/** [start, end) of a loan in epoch ms; open loans end now. */
+export function loanInterval(b: BorrowRecord, now: Date = new Date()): [number, number] | null {
+  const s = new Date(b.start_date), e = b.returned_at ? new Date(b.returned_at) : now;
+  if (!isValidDate(s) || !isValidDate(e)) return null;
+  return [s.getTime(), Math.max(e.getTime(), s.getTime())];
+}
+
+/** Total length of the union of intervals, so overlapping records are not counted twice. */
+export function busyMs(intervals: Array<[number, number]>): number {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  let total = 0, curS = -Infinity, curE = -Infinity;
+  for (const [s, e] of sorted) {
+    if (s > curE) { if (curE > curS) total += curE - curS; curS = s; curE = e; }
+    else curE = Math.max(curE, e);
+  }
+  if (curE > curS) total += curE - curS;
+  return total;
+}
+
+export interface AssetUsage {
+  /** every loan of the asset, newest first */
+  loans: BorrowRecord[];
+  active: BorrowRecord | undefined;
+  totalDays: number;
+  /** days from purchase (or first loan) until now */
+  windowDays: number;
+  /** share of windowDays spent on loan, 0–1; null without a start date */
+  utilization: number | null;
+  depts: { dept: Department; loans: number; days: number }[];
+}
+
+export function assetUsage(assetId: string, asset: Asset | undefined, borrows: BorrowRecord[], now: Date = new Date()): AssetUsage {
+  const loans = borrows.filter((b) => b.asset_id === assetId)
+    .sort((a, b) => (b.start_date + b.created_at).localeCompare(a.start_date + a.created_at));
+  const intervals = loans.map((b) => loanInterval(b, now)).filter((x): x is [number, number] => !!x);
+  const starts = intervals.map((i) => i[0]);
+  const bought = asset?.purchase_date ? new Date(asset.purchase_date).getTime() : NaN;
+  if (!isNaN(bought)) starts.push(bought);
+  const from = starts.length ? Math.min(...starts) : null;
+  const windowDays = from !== null ? Math.max(Math.ceil((now.getTime() - from) / DAY), 1) : 0;
+
+  const byDept = new Map<string, { dept: string; loans: number; days: number }>();
+  loans.forEach((b) => {
+    const k = b.borrower_dept || "-";
+    const d = byDept.get(k) ?? { dept: k, loans: 0, days: 0 };
+    d.loans++; d.days += loanDays(b, now);
+    byDept.set(k, d);
+  });
+
+  return {
+    loans,
+    active: loans.find((b) => !b.returned_at),
+    totalDays: loans.reduce((n, b) => n + loanDays(b, now), 0),
+    windowDays,
+    utilization: windowDays ? Math.min(busyMs(intervals) / (windowDays * DAY), 1) : null,
+    depts: [...byDept.values()].sort((a, b) => b.days - a.days || b.loans - a.loans),
+  };
+}
@@ -0,0 +1,46 @@
+import type { Asset, WaitlistEntry } from "../types";
+
+/********** request queue by device type **********/
+
+export const PRIORITIES: WaitlistEntry["priority"][] = ["urgent", "high", "normal"];
+export const PRIORITY_LABELS: Record<WaitlistEntry["priority"], string> = { urgent: "ด่วนมาก", high: "ด่วน", normal: "ปกติ" };
+
+/** A requestable kind of device, derived from the register. */
+export interface DeviceType {
+  key: string;
+  brand: string;
+  model: string;
+  name: string;
+}
+
+const norm = (s: string) => s.trim().toLowerCase();
+
+export const typeKey = (t: { brand: string; model: string; name: string }): string =>
+  t.model ? `m:${t.brand}\u0000${t.model}` : `n:${norm(t.name)}`;
+
+export const typeLabel = (t: { brand: string; model: string; name: string }): string =>
+  t.model ? `${t.name} — ${t.brand} ${t.model}`.trim() : t.name;
+
+/** Whether an asset is a unit of the requested type. */
+export const matchesType = (t: { brand: string; model: string; name: string }, a: Asset): boolean =>
+  t.model ? a.brand === t.brand && a.model === t.model : norm(a.name) === norm(t.name);
+
+/** Distinct device types of the register: one per brand/model, plus one per name for assets without a model. */
+export function deviceTypes(assets: Asset[]): DeviceType[] {
+  const out = new Map<string, DeviceType>();
+  assets.filter((a) => a.status !== "retired").forEach((a) => {
+    const t = { brand: a.model ? a.brand : "", model: a.model, name: a.name };
+    const key = typeKey(t);
+    if (!out.has(key)) out.set(key, { key, ...t });
+  });
+  return [...out.values()].sort((x, y) => typeLabel(x).localeCompare(typeLabel(y)));
+}
+
+/** Waiting entries in service order: priority first, then who asked first. */
+export const waitingQueue = (list: WaitlistEntry[]): WaitlistEntry[] =>
+  list.filter((w) => w.status === "waiting")
+    .sort((a, b) => PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority) || a.requested_at.localeCompare(b.requested_at));
+
+/** The next entry a returned asset should go to, if anyone is waiting for its type. */
+export const nextInQueue = (a: Asset, list: WaitlistEntry[]): WaitlistEntry | undefined =>
+  waitingQueue(list).find((w) => matchesType(w, a));
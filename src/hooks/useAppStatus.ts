@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import { onUpdateReady, updateReady } from "../pwa/register";
+
+/** navigator.onLine, following the online/offline events. */
+export function useOnline(): boolean {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const on = () => setOnline(true), off = () => setOnline(false);
+    window.addEventListener("online", on);
+    window.addEventListener("offline", off);
+    return () => { window.removeEventListener("online", on); window.removeEventListener("offline", off); };
+  }, []);
+  return online;
+}
+
+/** Whether a newer release is downloaded and waiting for the user to switch. */
+export function useUpdateReady(): boolean {
+  const [ready, setReady] = useState(updateReady);
+  useEffect(() => onUpdateReady(() => setReady(true)), []);
+  return ready;
+}
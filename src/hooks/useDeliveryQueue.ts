@@ -0,0 +1,47 @@
+import { useEffect, useRef } from "react";
+import type { Delivery, MessageChannel } from "../types";
+import { ADAPTERS } from "../messaging/adapters";
+import { afterFailure } from "../domain/messaging";
+
+const TICK_MS = 30000;
+
+/**
+ * Sends pending deliveries whose `next_at` has come, one at a time, every 30 s while
+ * the app is open; failures are rescheduled by afterFailure. One tab sends at a time.
+ */
+export function useDeliveryQueue(deliveries: Delivery[], channels: MessageChannel[], update: (id: string, fn: (d: Delivery) => Delivery) => void) {
+  const latest = useRef({ deliveries, channels, update });
+  latest.current = { deliveries, channels, update };
+  const busy = useRef(false);
+
+  useEffect(() => {
+    const run = async () => {
+      const now = new Date().toISOString();
+      for (const d of latest.current.deliveries.filter((x) => x.status === "pending" && x.next_at <= now)) {
+        const { channels, update } = latest.current;
+        const channel = channels.find((c) => c.id === d.channel_id);
+        if (!channel) { update(d.id, (x) => ({ ...x, status: "failed", error: "ช่องทางนี้ถูกลบแล้ว" })); continue; }
+        try {
+          await ADAPTERS[channel.kind](channel, d);
+          update(d.id, (x) => ({ ...x, status: "sent", attempts: x.attempts + 1, error: "", sent_at: new Date().toISOString() }));
+        } catch (e: any) {
+          update(d.id, (x) => afterFailure(x, e?.message || String(e)));
+        }
+      }
+    };
+    const tick = async () => {
+      if (busy.current || !navigator.onLine) return;
+      busy.current = true;
+      try {
+        if (navigator.locks) await navigator.locks.request("mp:deliveries", { ifAvailable: true }, (lock) => (lock ? run() : undefined));
+        else await run();
+      } finally {
+        busy.current = false;
+      }
+    };
+    tick();
+    const t = setInterval(tick, TICK_MS);
+    window.addEventListener("online", tick);
+    return () => { clearInterval(t); window.removeEventListener("online", tick); };
+  }, []);
+}
@@ -0,0 +1,18 @@
+import { useEffect, useRef } from "react";
+
+const ACTIVITY = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+/** Calls `onIdle` once nobody has touched the page for `minutes`; 0 turns it off. */
+export function useIdleLock(minutes: number, onIdle: () => void, enabled = true) {
+  const cb = useRef(onIdle);
+  cb.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled || !(minutes > 0)) return;
+    const ms = minutes * 60000;
+    let timer = setTimeout(() => cb.current(), ms);
+    const reset = () => { clearTimeout(timer); timer = setTimeout(() => cb.current(), ms); };
+    ACTIVITY.forEach((e) => window.addEventListener(e, reset, { passive: true, capture: true }));
+    return () => { clearTimeout(timer); ACTIVITY.forEach((e) => window.removeEventListener(e, reset, { capture: true })); };
+  }, [minutes, enabled]);
+}
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * Picks up USB/Bluetooth "keyboard wedge" scanners, which type the code very fast and
+ * finish with Enter. Human typing is too slow to trigger it, so normal inputs keep working.
+ */
+export function useKeyboardWedge(onScan: (code: string) => void, enabled = true, { maxGap = 40, minLength = 3 } = {}) {
+  const cb = useRef(onScan);
+  cb.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let buf = "";
+    let last = 0;
+    const onKey = (e: KeyboardEvent) => {
+      const now = performance.now();
+      if (now - last > maxGap) buf = "";
+      last = now;
+      if (e.key === "Enter") {
+        if (buf.length >= minLength) { e.preventDefault(); cb.current(buf); }
+        buf = "";
+      } else if (e.key.length === 1) {
+        buf += e.key;
+      }
+    };
+    window.addEventListener("keydown", onKey, true);
+    return () => window.removeEventListener("keydown", onKey, true);
+  }, [enabled, maxGap, minLength]);
+}
@@ -1,22 +0,0 @@
-import { useEffect, useState } from "react";
-
-export function useLocalStorage<T>(key: string, initialValue: T) {
-  const [value, setValue] = useState<T>(() => {
-    try {
-      const raw = localStorage.getItem(key);
-      return raw ? (JSON.parse(raw) as T) : initialValue;
-    } catch {
-      return initialValue;
-    }
-  });
-
-  useEffect(() => {
-    try {
-      localStorage.setItem(key, JSON.stringify(value));
-    } catch {
-      // กัน error ตอน localStorage เต็ม หรือ private mode
-    }
-  }, [key, value]);
-
-  return [value, setValue] as const;
-}
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from "react";
+import type { BorrowRecord, NotifyPolicy, OverdueAlert } from "../types";
+import type { LoanDue } from "../domain/loanPolicy";
+import { evaluateOverdue } from "../domain/overdue";
+
+/** Shows one browser notification per alert; through the service worker where there is one (needed on Android). */
+async function notifyBrowser(list: OverdueAlert[]) {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+  const reg = await navigator.serviceWorker?.getRegistration().catch(() => undefined);
+  for (const a of list) {
+    const title = `เกินกำหนดคืน ${a.days_over} วัน — ${a.asset_id}`;
+    const options = { body: `${a.dept || "-"} · ${a.borrower_name || "-"}\nแจ้งขั้นที่ ${a.level}: ${a.label}`, tag: a.id, icon: new URL("icon-192.png", document.baseURI).href };
+    if (reg) reg.showNotification(title, options).catch(() => {});
+    else new Notification(title, options);
+  }
+}
+
+/**
+ * Checks the active loans on open and every `check_minutes`, and hands newly reached
+ * escalation steps to `onRaise`.
+ */
+export function useOverdueWatch(active: BorrowRecord[], dueOf: (b: BorrowRecord) => LoanDue, policy: NotifyPolicy, alerts: OverdueAlert[], onRaise: (list: OverdueAlert[]) => void) {
+  const latest = useRef({ active, dueOf, policy, alerts, onRaise });
+  latest.current = { active, dueOf, policy, alerts, onRaise };
+
+  useEffect(() => {
+    if (!policy.enabled) return;
+    const check = () => {
+      const { active, dueOf, policy, alerts, onRaise } = latest.current;
+      const list = evaluateOverdue(active, dueOf, policy, alerts);
+      if (!list.length) return;
+      // mark them raised right away so an overlapping check can't raise them twice
+      latest.current.alerts = [...list, ...alerts];
+      onRaise(list);
+      if (policy.browser) notifyBrowser(list);
+    };
+    check();
+    const t = setInterval(check, policy.check_minutes * 60000);
+    return () => clearInterval(t);
+  }, [policy.enabled, policy.check_minutes]);
+}
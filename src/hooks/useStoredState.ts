@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+import { getCached, hasCached, saveValue, subscribeKey } from "../storage/repository";
+
+/**
+ * useState persisted through the repository (IndexedDB). Starts from the value loaded
+ * at boot, writes on change and follows updates made in other tabs.
+ */
+export function useStoredState<T>(key: string, initialValue: T) {
+  const [value, setValue] = useState<T>(() => (hasCached(key) ? getCached<T>(key) : initialValue));
+
+  useEffect(() => subscribeKey(key, (v) => setValue(v as T)), [key]);
+
+  useEffect(() => {
+    // values that came from the cache (boot or another tab) are already stored
+    if (!hasCached(key) || getCached<T>(key) !== value) saveValue(key, value);
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
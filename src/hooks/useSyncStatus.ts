@@ -0,0 +1,9 @@
+import { useEffect, useState } from "react";
+import { getSyncStatus, subscribeSync, type SyncStatus } from "../storage/sync";
+
+/** Live status of the sync engine (mode, online, queued edits, last round). */
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState(getSyncStatus);
+  useEffect(() => subscribeSync(setStatus), []);
+  return status;
+}
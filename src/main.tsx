@@ -1,10 +1,29 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { openRepository } from './storage/repository'
+import { startSync } from './storage/sync'
+import { registerServiceWorker } from './pwa/register'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
+const root = ReactDOM.createRoot(document.getElementById('root')!)
+
+// cache the app shell so wards can open the app without a network
+registerServiceWorker()
+
+// load, migrate + validate stored data before any component reads it
+openRepository().then(
+  (boot) => {
+    // a pool written by a newer release is read-only, so there is nothing to send
+    if (!boot.newer) startSync()
+    root.render(
+      <React.StrictMode>
+        <App boot={boot} />
+      </React.StrictMode>
+    )
+  },
+  (e) => {
+    console.error('Failed to open storage', e)
+    root.render(<div style={{ padding: 24, color: '#b91c1c' }}>เปิดฐานข้อมูลในเบราว์เซอร์ไม่สำเร็จ: {String(e?.message || e)}</div>)
+  }
 )
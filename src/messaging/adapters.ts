@@ -0,0 +1,44 @@
+import type { ChannelKind, Delivery, MessageChannel } from "../types";
+
+/**
+ * One adapter per channel kind; each resolves once the endpoint accepted the message
+ * and throws with a short reason otherwise. Browsers can't speak SMTP, so e-mail goes
+ * through an HTTP relay, and LINE's own API does not allow browser calls — point
+ * those channels at a relay on the hospital network (or the mock in server/).
+ */
+export type Adapter = (channel: MessageChannel, d: Delivery) => Promise<void>;
+
+const TIMEOUT_MS = 15000;
+
+async function post(url: string, init: RequestInit) {
+  if (!/^https?:\/\//.test(url)) throw new Error("ยังไม่ได้ตั้งที่อยู่ปลายทาง");
+  const ctl = new AbortController();
+  const timer = setTimeout(() => ctl.abort(), TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { method: "POST", ...init, signal: ctl.signal });
+    if (!res.ok) throw new Error(`ปลายทางตอบกลับ ${res.status}`);
+  } catch (e: any) {
+    throw e?.name === "AbortError" ? new Error("ปลายทางไม่ตอบสนอง") : e instanceof TypeError ? new Error("เชื่อมต่อปลายทางไม่ได้") : e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const bearer = (token: string): Record<string, string> => (token ? { Authorization: `Bearer ${token}` } : {});
+
+export const ADAPTERS: Record<ChannelKind, Adapter> = {
+  webhook: (c, d) => post(c.url, {
+    headers: { "Content-Type": "application/json", ...bearer(c.token) },
+    body: JSON.stringify({ event: d.event, ref: d.ref, subject: d.subject, text: d.text, created_at: d.created_at }),
+  }),
+  smtp: (c, d) => {
+    const to = c.to.split(/[,;\s]+/).filter(Boolean);
+    if (!to.length) return Promise.reject(new Error("ยังไม่ได้ระบุอีเมลผู้รับ"));
+    return post(c.url, { headers: { "Content-Type": "application/json", ...bearer(c.token) }, body: JSON.stringify({ to, subject: d.subject, text: d.text }) });
+  },
+  // same form body and header as LINE Notify
+  line: (c, d) => post(c.url, {
+    headers: { "Content-Type": "application/x-www-form-urlencoded", ...bearer(c.token) },
+    body: new URLSearchParams({ message: d.text }).toString(),
+  }),
+};
@@ -0,0 +1,35 @@
+import type { CostStatement } from "../domain/costAllocation";
+import { SOURCE_LABELS, money } from "../domain/costAllocation";
+import { AUTO_PRINT, escapeHtml, formatDate } from "../utils";
+
+/** Summary page, then one statement page per department with its loans and total. */
+export function costStatementHtml(s: CostStatement, orgName: string, reportLogo: string): string {
+  const head = (sub: string) => `<div class="head">${reportLogo ? `<img src="${escapeHtml(reportLogo)}" alt="logo"/>` : ""}<div><b>${escapeHtml(orgName)}</b><br/>${escapeHtml(sub)}</div></div>`;
+  const range = `${formatDate(s.period.from)} – ${formatDate(s.period.to)}`;
+  const summary = `
+    <section class="page">
+      ${head(`สรุปค่าใช้เครื่องมือแพทย์รายหน่วยงาน ${s.period.label} (${range})`)}
+      <table>
+        <thead><tr><th>หน่วยงาน</th><th class="n">จำนวนรายการ</th><th class="n">วัน-เครื่อง</th><th class="n">ค่าใช้จ่าย (บาท)</th></tr></thead>
+        <tbody>${s.depts.map((d) => `<tr><td>${escapeHtml(d.dept)}</td><td class="n">${d.loans}</td><td class="n">${d.days}</td><td class="n">${money(d.amount)}</td></tr>`).join("") || `<tr><td colspan="4" class="muted">ไม่มีการยืมในช่วงนี้</td></tr>`}</tbody>
+        <tfoot><tr><td>รวม</td><td class="n">${s.depts.reduce((n, d) => n + d.loans, 0)}</td><td class="n">${s.days}</td><td class="n">${money(s.amount)}</td></tr></tfoot>
+      </table>
+      ${s.unpriced ? `<p class="muted">มี ${s.unpriced} รายการที่เครื่องไม่มีอัตราและไม่มีราคา จึงคิดเป็น 0 บาท</p>` : ""}
+      <p class="muted">พิมพ์เมื่อ ${escapeHtml(new Date().toLocaleString())}</p>
+    </section>`;
+  const pages = s.depts.map((d) => `
+    <section class="page">
+      ${head(`ใบแจ้งค่าใช้เครื่องมือแพทย์ ${s.period.label} (${range})`)}
+      <p><b>หน่วยงาน</b> ${escapeHtml(d.dept)}</p>
+      <table>
+        <thead><tr><th>#</th><th>Asset ID</th><th>ชื่อเครื่อง</th><th>ผู้ยืม</th><th>ตั้งแต่</th><th>ถึง</th><th class="n">วัน</th><th class="n">อัตรา/วัน</th><th class="n">จำนวนเงิน</th></tr></thead>
+        <tbody>${d.lines.map((l, i) => `<tr><td>${i + 1}</td><td>${escapeHtml(l.loan.asset_id)}</td><td>${escapeHtml(l.loan.asset_name)}</td><td>${escapeHtml(l.loan.borrower_name)}</td><td>${escapeHtml(formatDate(l.from))}</td><td>${escapeHtml(formatDate(l.to))}</td><td class="n">${l.days}</td><td class="n" title="${SOURCE_LABELS[l.source]}">${money(l.rate)}</td><td class="n">${money(l.amount)}</td></tr>`).join("")}</tbody>
+        <tfoot><tr><td colspan="6">รวม ${escapeHtml(d.dept)}</td><td class="n">${d.days}</td><td></td><td class="n">${money(d.amount)}</td></tr></tfoot>
+      </table>
+      <div class="sign">ลงชื่อ ..................................................<br/>ผู้รับผิดชอบคลังเครื่องมือแพทย์</div>
+    </section>`).join("");
+  return `<!doctype html><html><head><meta charset="utf-8"/><title>สรุปค่าใช้เครื่องมือแพทย์ ${escapeHtml(s.period.label)}</title>
+    <style>body{font-family:system-ui,sans-serif;font-size:13px;color:#0f172a}.page{padding:24px;page-break-after:always}.head{display:flex;gap:12px;align-items:center;margin-bottom:16px}.head img{height:48px}
+    table{border-collapse:collapse;width:100%;margin:12px 0}th,td{border:1px solid #cbd5e1;padding:4px 6px;text-align:left}th{background:#f1f5f9}tfoot td{font-weight:700;background:#f8fafc}.n{text-align:right}.muted{color:#64748b;font-size:11px}.sign{margin-top:48px;margin-left:55%;text-align:center;line-height:2}</style>
+    </head><body>${summary}${pages}${AUTO_PRINT}</body></html>`;
+}
@@ -0,0 +1,62 @@
+import type { Asset, BorrowRecord } from "../types";
+import type { LoanDue } from "../domain/loanPolicy";
+import { groupLoans, type SlipKind } from "../domain/checkout";
+import { CONDITION_LABELS } from "../domain/inspection";
+import { loanLink } from "../domain/scan";
+import { AUTO_PRINT, escapeHtml, formatDate } from "../utils";
+
+/********** borrow handover / return slips **********/
+
+const TITLES: Record<SlipKind, string> = { borrow: "ใบยืมเครื่องมือแพทย์", return: "ใบรับคืนเครื่องมือแพทย์" };
+
+/**
+ * One page per transaction with the devices, dates, both parties and their signatures.
+ * The QR holds `loanLink(…, base)` so the slip leads back to the record.
+ */
+export async function handoverHtml(loans: BorrowRecord[], assets: Asset[], dueOf: (b: BorrowRecord) => LoanDue, kind: SlipKind, orgName: string, reportLogo: string, base: string): Promise<string> {
+  const QRCode = await import("qrcode");
+  const groups = groupLoans(loans);
+  const qr = await Promise.all(groups.map((g) => QRCode.toString(loanLink(g.items[0], base), { type: "svg", margin: 0, errorCorrectionLevel: "M" })));
+  const byId = new Map(assets.map((a) => [a.asset_id, a]));
+  const back = kind === "return";
+  const sign = (src: string | null, label: string, name: string) =>
+    `<div class="sign">${src ? `<img src="${escapeHtml(src)}" alt="sign"/>` : `<div class="blank"></div>`}<div>(${escapeHtml(name || "..................................................")})</div><div>${label}</div></div>`;
+
+  const pages = groups.map((g, i) => {
+    const b = g.items[0];
+    const rows = g.items.map((x, n) => {
+      const a = byId.get(x.asset_id);
+      const ins = x.inspection;
+      return `<tr><td>${n + 1}</td><td>${escapeHtml(x.asset_id)}</td><td>${escapeHtml(x.asset_name)}</td><td>${escapeHtml(a?.id_code || "-")}</td><td>${escapeHtml(a?.serial || "-")}</td><td>${escapeHtml(a ? [a.brand, a.model].filter(Boolean).join(" ") || "-" : "-")}</td><td>${escapeHtml(x.peripherals || "-")}</td>${back
+        ? `<td>${ins ? escapeHtml(CONDITION_LABELS[ins.condition]) : "-"}</td><td>${escapeHtml(ins?.missing.join(", ") || "-")}</td>`
+        : ""}</tr>`;
+    }).join("");
+    const notes = back ? g.items.filter((x) => x.inspection?.notes).map((x) => `<li>${escapeHtml(x.asset_id)}: ${escapeHtml(x.inspection!.notes)}</li>`).join("") : "";
+    return `
+    <section class="page">
+      <div class="head">${reportLogo ? `<img src="${escapeHtml(reportLogo)}" alt="logo"/>` : ""}<div class="grow"><b>${escapeHtml(orgName)}</b><br/>${TITLES[kind]}<br/><span class="muted">เลขที่รายการ ${escapeHtml(g.group_id ?? b.id)}</span></div>
+        <div class="qr">${qr[i]}<div class="muted">สแกนเพื่อเปิดรายการ</div></div></div>
+      <table class="info">
+        <tr><th>ผู้ยืม</th><td>${escapeHtml(b.borrower_name)}</td><th>หน่วยงาน</th><td>${escapeHtml(b.borrower_dept || "-")}</td></tr>
+        <tr><th>ผู้ให้ยืม</th><td>${escapeHtml(b.lender_name)}</td><th>วันที่ยืม</th><td>${escapeHtml(formatDate(b.start_date))}</td></tr>
+        <tr><th>กำหนดคืน</th><td>${escapeHtml(formatDate(dueOf(b).due))}</td>${back
+          ? `<th>วันที่คืน</th><td>${b.returned_at ? escapeHtml(new Date(b.returned_at).toLocaleString()) : "-"}</td>`
+          : `<th>จำนวน</th><td>${g.items.length} เครื่อง</td>`}</tr>
+      </table>
+      <table>
+        <thead><tr><th>#</th><th>Asset ID</th><th>ชื่อเครื่อง</th><th>ID CODE</th><th>Serial</th><th>ยี่ห้อ / รุ่น</th><th>อุปกรณ์ต่อพ่วง</th>${back ? "<th>สภาพ</th><th>อุปกรณ์ที่ไม่ได้คืน</th>" : ""}</tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+      ${notes ? `<p><b>หมายเหตุการตรวจรับ</b></p><ul>${notes}</ul>` : ""}
+      <div class="signs">${back
+        ? `${sign(null, "ผู้ส่งคืน", "")}${sign(b.receiver_sign, "ผู้รับคืน", b.inspection?.received_by ?? "")}`
+        : `${sign(b.borrower_sign, "ผู้ยืม", b.borrower_name)}${sign(null, "ผู้ให้ยืม", b.lender_name)}`}</div>
+      <p class="muted">พิมพ์เมื่อ ${escapeHtml(new Date().toLocaleString())}</p>
+    </section>`;
+  }).join("");
+  return `<!doctype html><html><head><meta charset="utf-8"/><title>${TITLES[kind]}</title>
+    <style>body{font-family:system-ui,sans-serif;font-size:13px;color:#0f172a}.page{padding:24px;page-break-after:always}.head{display:flex;gap:12px;align-items:center;margin-bottom:16px}.head img{height:48px}.grow{flex:1}
+    .qr{width:96px;text-align:center}.qr svg{width:96px;height:96px}table{border-collapse:collapse;width:100%;margin:12px 0}th,td{border:1px solid #cbd5e1;padding:4px 6px;text-align:left}th{background:#f1f5f9}
+    .info th{width:15%}.muted{color:#64748b;font-size:11px}.signs{display:flex;justify-content:space-around;margin-top:40px}.sign{text-align:center;line-height:1.8;min-width:220px}.sign img{height:56px}.blank{height:56px;border-bottom:1px dotted #64748b}</style>
+    </head><body>${pages}${AUTO_PRINT}</body></html>`;
+}
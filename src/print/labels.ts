@@ -0,0 +1,70 @@
+import type { Asset } from "../types";
+import { AUTO_PRINT, escapeHtml } from "../utils";
+
+/********** asset labels (QR + text) **********/
+
+export interface LabelLayout {
+  id: string;
+  name: string;
+  /** page size for @page, e.g. "A4" or "50mm 30mm" */
+  page: string;
+  cols: number;
+  rows: number;
+  /** label size and sheet margins in mm */
+  width: number;
+  height: number;
+  marginTop: number;
+  marginLeft: number;
+}
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  { id: "a4-3x8", name: "A4 3×8 (24 ดวง, 70×37 มม.)", page: "A4", cols: 3, rows: 8, width: 70, height: 37, marginTop: 0.5, marginLeft: 0 },
+  { id: "a4-2x7", name: "A4 2×7 (14 ดวง, 105×42 มม.)", page: "A4", cols: 2, rows: 7, width: 105, height: 42.4, marginTop: 0.2, marginLeft: 0 },
+  { id: "thermal-50x30", name: "เครื่องพิมพ์ความร้อน 50×30 มม.", page: "50mm 30mm", cols: 1, rows: 1, width: 50, height: 30, marginTop: 0, marginLeft: 0 },
+];
+
+/**
+ * HTML for a printable label sheet. `skip` leaves the first cells empty so a
+ * partly used sheet can go through the printer again.
+ */
+export async function buildLabelSheet(assets: Asset[], layout: LabelLayout, orgName: string, skip = 0): Promise<string> {
+  const QRCode = await import("qrcode");
+  const qr = await Promise.all(assets.map((a) => QRCode.toString(a.asset_id, { type: "svg", margin: 0, errorCorrectionLevel: "M" })));
+  const perPage = layout.cols * layout.rows;
+  const cells: string[] = Array.from({ length: perPage > 1 ? skip % perPage : 0 }, () => `<div class="cell"></div>`);
+  assets.forEach((a, i) => {
+    cells.push(`<div class="cell"><div class="label">
+      <div class="qr">${qr[i]}</div>
+      <div class="text">
+        <div class="org">${escapeHtml(orgName)}</div>
+        <div class="id">${escapeHtml(a.asset_id)}</div>
+        <div class="name">${escapeHtml(a.name)}</div>
+        ${a.id_code ? `<div>ID: ${escapeHtml(a.id_code)}</div>` : ""}
+        ${a.serial ? `<div>S/N: ${escapeHtml(a.serial)}</div>` : ""}
+      </div>
+    </div></div>`);
+  });
+  const pages: string[] = [];
+  for (let i = 0; i < cells.length; i += perPage) pages.push(`<section class="sheet">${cells.slice(i, i + perPage).join("")}</section>`);
+
+  const qrSize = Math.min(layout.height - 4, layout.width * 0.42);
+  const base = Math.max(6, Math.min(9, layout.height / 4.5));
+  const css = `
+    @page{size:${layout.page};margin:0}
+    *{box-sizing:border-box}
+    body{margin:0;font-family:ui-sans-serif,system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial;color:#000}
+    .sheet{display:grid;grid-template-columns:repeat(${layout.cols},${layout.width}mm);grid-auto-rows:${layout.height}mm;
+      padding:${layout.marginTop}mm 0 0 ${layout.marginLeft}mm;page-break-after:always;break-after:page}
+    .sheet:last-child{page-break-after:auto;break-after:auto}
+    .cell{overflow:hidden;padding:2mm}
+    .label{display:flex;gap:2mm;align-items:center;height:100%}
+    .qr{flex:0 0 ${qrSize}mm;width:${qrSize}mm;height:${qrSize}mm}
+    .qr svg{width:100%;height:100%}
+    .text{min-width:0;font-size:${base - 1}pt;line-height:1.2}
+    .text div{white-space:nowrap;overflow:hidden;text-overflow:ellipsis}
+    .org{font-size:${base - 2}pt;color:#333}
+    .id{font-size:${base + 1}pt;font-weight:700}
+    .name{font-weight:600}
+    @media screen{body{background:#e2e8f0}.sheet{background:#fff;margin:8px auto;width:max-content}.cell{outline:1px dashed #cbd5e1}}`;
+  return `<!doctype html><html><head><meta charset='utf-8'><title>Labels</title><style>${css}</style></head><body>${pages.join("")}${AUTO_PRINT}</body></html>`;
+}
@@ -0,0 +1,24 @@
+import type { Department } from "../types";
+import type { OverdueRow } from "../domain/overdue";
+import { AUTO_PRINT, escapeHtml, formatDate, todayStr } from "../utils";
+
+/** Printable letter, one page per department. */
+export function reminderHtml(groups: { dept: Department; rows: OverdueRow[] }[], orgName: string, reportLogo: string, today = todayStr()): string {
+  const pages = groups.map(({ dept, rows }) => `
+    <section class="page">
+      <div class="head">${reportLogo ? `<img src="${escapeHtml(reportLogo)}" alt="logo"/>` : ""}<div><b>${escapeHtml(orgName)}</b><br/>วันที่ ${escapeHtml(formatDate(today))}</div></div>
+      <p><b>เรื่อง</b> ขอติดตามการคืนเครื่องมือแพทย์ที่เกินกำหนด</p>
+      <p><b>เรียน</b> หัวหน้า ${escapeHtml(dept)}</p>
+      <p class="indent">ตามที่ ${escapeHtml(dept)} ได้ยืมเครื่องมือแพทย์จาก ${escapeHtml(orgName)} ขณะนี้มีรายการที่เกินกำหนดคืน ${rows.length} รายการ ดังนี้</p>
+      <table>
+        <thead><tr><th>#</th><th>Asset ID</th><th>ชื่อเครื่อง</th><th>ผู้ยืม</th><th>วันที่ยืม</th><th>ครบกำหนด</th><th>ยืมมาแล้ว (วัน)</th><th>เกินกำหนด (วัน)</th></tr></thead>
+        <tbody>${rows.map((r, i) => `<tr><td>${i + 1}</td><td>${escapeHtml(r.loan.asset_id)}</td><td>${escapeHtml(r.loan.asset_name)}</td><td>${escapeHtml(r.loan.borrower_name)}</td><td>${escapeHtml(formatDate(r.loan.start_date))}</td><td>${escapeHtml(formatDate(r.due.due))}</td><td>${r.days_out}</td><td>${r.days_over}</td></tr>`).join("")}</tbody>
+      </table>
+      <p class="indent">จึงเรียนมาเพื่อโปรดส่งคืน หรือแจ้งขอขยายเวลาการยืม เพื่อให้หน่วยงานอื่นได้ใช้เครื่องต่อ</p>
+      <div class="sign">ลงชื่อ ..................................................<br/>ผู้รับผิดชอบคลังเครื่องมือแพทย์</div>
+    </section>`).join("");
+  return `<!doctype html><html><head><meta charset="utf-8"/><title>หนังสือติดตามการคืนเครื่องมือ</title>
+    <style>body{font-family:system-ui,sans-serif;font-size:14px;color:#0f172a}.page{padding:24px;page-break-after:always}.head{display:flex;gap:12px;align-items:center;margin-bottom:16px}.head img{height:48px}
+    table{border-collapse:collapse;width:100%;margin:12px 0}th,td{border:1px solid #cbd5e1;padding:4px 6px;text-align:left}th{background:#f1f5f9}.indent{text-indent:2em}.sign{margin-top:48px;margin-left:55%;text-align:center;line-height:2}</style>
+    </head><body>${pages}${AUTO_PRINT}</body></html>`;
+}
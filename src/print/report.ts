@@ -0,0 +1,42 @@
+import type { Report, ReportCell } from "../domain/report";
+import { REPORT_COLUMNS } from "../domain/report";
+import { AUTO_PRINT, escapeHtml } from "../utils";
+
+const cells = (row: ReportCell[], tag = "td") => row.map((c) => `<${tag}>${escapeHtml(c)}</${tag}>`).join("");
+
+/** Rows of the report as a table; signatures are shown as images only when printing. */
+function table(report: Report, images: boolean): string {
+  const { columns, group_by } = report.def;
+  const span = columns.length;
+  const body = report.groups.map((g) => [
+    group_by ? `<tr class="group"><td colspan="${span}">${escapeHtml(g.label)}</td></tr>` : "",
+    ...g.rows.map((r) => `<tr>${columns.map((c) => {
+      if (c === "borrower_sign" && images) return `<td>${r.loan.borrower_sign ? `<img src="${escapeHtml(r.loan.borrower_sign)}" style="height:28px"/>` : "-"}</td>`;
+      return `<td>${escapeHtml(REPORT_COLUMNS[c].get(r))}</td>`;
+    }).join("")}</tr>`),
+    group_by ? `<tr class="sub">${cells(g.subtotal)}</tr>` : "",
+  ].join("")).join("");
+  return `<table><thead><tr>${cells(columns.map((c) => REPORT_COLUMNS[c].label), "th")}</tr></thead>`
+    + `<tbody>${body || `<tr><td colspan="${span}" class="muted">ไม่มีข้อมูล</td></tr>`}</tbody>`
+    + `<tfoot><tr class="sub">${cells(report.total)}</tr></tfoot></table>`;
+}
+
+/** Printable (save as PDF) report with the org header. */
+export function reportHtml(report: Report, title: string, orgName: string, reportLogo: string): string {
+  const logo = reportLogo ? `<img src="${escapeHtml(reportLogo)}" style="height:48px;margin-right:8px"/>` : "";
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+    <style>body{font-family:ui-sans-serif,system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial;color:#0f172a}table{width:100%;border-collapse:collapse;font-size:12px}th,td{border:1px solid #e5e7eb;padding:6px;text-align:left}thead{background:#f8fafc}
+    .group td{background:#eff6ff;font-weight:700}.sub td{background:#f8fafc;font-weight:600}.muted{color:#64748b;font-size:11px}@media print{@page{margin:12mm}thead{display:table-header-group}}</style></head>
+    <body><div style="display:flex;align-items:center;font-weight:700;margin-bottom:8px">${logo}<div>${escapeHtml(orgName)}</div></div>
+    <div class="muted" style="margin-bottom:6px">${escapeHtml(title)} • พิมพ์เมื่อ ${escapeHtml(new Date().toLocaleString())}${report.caption ? ` • ${escapeHtml(report.caption)}` : ""}</div>
+    ${table(report, true)}${AUTO_PRINT}</body></html>`;
+}
+
+/** HTML table Excel opens as .xls, for when the XLSX library can't be loaded. */
+export function reportXlsHtml(report: Report, title: string, orgName: string): string {
+  const span = report.def.columns.length;
+  const head = `<table><tr><th colspan="${span}" style="font-size:16px;text-align:left">${escapeHtml(orgName)}</th></tr>`
+    + `<tr><th colspan="${span}" style="text-align:left">${escapeHtml(title)} • พิมพ์เมื่อ ${escapeHtml(new Date().toLocaleString())}</th></tr>`
+    + (report.caption ? `<tr><th colspan="${span}" style="text-align:left">${escapeHtml(report.caption)}</th></tr>` : "") + `</table>`;
+  return `<!doctype html><html><head><meta charset="utf-8"></head><body>${head}${table(report, false)}</body></html>`;
+}
@@ -0,0 +1,43 @@
+/********** service worker: offline app shell + update prompt **********/
+
+let waiting: ServiceWorker | null = null;
+let updating = false;
+const updateListeners = new Set<() => void>();
+
+export const updateReady = () => waiting !== null;
+
+/** Listens for a newer release that has finished downloading and waits to take over. */
+export function onUpdateReady(fn: () => void): () => void {
+  updateListeners.add(fn);
+  return () => { updateListeners.delete(fn); };
+}
+
+/** Switches to the waiting release; the page reloads once it has taken over. */
+export function applyUpdate() {
+  if (!waiting) return;
+  updating = true;
+  waiting.postMessage({ type: "SKIP_WAITING" });
+}
+
+const CHECK_EVERY_MS = 60 * 60000; // ward tablets stay open for days
+
+/** Production builds only; the dev server has no sw.js. */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  const found = (w: ServiceWorker) => { waiting = w; updateListeners.forEach((fn) => fn()); };
+  navigator.serviceWorker.addEventListener("controllerchange", () => { if (updating) window.location.reload(); });
+  window.addEventListener("load", async () => {
+    try {
+      const reg = await navigator.serviceWorker.register("./sw.js");
+      // the first install has no controller yet: nothing to update from
+      if (reg.waiting && navigator.serviceWorker.controller) found(reg.waiting);
+      reg.addEventListener("updatefound", () => {
+        const w = reg.installing;
+        w?.addEventListener("statechange", () => { if (w.state === "installed" && navigator.serviceWorker.controller) found(w); });
+      });
+      setInterval(() => reg.update().catch(() => {}), CHECK_EVERY_MS);
+    } catch (e) {
+      console.warn("Service worker registration failed", e);
+    }
+  });
+}
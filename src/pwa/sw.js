@@ -0,0 +1,43 @@
+// Service worker template. The build (vite.config.ts) prepends VERSION and PRECACHE —
+// every file of that build — and emits the result as sw.js next to index.html.
+/* global VERSION, PRECACHE */
+
+const CACHE = `medical-pool-${VERSION}`;
+
+self.addEventListener("install", (e) => {
+  // the new version waits until the page agrees to switch (update prompt)
+  e.waitUntil(caches.open(CACHE).then((c) => c.addAll(PRECACHE)));
+});
+
+self.addEventListener("activate", (e) => {
+  e.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith("medical-pool-") && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (e) => {
+  if (e.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+self.addEventListener("fetch", (e) => {
+  const req = e.request;
+  if (req.method !== "GET") return;
+  const url = new URL(req.url);
+  // other origins (sync server, report logo) go straight to the network
+  if (url.origin !== self.location.origin) return;
+  if (req.mode === "navigate") {
+    e.respondWith(caches.match("index.html", { cacheName: CACHE }).then((r) => r || fetch(req)));
+    return;
+  }
+  e.respondWith(
+    caches.match(req).then((hit) => hit || fetch(req).then((res) => {
+      if (res.ok && res.type === "basic") {
+        const copy = res.clone();
+        caches.open(CACHE).then((c) => c.put(req, copy));
+      }
+      return res;
+    }))
+  );
+});
@@ -0,0 +1,128 @@
+import type { BorrowRecord, CostPolicy, LoanPolicy, NotifyPolicy, PoolCollection, PoolData, QuarantinedRecord } from "../types";
+import { normalizePolicy } from "../domain/loanPolicy";
+import { normalizeNotifyPolicy } from "../domain/overdue";
+import { normalizeCostPolicy } from "../domain/costAllocation";
+import { COLLECTIONS, RECORD_KEY, SCHEMA_VERSION, migrate, validatePool } from "./schema";
+
+/********** whole-pool backup file **********/
+
+export const BACKUP_FORMAT = "medical-pool-backup";
+
+export interface PoolSettings {
+  orgName: string;
+  reportLogo: string;
+  loanPolicy: LoanPolicy;
+  notifyPolicy: NotifyPolicy;
+  costPolicy: CostPolicy;
+}
+
+/** Self-contained snapshot: signatures are embedded as data URLs. */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schema: number;
+  exported_at: string;
+  settings: PoolSettings;
+  data: PoolData;
+}
+
+export interface CollectionDiff {
+  incoming: number;
+  added: number;
+  changed: number;
+  unchanged: number;
+  /** records only in the current pool; lost when replacing */
+  removed: number;
+}
+
+export type RestoreMode = "merge" | "replace";
+
+const toDataUrl = async (url: string): Promise<string> => {
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const r = new FileReader();
+    r.onload = () => resolve(String(r.result));
+    r.onerror = () => reject(r.error);
+    r.readAsDataURL(blob);
+  });
+};
+
+export async function createBackup(data: PoolData, settings: PoolSettings): Promise<BackupFile> {
+  const embed = async (url: string | null) => (url?.startsWith("blob:") ? toDataUrl(url) : url);
+  const borrows = await Promise.all(data.borrows.map(async (b) =>
+    ({ ...b, borrower_sign: await embed(b.borrower_sign), receiver_sign: await embed(b.receiver_sign) })));
+  return { format: BACKUP_FORMAT, schema: SCHEMA_VERSION, exported_at: new Date().toISOString(), settings, data: { ...data, borrows } };
+}
+
+/**
+ * Parses a backup file and brings it to the current schema. Records that fail
+ * validation are returned in `rejected` and left out of `file.data`.
+ */
+export function readBackup(text: string): { file: BackupFile; rejected: QuarantinedRecord[] } {
+  let raw: any;
+  try { raw = JSON.parse(text); } catch { throw new Error("ไฟล์ไม่ใช่ JSON ที่ถูกต้อง"); }
+  if (raw?.format !== BACKUP_FORMAT || typeof raw.data !== "object" || raw.data === null) throw new Error("ไม่ใช่ไฟล์สำรองของ Medical Pool");
+  const schema = Number(raw.schema) || 0;
+  if (schema > SCHEMA_VERSION) throw new Error(`ไฟล์สำรองมาจากเวอร์ชันที่ใหม่กว่า (schema v${schema}) — กรุณาอัปเดตโปรแกรมก่อน`);
+  const { data, rejected } = validatePool(migrate(raw.data, schema), new Date().toISOString());
+  const settings: PoolSettings = {
+    orgName: String(raw.settings?.orgName ?? ""), reportLogo: String(raw.settings?.reportLogo ?? ""),
+    loanPolicy: normalizePolicy(raw.settings?.loanPolicy),
+    notifyPolicy: normalizeNotifyPolicy(raw.settings?.notifyPolicy),
+    costPolicy: normalizeCostPolicy(raw.settings?.costPolicy),
+  };
+  return { file: { format: BACKUP_FORMAT, schema: SCHEMA_VERSION, exported_at: String(raw.exported_at ?? ""), settings, data }, rejected };
+}
+
+// signature URLs differ between a file (data:) and memory (blob:), so compare presence only
+const fingerprint = (x: unknown): string =>
+  JSON.stringify(typeof x === "object" && x !== null && "borrower_sign" in x
+    ? { ...x, borrower_sign: !!(x as BorrowRecord).borrower_sign, receiver_sign: !!(x as BorrowRecord).receiver_sign } : x);
+
+export function diffBackup(current: PoolData, incoming: PoolData): Record<PoolCollection, CollectionDiff> {
+  const out = {} as Record<PoolCollection, CollectionDiff>;
+  COLLECTIONS.forEach((c) => {
+    const key = RECORD_KEY[c] as (x: unknown) => string;
+    const cur = new Map((current[c] as unknown[]).map((x) => [key(x), fingerprint(x)]));
+    const d: CollectionDiff = { incoming: incoming[c].length, added: 0, changed: 0, unchanged: 0, removed: 0 };
+    const seen = new Set<string>();
+    (incoming[c] as unknown[]).forEach((x) => {
+      const k = key(x); seen.add(k);
+      if (!cur.has(k)) d.added++;
+      else if (cur.get(k) === fingerprint(x)) d.unchanged++;
+      else d.changed++;
+    });
+    cur.forEach((_, k) => { if (!seen.has(k)) d.removed++; });
+    out[c] = d;
+  });
+  return out;
+}
+
+/** Collections where a merge keeps the local record: an old backup must not bring back old PINs or switched-off accounts. */
+const LOCAL_WINS: PoolCollection[] = ["staff"];
+
+/** Union of both pools; on a key clash the record from the file wins, except in LOCAL_WINS. New records go first. */
+export function mergePools(current: PoolData, incoming: PoolData): PoolData {
+  const out = {} as Record<PoolCollection, unknown[]>;
+  COLLECTIONS.forEach((c) => {
+    const key = RECORD_KEY[c] as (x: unknown) => string;
+    const inc = new Map(LOCAL_WINS.includes(c) ? [] : (incoming[c] as unknown[]).map((x) => [key(x), x]));
+    const curKeys = new Set((current[c] as unknown[]).map(key));
+    const added = (incoming[c] as unknown[]).filter((x) => !curKeys.has(key(x)));
+    out[c] = [...added, ...(current[c] as unknown[]).map((x) => inc.get(key(x)) ?? x)];
+  });
+  return out as unknown as PoolData;
+}
+
+/********** lightweight tests (console) **********/
+try {
+  const empty: PoolData = { brands: [], models: [], vendors: [], depts: [], assets: [], borrows: [], statusLog: [], servicePlans: [], serviceLog: [], reservations: [], waitlist: [], audit: [], staff: [] };
+  const a = { asset_id: "A", id_code: "1", name: "Pump", brand: "", model: "", vendor: "", serial: "S", purchase_date: "", price: null, status: "in_service" as const };
+  const cur: PoolData = { ...empty, brands: ["X"], assets: [a] };
+  const inc: PoolData = { ...empty, brands: ["X", "Y"], assets: [{ ...a, name: "Pump 2" }] };
+  const d = diffBackup(cur, inc);
+  console.assert(d.brands.added === 1 && d.brands.unchanged === 1 && d.assets.changed === 1, "diffBackup counts added/changed");
+  console.assert(mergePools(cur, inc).assets[0].name === "Pump 2" && mergePools(cur, inc).brands.join() === "Y,X", "mergePools prefers file records");
+  const s = { id: "s1", name: "n", role: "nurse" as const, pin_hash: "new", salt: "", active: false, created_at: "" };
+  const kept = mergePools({ ...empty, staff: [s] }, { ...empty, staff: [{ ...s, pin_hash: "old", active: true }, { ...s, id: "s2" }] }).staff;
+  console.assert(kept.length === 2 && kept.find((x) => x.id === "s1")?.pin_hash === "new" && !kept.find((x) => x.id === "s1")?.active, "mergePools keeps local staff accounts");
+} catch (e) { console.warn("Backup sanity test failed", e); }
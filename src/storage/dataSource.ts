@@ -0,0 +1,79 @@
+import type { PoolCollection } from "../types";
+
+/**
+ * Where the pool lives besides this browser. Every mutation in the app still lands in
+ * IndexedDB first (repository.ts); a data source is what the sync engine (sync.ts)
+ * pushes those record changes to and pulls other devices' changes from.
+ */
+export type SyncMode = "local" | "rest";
+
+export type SyncConfig = { mode: SyncMode; url: string; token: string };
+
+/** A record as the server holds it: `record` null means deleted; `rev` counts its edits, `seq` orders all edits. */
+export type RemoteChange = { collection: PoolCollection; key: string; record: unknown | null; rev: number; seq: number };
+
+/** A local edit and the server revision it was made on top of (0 = the record is new to the server). */
+export type PushChange = { collection: PoolCollection; key: string; record: unknown | null; base_rev: number };
+
+/**
+ * Edits applied by the server, the ones refused because the record changed there first,
+ * and the ones this device may not make at all (staff accounts without the admin token).
+ */
+export type PushResult = { applied: { collection: PoolCollection; key: string; rev: number }[]; conflicts: RemoteChange[]; denied?: { collection: PoolCollection; key: string }[] };
+
+export type PullResult = { changes: RemoteChange[]; cursor: number; more: boolean; schema: number };
+
+export type ServerInfo = { records: number; cursor: number; schema: number };
+
+export interface DataSource {
+  info(): Promise<ServerInfo>;
+  push(changes: PushChange[], schema: number): Promise<PushResult>;
+  pull(since: number): Promise<PullResult>;
+}
+
+/** Thrown when the server can't be reached; the sync engine keeps the changes queued. */
+const offline = (msg: string) => Object.assign(new Error(msg), { name: "OfflineError" });
+
+/** Thrown when the server refuses a request body as too large (413); the sync engine sends less. */
+const tooLarge = () => Object.assign(new Error("ข้อมูลที่ส่งมีขนาดเกินที่เซิร์ฟเวอร์รับ"), { name: "TooLargeError" });
+
+const TIMEOUT_MS = 15000;
+
+/** The reference server in server/pool-server.mjs, or anything speaking the same three endpoints. */
+export function restSource({ url, token }: SyncConfig): DataSource {
+  const base = url.replace(/\/+$/, "");
+  const call = async <T>(path: string, body?: unknown): Promise<T> => {
+    const ctl = new AbortController();
+    const timer = setTimeout(() => ctl.abort(), TIMEOUT_MS);
+    let res: Response;
+    try {
+      res = await fetch(base + path, {
+        method: body === undefined ? "GET" : "POST",
+        headers: { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: ctl.signal,
+      });
+    } catch (e: any) {
+      throw offline(e?.name === "AbortError" ? "เซิร์ฟเวอร์ไม่ตอบสนอง" : "เชื่อมต่อเซิร์ฟเวอร์ไม่ได้");
+    } finally {
+      clearTimeout(timer);
+    }
+    if (res.status === 401) throw new Error("รหัสเข้าถึงเซิร์ฟเวอร์ไม่ถูกต้อง");
+    if (res.status === 413) throw tooLarge();
+    if (!res.ok) throw new Error(`เซิร์ฟเวอร์ตอบกลับ ${res.status}`);
+    return res.json();
+  };
+  return {
+    info: () => call<ServerInfo>("/api/info"),
+    push: (changes, schema) => call<PushResult>("/api/changes", { schema, changes }),
+    pull: (since) => call<PullResult>(`/api/changes?since=${since}`),
+  };
+}
+
+/** Providers by mode; local keeps the pool in this browser only, as before sync existed. */
+export const SOURCES: Record<SyncMode, (config: SyncConfig) => DataSource | null> = {
+  local: () => null,
+  rest: restSource,
+};
+
+export const DEFAULT_SYNC: SyncConfig = { mode: "local", url: "", token: "" };
@@ -0,0 +1,57 @@
+/********** minimal promise wrapper over IndexedDB **********/
+
+const DB_NAME = "medical-pool";
+const DB_VERSION = 1;
+
+/** kv: one JSON-like value per `mp:*` key · signatures: PNG blobs keyed by borrow id */
+export type StoreName = "kv" | "signatures";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") return reject(new Error("เบราว์เซอร์นี้ไม่รองรับ IndexedDB"));
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains("kv")) db.createObjectStore("kv");
+      if (!db.objectStoreNames.contains("signatures")) db.createObjectStore("signatures");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error("ฐานข้อมูลถูกใช้งานโดยแท็บอื่น กรุณาปิดแท็บเก่าแล้วลองใหม่"));
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+const done = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => { req.onsuccess = () => resolve(req.result); req.onerror = () => reject(req.error); });
+
+/** Resolves when the transaction commits, rejects on error or abort (e.g. QuotaExceededError). */
+export const committed = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+
+export async function idbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  const db = await openDB();
+  return done(db.transaction(store).objectStore(store).get(key)) as Promise<T | undefined>;
+}
+
+/** All entries of a store as [key, value] pairs. */
+export async function idbEntries<T>(store: StoreName): Promise<Array<[string, T]>> {
+  const db = await openDB();
+  const s = db.transaction(store).objectStore(store);
+  const [keys, values] = await Promise.all([done(s.getAllKeys()), done(s.getAll())]);
+  return keys.map((k, i) => [String(k), values[i] as T]);
+}
+
+/** Opens a read-write transaction over the given stores; commit with `committed(tx)`. */
+export async function idbWrite(stores: StoreName[]): Promise<IDBTransaction> {
+  const db = await openDB();
+  return db.transaction(stores, "readwrite");
+}
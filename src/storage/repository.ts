@@ -0,0 +1,285 @@
+import type { BorrowRecord, PoolCollection, QuarantinedRecord } from "../types";
+import { COLLECTIONS, SCHEMA_VERSION, migrate, validatePool } from "./schema";
+import { committed, idbEntries, idbGet, idbWrite } from "./idb";
+
+/** Storage keys. Collections keep the names they had in localStorage. */
+export const KEYS: Record<PoolCollection, string> & { schema: string; quarantine: string; sync: string; syncState: string; outbox: string } = {
+  brands: "mp:brands",
+  models: "mp:models",
+  vendors: "mp:vendors",
+  depts: "mp:depts",
+  assets: "mp:assets",
+  borrows: "mp:borrows",
+  statusLog: "mp:status_log",
+  servicePlans: "mp:service_plans",
+  serviceLog: "mp:service_log",
+  reservations: "mp:reservations",
+  waitlist: "mp:waitlist",
+  audit: "mp:audit",
+  staff: "mp:staff",
+  schema: "mp:schema_version",
+  quarantine: "mp:quarantine",
+  sync: "mp:sync",
+  syncState: "mp:sync_state",
+  outbox: "mp:outbox",
+};
+
+/** Placeholder kept in a stored borrow when its signature lives in the `signatures` store. */
+const SIGN_REF = "idb:signature";
+/** Signature fields of a borrow and the suffix of their blob keys; the borrower's blob keeps the bare id. */
+const SIGN_FIELDS = [["borrower_sign", ""], ["receiver_sign", ":receiver"]] as const;
+
+export interface BootReport {
+  /** schema version found in storage (0 = never versioned) */
+  from: number;
+  to: number;
+  /** records set aside during this boot */
+  quarantined: QuarantinedRecord[];
+  /** storage was written by a newer release; left untouched and read-only */
+  newer: boolean;
+  /** data was carried over from the old localStorage keys during this boot */
+  imported: boolean;
+}
+
+/********** in-memory state **********/
+const cache = new Map<string, unknown>();
+const listeners = new Map<string, Set<(v: unknown) => void>>();
+const errorListeners = new Set<(msg: string) => void>();
+const writeListeners = new Set<(collection: PoolCollection, before: unknown[], after: unknown[]) => void>();
+const COLLECTION_OF = new Map(COLLECTIONS.map((c) => [KEYS[c], c]));
+const queues = new Map<string, Promise<void>>();
+/** blob key (borrow id + field suffix) → image URL in memory for the blob that is persisted for it */
+const signUrls = new Map<string, string>();
+let readOnly = false;
+
+const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel("medical-pool") : null;
+
+export const hasCached = (key: string): boolean => cache.has(key);
+export const getCached = <T>(key: string): T => cache.get(key) as T;
+
+export function subscribeKey(key: string, fn: (v: unknown) => void): () => void {
+  let set = listeners.get(key);
+  if (!set) listeners.set(key, (set = new Set()));
+  set.add(fn);
+  return () => { set!.delete(fn); };
+}
+
+/** Listens for failed writes; the message is meant to be shown to the user as-is. */
+export function onWriteError(fn: (msg: string) => void): () => void {
+  errorListeners.add(fn);
+  return () => { errorListeners.delete(fn); };
+}
+
+/** Listens for collections changed on this device (not ones arriving from other tabs or the server). */
+export function onCollectionWrite(fn: (collection: PoolCollection, before: unknown[], after: unknown[]) => void): () => void {
+  writeListeners.add(fn);
+  return () => { writeListeners.delete(fn); };
+}
+
+function reportWriteError(e: any) {
+  console.error("Storage write failed", e);
+  const msg = e?.name === "QuotaExceededError"
+    ? "พื้นที่จัดเก็บของเบราว์เซอร์เต็ม — รายการล่าสุดยังไม่ถูกบันทึก กรุณาสำรองข้อมูลและลบรายการเก่า"
+    : `บันทึกข้อมูลไม่สำเร็จ — ${e?.message || e}`;
+  errorListeners.forEach((fn) => fn(msg));
+}
+
+/********** signatures **********/
+function dataUrlToBlob(url: string): Blob {
+  const [head, body] = url.split(",");
+  const mime = /data:([^;]+)/.exec(head)?.[1] || "image/png";
+  const bin = atob(body);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+}
+
+/**
+ * Moves data-URL signatures of `list` into the signatures store inside `tx` and returns
+ * the records as they should be stored. `commit` must run only after `tx` completes.
+ */
+function externalizeSignatures(tx: IDBTransaction, list: BorrowRecord[]) {
+  const sigs = tx.objectStore("signatures");
+  const next = new Map(signUrls);
+  const kept = new Set<string>();
+  const stored = list.map((b) => {
+    let out = b;
+    for (const [field, suffix] of SIGN_FIELDS) {
+      const url = b[field], key = b.id + suffix;
+      if (!url) continue;
+      if (next.get(key) !== url) {
+        if (!url.startsWith("data:")) continue; // external URL, keep as text
+        sigs.put(dataUrlToBlob(url), key);
+        next.set(key, url);
+      }
+      kept.add(key);
+      out = { ...out, [field]: SIGN_REF };
+    }
+    return out;
+  });
+  next.forEach((_, id) => { if (!kept.has(id)) { sigs.delete(id); next.delete(id); } });
+  return { stored, commit: () => { signUrls.clear(); next.forEach((v, k) => signUrls.set(k, v)); } };
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => { const r = new FileReader(); r.onload = () => resolve(String(r.result)); r.onerror = () => reject(r.error); r.readAsDataURL(blob); });
+
+/** The borrow with its stored signatures inlined as data URLs, for sending off this device. */
+export async function portableBorrow(b: BorrowRecord): Promise<BorrowRecord> {
+  let out = b;
+  for (const [field, suffix] of SIGN_FIELDS) {
+    if (!b[field]?.startsWith("blob:")) continue;
+    const blob = await idbGet<Blob>("signatures", b.id + suffix);
+    out = { ...out, [field]: blob ? await blobToDataUrl(blob) : null };
+  }
+  return out;
+}
+
+/** Replaces SIGN_REF placeholders with object URLs for the stored blobs. */
+async function hydrateBorrows(list: BorrowRecord[]): Promise<BorrowRecord[]> {
+  const out: BorrowRecord[] = [];
+  for (const b of list) {
+    let rec = b;
+    for (const [field, suffix] of SIGN_FIELDS) {
+      if (b[field] !== SIGN_REF) continue;
+      const key = b.id + suffix;
+      let url = signUrls.get(key);
+      if (!url) {
+        const blob = await idbGet<Blob>("signatures", key);
+        if (blob) signUrls.set(key, (url = URL.createObjectURL(blob)));
+      }
+      rec = { ...rec, [field]: url ?? null };
+    }
+    out.push(rec);
+  }
+  return out;
+}
+
+/********** boot **********/
+/** Reads every `mp:*` key left in localStorage by releases before IndexedDB. */
+function readLegacy(): Map<string, unknown> {
+  const out = new Map<string, unknown>();
+  try {
+    Object.keys(localStorage).filter((k) => k.startsWith("mp:")).forEach((k) => {
+      try { out.set(k, JSON.parse(localStorage.getItem(k)!)); } catch { console.warn("Skipped unreadable legacy key", k); }
+    });
+  } catch {}
+  return out;
+}
+
+/**
+ * Loads the pool into memory before the first render: imports the old localStorage
+ * keys once, runs the schema migrations, moves records that fail validation into
+ * `mp:quarantine` and writes the clean collections back.
+ */
+export async function openRepository(): Promise<BootReport> {
+  navigator.storage?.persist?.().catch(() => {});
+  const entries = new Map(await idbEntries<unknown>("kv"));
+  let imported = false;
+  if (!entries.has(KEYS.schema)) {
+    const legacy = readLegacy();
+    if (legacy.size) { legacy.forEach((v, k) => entries.set(k, v)); imported = true; }
+  }
+
+  const from = Number(entries.get(KEYS.schema) ?? 0) || 0;
+  if (from > SCHEMA_VERSION) {
+    readOnly = true;
+    entries.forEach((v, k) => cache.set(k, v));
+    cache.set(KEYS.borrows, await hydrateBorrows(getCached<BorrowRecord[]>(KEYS.borrows) ?? []));
+    return { from, to: from, quarantined: [], newer: true, imported: false };
+  }
+
+  const raw: Record<string, any> = {};
+  COLLECTIONS.forEach((c) => { raw[c] = entries.get(KEYS[c]); });
+  // a collection that is present but not a list is corrupt as a whole
+  const quarantined: QuarantinedRecord[] = [];
+  const at = new Date().toISOString();
+  COLLECTIONS.forEach((c) => {
+    if (raw[c] !== undefined && !Array.isArray(raw[c])) {
+      quarantined.push({ collection: c, reason: "ข้อมูลทั้งชุดไม่ใช่รายการ", record: raw[c], at });
+      raw[c] = [];
+    }
+  });
+  const { data, rejected } = validatePool(migrate(raw, from), at);
+  quarantined.push(...rejected);
+
+  COLLECTIONS.forEach((c) => { if (raw[c] !== undefined) entries.set(KEYS[c], data[c]); });
+  if (quarantined.length) {
+    const prev = entries.get(KEYS.quarantine);
+    entries.set(KEYS.quarantine, [...quarantined, ...(Array.isArray(prev) ? prev : [])]);
+  }
+  entries.set(KEYS.schema, SCHEMA_VERSION);
+
+  // one transaction: either everything lands in IndexedDB or nothing does
+  const tx = await idbWrite(["kv", "signatures"]);
+  const sig = externalizeSignatures(tx, (entries.get(KEYS.borrows) as BorrowRecord[]) ?? []);
+  if (entries.has(KEYS.borrows)) entries.set(KEYS.borrows, sig.stored);
+  entries.forEach((v, k) => tx.objectStore("kv").put(v, k));
+  await committed(tx);
+  if (imported) Object.keys(localStorage).filter((k) => k.startsWith("mp:")).forEach((k) => localStorage.removeItem(k));
+
+  (await idbEntries<Blob>("signatures")).forEach(([id, blob]) => signUrls.set(id, URL.createObjectURL(blob)));
+  entries.forEach((v, k) => cache.set(k, v));
+  if (entries.has(KEYS.borrows)) cache.set(KEYS.borrows, await hydrateBorrows(sig.stored));
+  return { from, to: SCHEMA_VERSION, quarantined, newer: false, imported };
+}
+
+/********** writes **********/
+async function write(key: string, value: unknown) {
+  const tx = await idbWrite(["kv", "signatures"]);
+  const sig = key === KEYS.borrows ? externalizeSignatures(tx, value as BorrowRecord[]) : null;
+  tx.objectStore("kv").put(sig ? sig.stored : value, key);
+  await committed(tx);
+  sig?.commit();
+}
+
+/** Updates the cache now and persists in the background; writes to one key stay in order. */
+export function saveValue(key: string, value: unknown) {
+  const before = cache.get(key);
+  cache.set(key, value);
+  if (readOnly) return reportWriteError(new Error("ข้อมูลถูกสร้างโดยเวอร์ชันที่ใหม่กว่า จึงเปิดแบบอ่านอย่างเดียว"));
+  const collection = COLLECTION_OF.get(key);
+  if (collection) writeListeners.forEach((fn) => fn(collection, (before as unknown[]) ?? [], (value as unknown[]) ?? []));
+  persist(key, value);
+}
+
+/** Stores a value that did not come from a component (e.g. the sync server) and shows it in this tab too. */
+export function publishValue(key: string, value: unknown) {
+  cache.set(key, value);
+  if (readOnly) return;
+  listeners.get(key)?.forEach((fn) => fn(value));
+  persist(key, value);
+}
+
+function persist(key: string, value: unknown) {
+  const next = (queues.get(key) ?? Promise.resolve())
+    .then(() => write(key, value))
+    .then(() => channel?.postMessage({ key }), reportWriteError);
+  queues.set(key, next);
+}
+
+/**
+ * Wipes every stored key and signature, including leftovers in localStorage.
+ * `seed` is written into the emptied store in the same transaction (the audit line for the reset).
+ */
+export async function resetRepository(seed: Record<string, unknown> = {}) {
+  await Promise.all(queues.values());
+  const tx = await idbWrite(["kv", "signatures"]);
+  tx.objectStore("kv").clear();
+  tx.objectStore("signatures").clear();
+  Object.entries(seed).forEach(([k, v]) => tx.objectStore("kv").put(v, k));
+  await committed(tx);
+  try { Object.keys(localStorage).filter((k) => k.startsWith("mp:")).forEach((k) => localStorage.removeItem(k)); } catch {}
+  channel?.postMessage({ reset: true });
+}
+
+// keep other tabs of this browser in step
+if (channel) channel.onmessage = async (e: MessageEvent) => {
+  if (e.data?.reset) return window.location.reload();
+  const key: string | undefined = e.data?.key;
+  if (!key) return;
+  let v = await idbGet<unknown>("kv", key);
+  if (key === KEYS.borrows) v = await hydrateBorrows((v as BorrowRecord[]) ?? []);
+  cache.set(key, v);
+  listeners.get(key)?.forEach((fn) => fn(v));
+};
@@ -0,0 +1,253 @@
+import type { Asset, AssetStatus, AuditEntry, BorrowRecord, Model, PoolCollection, PoolData, QuarantinedRecord, Reservation, ServicePlan, ServiceRecord, StaffAccount, StatusChange, WaitlistEntry } from "../types";
+
+/**
+ * Version of the stored data shape. Bump it whenever a release changes what is
+ * persisted, and append the matching step to MIGRATIONS.
+ */
+export const SCHEMA_VERSION = 9;
+
+export const COLLECTIONS: PoolCollection[] = ["brands", "models", "vendors", "depts", "assets", "borrows", "statusLog", "servicePlans", "serviceLog", "reservations", "waitlist", "audit", "staff"];
+
+/** Identity of a record within its collection. */
+export const RECORD_KEY: { [C in PoolCollection]: (x: PoolData[C][number]) => string } = {
+  brands: (x) => x,
+  models: (m) => m.brand + "\u0000" + m.name,
+  vendors: (x) => x,
+  depts: (x) => x,
+  assets: (a) => a.asset_id,
+  borrows: (b) => b.id,
+  statusLog: (s) => s.id,
+  servicePlans: (p) => p.id,
+  serviceLog: (s) => s.id,
+  reservations: (r) => r.id,
+  waitlist: (w) => w.id,
+  audit: (e) => e.id,
+  staff: (s) => s.id,
+};
+
+const STATUSES: AssetStatus[] = ["in_service", "under_repair", "cleaning", "calibration", "retired"];
+const CONDITIONS = ["good", "worn", "damaged", "contaminated"];
+
+const arr = (v: unknown): any[] => (Array.isArray(v) ? v : []);
+const str = (v: unknown): string => (v == null ? "" : String(v));
+const orNull = (v: unknown): string | null => (v == null || v === "" ? null : String(v));
+const isObj = (v: unknown): v is Record<string, any> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isDate = (v: unknown): boolean => typeof v === "string" && v !== "" && !isNaN(new Date(v).getTime());
+
+/**
+ * MIGRATIONS[n] upgrades data stored at version n to version n + 1.
+ * Steps must be pure and must never be edited once released — add a new one instead.
+ */
+const MIGRATIONS: Array<(d: Record<string, any>) => Record<string, any>> = [
+  // 0 → 1: data written before versioning existed. Form values were stored as typed,
+  // so price is a string, empty end dates are "" and older rows may lack fields.
+  (d) => ({
+    ...d,
+    assets: arr(d.assets).map((a) => isObj(a) ? {
+      ...a,
+      asset_id: str(a.asset_id).trim(), id_code: str(a.id_code), name: str(a.name),
+      brand: str(a.brand), model: str(a.model), vendor: str(a.vendor), serial: str(a.serial),
+      purchase_date: str(a.purchase_date),
+      price: a.price === "" || a.price == null ? null : Number(a.price),
+    } : a),
+    borrows: arr(d.borrows).map((b) => isObj(b) ? {
+      ...b,
+      id: str(b.id), asset_id: str(b.asset_id).trim(), asset_name: str(b.asset_name),
+      peripherals: str(b.peripherals), lender_name: str(b.lender_name),
+      borrower_name: str(b.borrower_name), borrower_dept: str(b.borrower_dept),
+      start_date: str(b.start_date), end_date: orNull(b.end_date), returned_at: orNull(b.returned_at),
+      borrower_sign: orNull(b.borrower_sign),
+      created_at: str(b.created_at) || new Date(isDate(b.start_date) ? b.start_date : 0).toISOString(),
+    } : b),
+  }),
+  // 1 → 2: assets gain a lifecycle status; everything registered so far was in service.
+  (d) => ({
+    ...d,
+    assets: arr(d.assets).map((a) => isObj(a) && a.status === undefined ? { ...a, status: "in_service" } : a),
+    statusLog: arr(d.statusLog),
+  }),
+  // 2 → 3: PM / calibration plans and service history.
+  (d) => ({ ...d, servicePlans: arr(d.servicePlans), serviceLog: arr(d.serviceLog) }),
+  // 3 → 4: future bookings.
+  (d) => ({ ...d, reservations: arr(d.reservations) }),
+  // 4 → 5: request queue by device type.
+  (d) => ({ ...d, waitlist: arr(d.waitlist) }),
+  // 5 → 6: borrows can share a checkout transaction; older ones stand alone.
+  (d) => ({ ...d, borrows: arr(d.borrows).map((b) => isObj(b) && b.group_id === undefined ? { ...b, group_id: null } : b) }),
+  // 6 → 7: returns carry an inspection and the receiver's signature; none were recorded before.
+  (d) => ({ ...d, borrows: arr(d.borrows).map((b) => isObj(b) ? { receiver_sign: null, inspection: null, ...b } : b) }),
+  // 7 → 8: audit trail; nothing was logged before.
+  (d) => ({ ...d, audit: arr(d.audit) }),
+  // 8 → 9: staff accounts; until one is created the app stays open as before.
+  (d) => ({ ...d, staff: arr(d.staff) }),
+];
+
+/** Runs every migration step from `from` up to SCHEMA_VERSION. */
+export function migrate(data: Record<string, any>, from: number): Record<string, any> {
+  let d = data;
+  for (let v = Math.max(from, 0); v < SCHEMA_VERSION; v++) d = MIGRATIONS[v](d);
+  return d;
+}
+
+/********** validation **********/
+// Each checker returns null when the record is usable, otherwise the reason it is not.
+
+function checkAsset(a: any): string | null {
+  if (!isObj(a)) return "ไม่ใช่ข้อมูลเครื่องมือ";
+  if (!a.asset_id) return "ไม่มี Asset ID";
+  if (!a.name) return "ไม่มีชื่อเครื่องมือ";
+  for (const k of ["id_code", "brand", "model", "vendor", "serial", "purchase_date"] as const) {
+    if (typeof a[k] !== "string") return `ฟิลด์ ${k} ไม่ถูกต้อง`;
+  }
+  if (a.purchase_date && !isDate(a.purchase_date)) return "วันที่ซื้อไม่ถูกต้อง";
+  if (a.price !== null && !(typeof a.price === "number" && isFinite(a.price))) return "ราคาไม่ถูกต้อง";
+  if (!STATUSES.includes(a.status)) return "สถานะเครื่องไม่ถูกต้อง";
+  return null;
+}
+
+function checkBorrow(b: any): string | null {
+  if (!isObj(b)) return "ไม่ใช่ข้อมูลการยืม";
+  if (!b.id) return "ไม่มีรหัสรายการ";
+  if (!b.asset_id) return "ไม่มี Asset ID";
+  if (!isDate(b.start_date)) return "วันที่เริ่มยืมไม่ถูกต้อง";
+  if (b.end_date !== null && !isDate(b.end_date)) return "กำหนดคืนไม่ถูกต้อง";
+  if (b.returned_at !== null && !isDate(b.returned_at)) return "วันที่คืนไม่ถูกต้อง";
+  for (const k of ["asset_name", "peripherals", "lender_name", "borrower_name", "borrower_dept"] as const) {
+    if (typeof b[k] !== "string") return `ฟิลด์ ${k} ไม่ถูกต้อง`;
+  }
+  if (b.group_id !== null && typeof b.group_id !== "string") return "รหัสชุดการยืมไม่ถูกต้อง";
+  if (b.inspection !== null) {
+    const i = b.inspection;
+    if (!isObj(i) || !CONDITIONS.includes(i.condition)) return "ผลตรวจรับคืนไม่ถูกต้อง";
+    if (typeof i.received_by !== "string" || typeof i.notes !== "string" || !Array.isArray(i.missing)) return "ผลตรวจรับคืนไม่ถูกต้อง";
+    if (i.moved_to !== null && !STATUSES.includes(i.moved_to)) return "สถานะหลังรับคืนไม่ถูกต้อง";
+  }
+  return null;
+}
+
+function checkStatusChange(s: any): string | null {
+  if (!isObj(s)) return "ไม่ใช่ข้อมูลสถานะ";
+  if (!s.id || !s.asset_id) return "ไม่มีรหัสรายการหรือ Asset ID";
+  if (!STATUSES.includes(s.from) || !STATUSES.includes(s.to)) return "สถานะไม่ถูกต้อง";
+  if (!isDate(s.date)) return "วันที่เปลี่ยนสถานะไม่ถูกต้อง";
+  if (typeof s.reason !== "string" || typeof s.changed_by !== "string") return "เหตุผล/ผู้บันทึกไม่ถูกต้อง";
+  return null;
+}
+
+const KINDS = ["pm", "calibration"];
+
+function checkServicePlan(p: any): string | null {
+  if (!isObj(p) || !p.id) return "ไม่ใช่ข้อมูลรอบบำรุงรักษา";
+  if (!KINDS.includes(p.kind)) return "ประเภทงานไม่ถูกต้อง";
+  if (typeof p.brand !== "string" || typeof p.model !== "string" || typeof p.asset_id !== "string") return "ขอบเขตรอบบำรุงรักษาไม่ถูกต้อง";
+  if (!p.asset_id && !p.model) return "ไม่ได้ระบุรุ่นหรือเครื่อง";
+  if (!(Number.isInteger(p.interval_months) && p.interval_months > 0)) return "รอบ (เดือน) ไม่ถูกต้อง";
+  return null;
+}
+
+function checkServiceRecord(s: any): string | null {
+  if (!isObj(s) || !s.id || !s.asset_id) return "ไม่ใช่ข้อมูลงานบริการ";
+  if (!KINDS.includes(s.kind)) return "ประเภทงานไม่ถูกต้อง";
+  if (!isDate(s.date)) return "วันที่ให้บริการไม่ถูกต้อง";
+  if (!["pass", "adjusted", "fail"].includes(s.result)) return "ผลการตรวจไม่ถูกต้อง";
+  if (typeof s.vendor !== "string" || typeof s.certificate !== "string") return "ผู้ให้บริการ/ใบรับรองไม่ถูกต้อง";
+  return null;
+}
+
+function checkReservation(r: any): string | null {
+  if (!isObj(r) || !r.id || !r.asset_id) return "ไม่ใช่ข้อมูลการจอง";
+  if (!isDate(r.start_date) || !isDate(r.end_date) || r.end_date < r.start_date) return "ช่วงวันที่จองไม่ถูกต้อง";
+  if (!["booked", "cancelled", "converted"].includes(r.status)) return "สถานะการจองไม่ถูกต้อง";
+  for (const k of ["dept", "requester", "note"] as const) {
+    if (typeof r[k] !== "string") return `ฟิลด์ ${k} ไม่ถูกต้อง`;
+  }
+  return null;
+}
+
+function checkWaitlist(w: any): string | null {
+  if (!isObj(w) || !w.id) return "ไม่ใช่ข้อมูลคิว";
+  if (!["urgent", "high", "normal"].includes(w.priority)) return "ความเร่งด่วนไม่ถูกต้อง";
+  if (!["waiting", "fulfilled", "cancelled"].includes(w.status)) return "สถานะคิวไม่ถูกต้อง";
+  if (!isDate(w.requested_at)) return "เวลาที่ขอไม่ถูกต้อง";
+  for (const k of ["dept", "requester", "brand", "model", "name", "note"] as const) {
+    if (typeof w[k] !== "string") return `ฟิลด์ ${k} ไม่ถูกต้อง`;
+  }
+  if (!w.model && !w.name) return "ไม่ได้ระบุประเภทเครื่อง";
+  return null;
+}
+
+const ACTIONS = ["create", "update", "delete", "return", "status", "cancel", "restore", "reset", "undo"];
+
+function checkAudit(e: any): string | null {
+  if (!isObj(e) || !e.id) return "ไม่ใช่ข้อมูลบันทึกการแก้ไข";
+  if (!isDate(e.at)) return "เวลาบันทึกไม่ถูกต้อง";
+  if (!ACTIONS.includes(e.action)) return "ประเภทการแก้ไขไม่ถูกต้อง";
+  for (const k of ["actor", "entity", "ref"] as const) {
+    if (typeof e[k] !== "string") return `ฟิลด์ ${k} ไม่ถูกต้อง`;
+  }
+  if (e.undoes !== null && typeof e.undoes !== "string") return "รายการที่ย้อนกลับไม่ถูกต้อง";
+  return null;
+}
+
+function checkStaff(s: any): string | null {
+  if (!isObj(s) || !s.id) return "ไม่ใช่ข้อมูลบัญชีผู้ใช้";
+  if (typeof s.name !== "string" || !s.name.trim()) return "ไม่มีชื่อผู้ใช้";
+  if (!["admin", "engineer", "nurse", "viewer"].includes(s.role)) return "บทบาทไม่ถูกต้อง";
+  // both empty: an account shared by the sync server whose PIN was not set on this device yet
+  if (typeof s.pin_hash !== "string" || typeof s.salt !== "string" || !s.pin_hash !== !s.salt) return "รหัส PIN ไม่ถูกต้อง";
+  if (typeof s.active !== "boolean") return "สถานะบัญชีไม่ถูกต้อง";
+  return null;
+}
+
+const checkName = (v: any): string | null => (typeof v === "string" && v.trim() ? null : "ชื่อว่างหรือไม่ใช่ข้อความ");
+const checkModel = (m: any): string | null => (isObj(m) && typeof m.brand === "string" && typeof m.name === "string" && m.name ? null : "ข้อมูลรุ่นไม่ถูกต้อง");
+
+/**
+ * Splits migrated data into records that are safe to render and records that are not.
+ * Duplicate keys keep the first occurrence, which is the newest since lists are stored newest-first.
+ * `at` stamps the rejected records.
+ */
+export function validatePool(data: Record<string, any>, at: string): { data: PoolData; rejected: QuarantinedRecord[] } {
+  const rejected: QuarantinedRecord[] = [];
+  const keep = <T>(collection: PoolCollection, list: unknown, check: (x: any) => string | null, key?: (x: any) => string): T[] => {
+    const seen = new Set<string>();
+    return arr(list).filter((record) => {
+      let reason = check(record);
+      if (!reason && key) {
+        const k = key(record);
+        if (seen.has(k)) reason = `รหัสซ้ำ (${k})`;
+        seen.add(k);
+      }
+      if (reason) rejected.push({ collection, reason, record, at });
+      return !reason;
+    });
+  };
+  return {
+    data: {
+      brands: keep<string>("brands", data.brands, checkName, RECORD_KEY.brands),
+      models: keep<Model>("models", data.models, checkModel, RECORD_KEY.models),
+      vendors: keep<string>("vendors", data.vendors, checkName, RECORD_KEY.vendors),
+      depts: keep<string>("depts", data.depts, checkName, RECORD_KEY.depts),
+      assets: keep<Asset>("assets", data.assets, checkAsset, RECORD_KEY.assets),
+      borrows: keep<BorrowRecord>("borrows", data.borrows, checkBorrow, RECORD_KEY.borrows),
+      statusLog: keep<StatusChange>("statusLog", data.statusLog, checkStatusChange, RECORD_KEY.statusLog),
+      servicePlans: keep<ServicePlan>("servicePlans", data.servicePlans, checkServicePlan, RECORD_KEY.servicePlans),
+      serviceLog: keep<ServiceRecord>("serviceLog", data.serviceLog, checkServiceRecord, RECORD_KEY.serviceLog),
+      reservations: keep<Reservation>("reservations", data.reservations, checkReservation, RECORD_KEY.reservations),
+      waitlist: keep<WaitlistEntry>("waitlist", data.waitlist, checkWaitlist, RECORD_KEY.waitlist),
+      audit: keep<AuditEntry>("audit", data.audit, checkAudit, RECORD_KEY.audit),
+      staff: keep<StaffAccount>("staff", data.staff, checkStaff, RECORD_KEY.staff),
+    },
+    rejected,
+  };
+}
+
+/********** lightweight tests (console) **********/
+try {
+  const m = migrate({ assets: [{ asset_id: "A", name: "Pump", price: "1200" }], borrows: [{ id: "1", asset_id: "A", start_date: "2024-01-01", end_date: "" }] }, 0);
+  console.assert(m.assets[0].price === 1200 && m.borrows[0].end_date === null, "migrate 0→1 normalizes price and end_date");
+  console.assert(m.borrows[0].created_at === new Date("2024-01-01").toISOString() && migrate({ borrows: [{ id: "2" }] }, 0).borrows[0].created_at === "1970-01-01T00:00:00.000Z", "migrate 0→1 dates borrows from the record, not the clock");
+  console.assert(m.assets[0].status === "in_service" && Array.isArray(m.statusLog), "migrate 1→2 puts assets in service");
+  const v = validatePool({ ...m, assets: [...m.assets, { ...m.assets[0] }, { name: "no id" }] }, "2024-01-01T00:00:00.000Z");
+  console.assert(v.data.assets.length === 1 && v.rejected.length === 2, "validatePool quarantines duplicates and invalid rows");
+} catch (e) { console.warn("Schema sanity test failed", e); }
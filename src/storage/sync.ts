@@ -0,0 +1,322 @@
+import type { BorrowRecord, PoolCollection, QuarantinedRecord, StaffAccount } from "../types";
+import { COLLECTIONS, RECORD_KEY, SCHEMA_VERSION, validatePool } from "./schema";
+import { KEYS, getCached, onCollectionWrite, portableBorrow, publishValue, saveValue, subscribeKey } from "./repository";
+import { hasPin, withoutPin } from "../domain/staff";
+import { DEFAULT_SYNC, SOURCES, type DataSource, type PushResult, type RemoteChange, type ServerInfo, type SyncConfig } from "./dataSource";
+
+/**
+ * Sync with a shared server. Local edits are diffed per record into an outbox that
+ * survives reloads and offline spells; each round pushes the outbox, then pulls
+ * what other devices changed since the last cursor.
+ *
+ * Conflicts: the server refuses an edit made on an outdated revision. The client
+ * then merges field by field against the version it edited from — fields changed
+ * on one side only keep that side's value, fields changed on both keep the
+ * server's, and the losing local copy goes to quarantine so nothing is lost silently.
+ *
+ * Staff accounts travel without their PIN hash and salt: PINs are set per device, and an
+ * account pulled from the server keeps the PIN this device already has for it.
+ */
+
+/** A local edit waiting for the server; `base` is the record it was edited from. */
+export type OutboxEntry = { collection: PoolCollection; key: string; record: unknown | null; base: unknown | null; base_rev: number };
+
+/** Pull cursor and the server revision of every record this device has seen. */
+type SyncState = { cursor: number; revs: Record<string, number> };
+
+export type SyncStatus = { mode: SyncConfig["mode"]; online: boolean; syncing: boolean; pending: number; last: string | null; error: string | null };
+
+const INTERVAL_MS = 15000;
+const BATCH = 200;
+/** Serialized size a push may reach; well under the reference server's 50 MB body limit. */
+const BATCH_BYTES = 8 * 1024 * 1024;
+
+const revKey = (c: { collection: PoolCollection; key: string }) => c.collection + "/" + c.key;
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/** Record-level changes between two versions of a collection. */
+export function diffRecords(collection: PoolCollection, before: unknown[], after: unknown[]): Omit<OutboxEntry, "base_rev">[] {
+  const key = RECORD_KEY[collection] as (x: unknown) => string;
+  const old = new Map(before.map((x) => [key(x), x]));
+  const seen = new Set<string>();
+  const out: Omit<OutboxEntry, "base_rev">[] = [];
+  for (const x of after) {
+    const k = key(x), b = old.get(k);
+    seen.add(k);
+    if (!same(b, x)) out.push({ collection, key: k, record: x, base: b ?? null });
+  }
+  old.forEach((b, k) => { if (!seen.has(k)) out.push({ collection, key: k, record: null, base: b }); });
+  return out;
+}
+
+/** Three-way merge of a local edit with the server's newer version; `lost` names local values that gave way. */
+export function mergeRecord(base: unknown, local: unknown, server: unknown): { merged: unknown; lost: string[] } {
+  if (same(server, base)) return { merged: local, lost: [] };
+  if (same(local, base) || same(local, server)) return { merged: server, lost: [] };
+  // an edit beats a delete on either side: keeping a record is recoverable, losing one is not
+  if (local === null) return { merged: server, lost: ["(ลบ)"] };
+  if (server === null) return { merged: local, lost: [] };
+  if (typeof local !== "object" || typeof server !== "object") return { merged: server, lost: ["(ค่า)"] };
+  const b = (base ?? {}) as Record<string, unknown>, l = local as Record<string, unknown>, s = server as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...s };
+  const lost: string[] = [];
+  for (const k of new Set([...Object.keys(l), ...Object.keys(s)])) {
+    if (same(l[k], b[k]) || same(l[k], s[k])) continue;
+    if (same(s[k], b[k])) merged[k] = l[k];
+    else lost.push(k);
+  }
+  return { merged, lost };
+}
+
+/********** engine **********/
+let source: DataSource | null = null;
+let timer: ReturnType<typeof setTimeout> | undefined;
+let running = false;
+let status: SyncStatus = { mode: "local", online: true, syncing: false, pending: 0, last: null, error: null };
+const statusListeners = new Set<(s: SyncStatus) => void>();
+
+export const getSyncConfig = (): SyncConfig => ({ ...DEFAULT_SYNC, ...(getCached<SyncConfig>(KEYS.sync) ?? {}) });
+const outbox = (): OutboxEntry[] => getCached<OutboxEntry[]>(KEYS.outbox) ?? [];
+const syncState = (): SyncState => getCached<SyncState>(KEYS.syncState) ?? { cursor: 0, revs: {} };
+
+export const getSyncStatus = () => status;
+export function subscribeSync(fn: (s: SyncStatus) => void): () => void {
+  statusListeners.add(fn);
+  return () => { statusListeners.delete(fn); };
+}
+function setStatus(patch: Partial<SyncStatus>) {
+  status = { ...status, ...patch };
+  statusListeners.forEach((fn) => fn(status));
+}
+
+function schedule(ms: number) {
+  clearTimeout(timer);
+  if (source) timer = setTimeout(syncNow, ms);
+}
+
+function enqueue(collection: PoolCollection, before: unknown[], after: unknown[]) {
+  if (!source) return;
+  const changes = diffRecords(collection, before, after);
+  if (!changes.length) return;
+  const revs = syncState().revs;
+  const box = [...outbox()];
+  for (const c of changes) {
+    const i = box.findIndex((e) => e.collection === c.collection && e.key === c.key);
+    // a second edit before the first was sent still counts from the first one's base
+    if (i >= 0) box[i] = { ...box[i], record: c.record };
+    else box.push({ ...c, base_rev: revs[revKey(c)] ?? 0 });
+  }
+  saveValue(KEYS.outbox, box);
+  setStatus({ pending: box.length });
+  schedule(1000);
+}
+
+/** Writes records into the local collections without queueing them back to the server. */
+function applyLocal(list: { collection: PoolCollection; key: string; record: unknown | null }[]) {
+  const byCollection = new Map<PoolCollection, Map<string, unknown | null>>();
+  for (const c of list) {
+    if (!byCollection.has(c.collection)) byCollection.set(c.collection, new Map());
+    byCollection.get(c.collection)!.set(c.key, c.record);
+  }
+  const rejected: QuarantinedRecord[] = [];
+  byCollection.forEach((changes, collection) => {
+    const key = RECORD_KEY[collection] as (x: unknown) => string;
+    const incoming = [...changes.values()].filter((x) => x !== null);
+    const checked = validatePool({ [collection]: collection === "staff" ? withLocalPins(incoming as StaffAccount[]) : incoming }, new Date().toISOString());
+    rejected.push(...checked.rejected);
+    const valid = new Map((checked.data[collection] as unknown[]).map((x) => [key(x), x]));
+    // an invalid incoming record leaves the local copy as it was
+    const current = getCached<unknown[]>(KEYS[collection]) ?? [];
+    const present = new Set(current.map(key));
+    const next = current.flatMap((x) => {
+      const k = key(x);
+      return !changes.has(k) ? [x] : changes.get(k) === null ? [] : [valid.get(k) ?? x];
+    });
+    const added = [...valid].filter(([k]) => !present.has(k)).map(([, x]) => x);
+    publishValue(KEYS[collection], [...added, ...next]);
+  });
+  if (rejected.length) quarantine(rejected);
+}
+
+function withLocalPins(list: StaffAccount[]): StaffAccount[] {
+  const local = new Map((getCached<StaffAccount[]>(KEYS.staff) ?? []).map((s) => [s.id, s]));
+  return list.map((s) => {
+    const mine = local.get(s.id);
+    return hasPin(s) || !mine ? { ...s, pin_hash: s.pin_hash ?? "", salt: s.salt ?? "" } : { ...s, pin_hash: mine.pin_hash, salt: mine.salt };
+  });
+}
+
+function quarantine(list: QuarantinedRecord[]) {
+  publishValue(KEYS.quarantine, [...list, ...(getCached<QuarantinedRecord[]>(KEYS.quarantine) ?? [])]);
+}
+
+async function push() {
+  let sent = outbox().slice(0, BATCH);
+  if (!sent.length || !source) return;
+  let portable = await Promise.all(sent.map(async (e) => ({
+    collection: e.collection, key: e.key, base_rev: e.base_rev,
+    record: !e.record ? e.record
+      : e.collection === "borrows" ? await portableBorrow(e.record as BorrowRecord)
+      : e.collection === "staff" ? withoutPin(e.record as StaffAccount)
+      : e.record,
+  })));
+  // signatures make borrows heavy; stop the batch at the byte budget (always at least one entry)
+  let n = 0;
+  for (let bytes = 0; n < portable.length; n++) {
+    bytes += JSON.stringify(portable[n]).length;
+    if (n && bytes > BATCH_BYTES) break;
+  }
+  sent = sent.slice(0, n);
+  portable = portable.slice(0, n);
+  let res: PushResult;
+  try {
+    res = await source.push(portable, SCHEMA_VERSION);
+  } catch (e: any) {
+    // a single record the server won't take would block the outbox for good; keep it for review instead
+    if (e?.name !== "TooLargeError" || sent.length > 1) throw e;
+    const [big] = sent;
+    saveValue(KEYS.outbox, outbox().filter((x) => x !== big));
+    quarantine([{ collection: big.collection, reason: "ข้อมูลมีขนาดเกินที่เซิร์ฟเวอร์รับ — มีผลเฉพาะเครื่องนี้", record: big.record, at: new Date().toISOString() }]);
+    setStatus({ pending: outbox().length });
+    return;
+  }
+  const revs = { ...syncState().revs };
+  // the server's copy of every key it settled in this push
+  const server = new Map<string, { record: unknown; rev: number }>();
+  res.applied.forEach((a) => {
+    revs[revKey(a)] = a.rev;
+    server.set(revKey(a), { record: portable.find((p) => revKey(p) === revKey(a))?.record ?? null, rev: a.rev });
+  });
+  const merged = new Map<string, RemoteChange>();
+  const lost: QuarantinedRecord[] = [];
+  const at = new Date().toISOString();
+  // account changes need the server's admin token; they stay on this device and are kept for review
+  const denied = new Set((res.denied ?? []).map(revKey));
+  for (const e of sent) {
+    if (denied.has(revKey(e))) lost.push({ collection: e.collection, reason: "เซิร์ฟเวอร์ไม่รับการแก้ไขบัญชีผู้ใช้จากเครื่องนี้ (ต้องใช้รหัสผู้ดูแล) — มีผลเฉพาะเครื่องนี้", record: e.record, at });
+  }
+  for (const c of res.conflicts) {
+    const mine = sent.find((e) => revKey(e) === revKey(c));
+    if (!mine) continue;
+    const m = mergeRecord(mine.base, mine.record, c.record);
+    revs[revKey(c)] = c.rev;
+    server.set(revKey(c), { record: c.record, rev: c.rev });
+    merged.set(revKey(c), { ...c, record: m.merged });
+    if (m.lost.length) lost.push({ collection: c.collection, reason: `ขัดแย้งกับข้อมูลบนเซิร์ฟเวอร์ (${m.lost.join(", ")}) — ใช้ค่าจากเซิร์ฟเวอร์`, record: mine.record, at });
+  }
+
+  // settled entries leave the outbox; one edited again while in flight, or a merge the server
+  // hasn't seen yet, goes back on top of the server's revision
+  const box: OutboxEntry[] = [];
+  const shown: RemoteChange[] = [];
+  for (const e of outbox()) {
+    if (denied.has(revKey(e)) && sent.includes(e)) continue;
+    const s = server.get(revKey(e));
+    if (!s) { box.push(e); continue; }
+    if (!sent.includes(e)) { box.push({ ...e, base: s.record, base_rev: s.rev }); continue; }
+    const m = merged.get(revKey(e));
+    if (!m) continue;
+    shown.push(m);
+    if (!same(m.record, s.record)) box.push({ ...e, record: m.record, base: s.record, base_rev: s.rev });
+  }
+  saveValue(KEYS.outbox, box);
+  saveValue(KEYS.syncState, { ...syncState(), revs });
+  applyLocal(shown);
+  if (lost.length) quarantine(lost);
+  setStatus({ pending: box.length });
+}
+
+async function pull() {
+  for (let more = true; more && source;) {
+    const { cursor, revs: known } = syncState();
+    const res = await source.pull(cursor);
+    if (res.schema > SCHEMA_VERSION) throw new Error("ข้อมูลบนเซิร์ฟเวอร์มาจากเวอร์ชันที่ใหม่กว่า — กรุณาอัปเดตแอปก่อนซิงก์");
+    // records with an unsent local edit are settled by the next push
+    const pending = new Set(outbox().map(revKey));
+    const revs = { ...known };
+    const fresh = res.changes.filter((c) => !pending.has(revKey(c)) && (revs[revKey(c)] ?? 0) < c.rev);
+    fresh.forEach((c) => { revs[revKey(c)] = c.rev; });
+    applyLocal(fresh);
+    saveValue(KEYS.syncState, { cursor: res.cursor, revs });
+    more = res.more;
+  }
+}
+
+/** One round: push the outbox, then pull. Only one tab of the browser syncs at a time. */
+export async function syncNow() {
+  if (!source || running) return;
+  if (typeof navigator !== "undefined" && navigator.onLine === false) { setStatus({ online: false }); return schedule(INTERVAL_MS); }
+  const round = async () => {
+    running = true;
+    setStatus({ syncing: true });
+    try {
+      await push();
+      await pull();
+      setStatus({ online: true, error: null, last: new Date().toISOString() });
+    } catch (e: any) {
+      console.warn("Sync failed", e);
+      setStatus(e?.name === "OfflineError" ? { online: false, error: null } : { online: true, error: e?.message || String(e) });
+    } finally {
+      running = false;
+      setStatus({ syncing: false, pending: outbox().length });
+      schedule(INTERVAL_MS);
+    }
+  };
+  if (navigator.locks) await navigator.locks.request("mp:sync", { ifAvailable: true }, (lock) => (lock ? round() : schedule(INTERVAL_MS)));
+  else await round();
+}
+
+/** Called once after the repository is open. */
+export function startSync() {
+  const cfg = getSyncConfig();
+  source = SOURCES[cfg.mode](cfg);
+  setStatus({ mode: cfg.mode, pending: outbox().length });
+  onCollectionWrite(enqueue);
+  subscribeKey(KEYS.outbox, (v) => setStatus({ pending: (v as OutboxEntry[] | undefined)?.length ?? 0 }));
+  window.addEventListener("online", () => { setStatus({ online: true }); syncNow(); });
+  window.addEventListener("offline", () => setStatus({ online: false }));
+  document.addEventListener("visibilitychange", () => { if (document.visibilityState === "visible") syncNow(); });
+  syncNow();
+}
+
+export const testSync = (cfg: SyncConfig): Promise<ServerInfo> => SOURCES[cfg.mode](cfg)?.info() ?? Promise.resolve({ records: 0, cursor: 0, schema: SCHEMA_VERSION });
+
+/**
+ * Switches this device to `cfg`. "upload" seeds an empty server with this device's
+ * pool; "download" replaces this device's pool with the server's.
+ */
+export async function connectSync(cfg: SyncConfig, start: "upload" | "download") {
+  clearTimeout(timer);
+  saveValue(KEYS.sync, cfg);
+  saveValue(KEYS.syncState, { cursor: 0, revs: {} });
+  let box: OutboxEntry[] = [];
+  if (start === "upload") {
+    box = COLLECTIONS.flatMap((c) => diffRecords(c, [], getCached<unknown[]>(KEYS[c]) ?? []).map((e) => ({ ...e, base_rev: 0 })));
+  } else {
+    // local accounts stay: the server has no PINs, so they are what lets staff sign in here
+    COLLECTIONS.filter((c) => c !== "staff").forEach((c) => publishValue(KEYS[c], []));
+  }
+  saveValue(KEYS.outbox, box);
+  source = SOURCES[cfg.mode](cfg);
+  setStatus({ mode: cfg.mode, pending: box.length, last: null, error: null });
+  await syncNow();
+}
+
+/** Back to local-only; the pool stays on this device, unsent edits are dropped from the queue. */
+export function disconnectSync() {
+  clearTimeout(timer);
+  source = null;
+  saveValue(KEYS.sync, DEFAULT_SYNC);
+  saveValue(KEYS.syncState, { cursor: 0, revs: {} });
+  saveValue(KEYS.outbox, []);
+  setStatus({ mode: "local", online: true, pending: 0, last: null, error: null });
+}
+
+/********** lightweight tests (console) **********/
+try {
+  const d = diffRecords("assets", [{ asset_id: "A", name: "x" }, { asset_id: "B" }], [{ asset_id: "A", name: "y" }, { asset_id: "C" }]);
+  console.assert(d.length === 3 && d[0].key === "A" && d[2].key === "B" && d[2].record === null, "diffRecords finds edits, inserts and deletes");
+  const m = mergeRecord({ a: 1, b: 1, c: 1 }, { a: 2, b: 1, c: 3 }, { a: 1, b: 2, c: 4 });
+  console.assert(same(m.merged, { a: 2, b: 2, c: 4 }) && same(m.lost, ["c"]), "mergeRecord keeps one-sided edits and the server's value on a clash");
+  console.assert(mergeRecord({ a: 1 }, { a: 2 }, null).merged !== null && mergeRecord({ a: 1 }, null, { a: 2 }).lost.length === 1, "an edit beats a delete");
+} catch (e) { console.warn("Sync sanity test failed", e); }
@@ -0,0 +1,347 @@
+/********** domain model **********/
+
+/** Departments are identified by their display name (e.g. "ICU", "OR 3"). */
+export type Department = string;
+
+/** Vendors are identified by their company name. */
+export type Vendor = string;
+
+export type Brand = string;
+
+export interface Model {
+  brand: Brand;
+  name: string;
+}
+
+/**
+ * Where a device is in its life. Only "in_service" devices can be lent; retired
+ * devices stay in the register so their history remains readable.
+ */
+export type AssetStatus = "in_service" | "under_repair" | "cleaning" | "calibration" | "retired";
+
+/** A registered medical device. `asset_id` is the primary key. */
+export interface Asset {
+  asset_id: string;
+  id_code: string;
+  name: string;
+  brand: Brand;
+  model: string;
+  vendor: Vendor;
+  serial: string;
+  purchase_date: string; // yyyy-mm-dd or ""
+  price: number | null;
+  status: AssetStatus;
+}
+
+/** One loan of one asset. Active while `returned_at` is null. */
+export interface BorrowRecord {
+  id: string;
+  asset_id: string;
+  asset_name: string;
+  peripherals: string;
+  lender_name: string;
+  borrower_name: string;
+  borrower_dept: Department;
+  start_date: string; // yyyy-mm-dd
+  end_date: string | null; // yyyy-mm-dd
+  returned_at: string | null; // ISO timestamp
+  borrower_sign: string | null; // image URL (data: or blob:)
+  created_at: string; // ISO timestamp
+  group_id: string | null; // transaction ID shared by assets checked out together
+  receiver_sign: string | null; // image URL of whoever received the device back
+  inspection: ReturnInspection | null; // set on return
+}
+
+export type ReturnCondition = "good" | "worn" | "damaged" | "contaminated";
+
+/** What the receiving staff found when a device came back. */
+export interface ReturnInspection {
+  received_by: string;
+  condition: ReturnCondition;
+  /** peripherals listed at checkout that did not come back */
+  missing: string[];
+  notes: string;
+  /** status the asset was sent to instead of going back into service */
+  moved_to: AssetStatus | null;
+}
+
+/** One entry of an asset's status history. */
+export interface StatusChange {
+  id: string;
+  asset_id: string;
+  from: AssetStatus;
+  to: AssetStatus;
+  date: string; // yyyy-mm-dd, when the change took effect
+  reason: string;
+  changed_by: string;
+  created_at: string; // ISO timestamp
+}
+
+/** Periodic work a device needs: preventive maintenance or calibration. */
+export type ServiceKind = "pm" | "calibration";
+
+/**
+ * How often a kind of service is due. Applies to every asset of `brand`/`model`,
+ * or only to `asset_id` when that is set; an asset plan overrides the model plan.
+ */
+export interface ServicePlan {
+  id: string;
+  kind: ServiceKind;
+  brand: Brand;
+  model: string;
+  asset_id: string; // "" for a model-wide plan
+  interval_months: number;
+}
+
+/** Completed PM or calibration of one asset. */
+export interface ServiceRecord {
+  id: string;
+  asset_id: string;
+  kind: ServiceKind;
+  date: string; // yyyy-mm-dd
+  vendor: Vendor;
+  result: "pass" | "adjusted" | "fail";
+  certificate: string; // certificate number or note
+  created_at: string; // ISO timestamp
+}
+
+/** A future booking of one asset; turned into a BorrowRecord when the device is picked up. */
+export interface Reservation {
+  id: string;
+  asset_id: string;
+  dept: Department;
+  requester: string;
+  start_date: string; // yyyy-mm-dd
+  end_date: string; // yyyy-mm-dd, inclusive
+  note: string;
+  status: "booked" | "cancelled" | "converted";
+  borrow_id: string | null; // set once converted
+  created_at: string; // ISO timestamp
+}
+
+/**
+ * A department waiting for any unit of a device type: a brand/model when `model`
+ * is set, otherwise any asset with the same `name`.
+ */
+export interface WaitlistEntry {
+  id: string;
+  dept: Department;
+  requester: string;
+  brand: Brand;
+  model: string;
+  name: string;
+  priority: "urgent" | "high" | "normal";
+  note: string;
+  status: "waiting" | "fulfilled" | "cancelled";
+  requested_at: string; // ISO timestamp
+  borrow_id: string | null; // loan that served the request
+}
+
+/**
+ * Longest loan allowed for a department and/or device. Empty fields match anything;
+ * when several rules match a loan the shortest limit applies.
+ */
+export interface LoanRule {
+  id: string;
+  dept: Department;
+  brand: Brand;
+  model: string;
+  max_days: number;
+}
+
+/** Loan-duration policy, kept with the settings. */
+export interface LoanPolicy {
+  /** limit for loans no rule matches */
+  max_days: number;
+  /** days before the due date at which a loan shows as due soon */
+  warn_days: number;
+  rules: LoanRule[];
+}
+
+/** Reached once a loan is `after_days` past due; later steps escalate further. */
+export interface EscalationStep {
+  id: string;
+  after_days: number;
+  /** who is told at this step, e.g. "หัวหน้าหอผู้ป่วย" */
+  label: string;
+}
+
+/** Overdue checks and escalation, kept with the settings. */
+export interface NotifyPolicy {
+  enabled: boolean;
+  /** also raise a browser (Notification API) alert */
+  browser: boolean;
+  /** minutes between checks while the app is open */
+  check_minutes: number;
+  steps: EscalationStep[];
+}
+
+/** Fixed daily charge for a brand (model "" = every model of it) or one model. */
+export interface CostRate {
+  id: string;
+  brand: Brand;
+  model: string;
+  daily_rate: number;
+}
+
+/**
+ * How device-days are priced for departmental cost allocation, kept with the settings.
+ * Devices without a matching rate are charged straight-line depreciation of their price.
+ */
+export interface CostPolicy {
+  life_years: number;
+  /** value left at the end of life, percent of the price */
+  residual_pct: number;
+  rates: CostRate[];
+}
+
+export type MessageEvent = "borrow_created" | "return_recorded" | "due_soon" | "overdue";
+
+export type ChannelKind = "webhook" | "smtp" | "line";
+
+/** Where loan events for a department are sent; kept per device since it holds access tokens. */
+export interface MessageChannel {
+  id: string;
+  name: string;
+  kind: ChannelKind;
+  /** "" = every department */
+  dept: Department;
+  events: MessageEvent[];
+  /** webhook URL, SMTP relay URL or LINE Notify–style endpoint */
+  url: string;
+  token: string;
+  /** e-mail recipients (smtp only), comma separated */
+  to: string;
+  enabled: boolean;
+}
+
+export type DeliveryStatus = "pending" | "sent" | "failed";
+
+/** One message to one channel, from queueing to delivery or giving up. */
+export interface Delivery {
+  id: string;
+  channel_id: string;
+  event: MessageEvent;
+  /** borrow id the message is about; with `event` it keeps a message from being queued twice */
+  ref: string;
+  subject: string;
+  text: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_at: string;
+  error: string;
+  created_at: string;
+  sent_at: string | null;
+}
+
+export type ReportColumn =
+  | "asset_id" | "asset_name" | "brand" | "model" | "borrower_name" | "borrower_dept" | "lender_name" | "peripherals"
+  | "start_date" | "due_date" | "returned_at" | "duration" | "status" | "days_over" | "received_by" | "borrower_sign";
+
+/** "overdue" covers loans still out past due and loans that came back late. */
+export type ReportStatus = "all" | "active" | "returned" | "overdue";
+
+/** Start-date range relative to the day the report is run, so a saved template stays current. */
+export type ReportPeriod = "custom" | "this_month" | "last_month" | "this_year";
+
+export interface ReportFilter {
+  period: ReportPeriod;
+  from: string; // yyyy-mm-dd or "", on start_date; used when period is "custom"
+  to: string;
+  dept: Department;
+  status: ReportStatus;
+  /** text matched against asset id and name */
+  asset: string;
+  brand: Brand;
+  lender: string;
+  borrower: string;
+}
+
+/** A saved report: which columns, which loans, how grouped and sorted. Kept per device. */
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  columns: ReportColumn[];
+  filter: ReportFilter;
+  group_by: "" | "dept" | "model";
+  sort_by: ReportColumn;
+  sort_desc: boolean;
+}
+
+/** One escalation step reached by one overdue loan; kept per device. */
+export interface OverdueAlert {
+  id: string;
+  borrow_id: string;
+  asset_id: string;
+  dept: Department;
+  borrower_name: string;
+  step_id: string;
+  /** 1-based position of the step when raised */
+  level: number;
+  label: string;
+  days_over: number;
+  created_at: string;
+  ack_at: string | null;
+  ack_by: string;
+}
+
+export type StaffRole = "admin" | "engineer" | "nurse" | "viewer";
+
+/** A person who signs in on the terminal. The PIN itself is never stored. */
+export interface StaffAccount {
+  id: string;
+  name: string;
+  role: StaffRole;
+  pin_hash: string; // PBKDF2-SHA-256, hex
+  salt: string; // hex
+  active: boolean;
+  created_at: string; // ISO timestamp
+}
+
+export type AuditAction = "create" | "update" | "delete" | "return" | "status" | "cancel" | "restore" | "reset" | "undo";
+
+/** What an audit entry is about: a collection, or the pool / settings / quarantine as a whole. */
+export type AuditEntity = PoolCollection | "pool" | "settings" | "quarantine";
+
+/**
+ * One line of the append-only audit trail. `before`/`after` are snapshots with
+ * signatures left out; null before a create and after a delete.
+ */
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO timestamp
+  actor: string;
+  action: AuditAction;
+  entity: AuditEntity;
+  ref: string; // key of the record, "" for a whole list
+  before: unknown;
+  after: unknown;
+  undoes: string | null; // id of the entry this one reverses
+}
+
+/** Everything the pool persists as records (settings excluded). */
+export interface PoolData {
+  brands: Brand[];
+  models: Model[];
+  vendors: Vendor[];
+  depts: Department[];
+  assets: Asset[];
+  borrows: BorrowRecord[];
+  statusLog: StatusChange[];
+  servicePlans: ServicePlan[];
+  serviceLog: ServiceRecord[];
+  reservations: Reservation[];
+  waitlist: WaitlistEntry[];
+  audit: AuditEntry[];
+  staff: StaffAccount[];
+}
+
+export type PoolCollection = keyof PoolData;
+
+/** A stored record that failed validation on load and was set aside. */
+export interface QuarantinedRecord {
+  collection: PoolCollection;
+  reason: string;
+  record: unknown;
+  at: string; // ISO timestamp
+}
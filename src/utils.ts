@@ -0,0 +1,62 @@
+/********** utils **********/
+export const uid = (): string => Math.random().toString(36).slice(2) + Date.now().toString(36);
+export const todayStr = (): string => new Date().toISOString().slice(0, 10);
+export const addDays = (d: string, n: number): string => {
+  const x = new Date(d);
+  x.setDate(x.getDate() + n);
+  return x.toISOString().slice(0, 10);
+};
+export const isValidDate = (d: any) => d instanceof Date && !isNaN(d.getTime());
+export const formatDate = (d?: string | null): string => {
+  if (!d) return "";
+  const x = new Date(d);
+  return isValidDate(x) ? x.toLocaleDateString() : "";
+};
+export const daysBetween = (a: string, b: string | Date = new Date()): number => {
+  const d1 = new Date(a), d2 = new Date(b);
+  if (!isValidDate(d1) || !isValidDate(d2)) return 0;
+  return Math.floor((d2.getTime() - d1.getTime()) / 86400000);
+};
+
+// SheetJS (XLSX), bundled as its own chunk so the main bundle stays small; the
+// service worker precaches it, so export works on networks without internet.
+export async function loadXLSX(): Promise<any> {
+  try {
+    return await import("xlsx");
+  } catch {
+    throw new Error("โหลดไลบรารี XLSX ไม่สำเร็จ");
+  }
+}
+
+/** Saves a blob through a temporary <a download> link. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a"); a.href = url; a.download = filename;
+  document.body.appendChild(a); a.click(); document.body.removeChild(a); URL.revokeObjectURL(url);
+}
+
+export const escapeHtml = (v: unknown): string =>
+  String(v ?? "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+
+/** Writes a complete HTML document into a new window; the document prints itself on load. */
+export function openPrintWindow(html: string): boolean {
+  const w = window.open("", "_blank");
+  if (!w) { alert("เบราว์เซอร์บล็อกป๊อปอัป กรุณาอนุญาต แล้วลองใหม่"); return false; }
+  w.document.open(); w.document.write(html); w.document.close(); w.focus();
+  return true;
+}
+
+/** Script tag that triggers the print dialog once images have loaded. */
+export const AUTO_PRINT = "<script>window.addEventListener('load',()=>{setTimeout(()=>{window.print();},100)});</script>";
+
+/********** lightweight tests (console) **********/
+try {
+  console.assert(daysBetween("2024-01-01", "2024-01-02") === 1, "daysBetween should be 1 day");
+  const ts = todayStr(); console.assert(ts.length === 10 && ts[4] === "-" && ts[7] === "-", "todayStr format yyyy-mm-dd");
+  const activeIdsTest = [{ asset_id: "A" }, { asset_id: "B" }, { asset_id: "A" }];
+  console.assert(new Set(activeIdsTest.map(b => b.asset_id)).size === 2, "unique borrowed asset count");
+  console.assert(addDays("2024-01-01", 1) === "2024-01-02", "addDays +1");
+  console.assert(formatDate("invalid-date") === "", "formatDate invalid returns empty");
+  console.assert(daysBetween("2024-01-10", "2024-01-01") === -9 || daysBetween("2024-01-10", "2024-01-01") <= 0, "daysBetween handles reverse order");
+  console.log("UI sanity tests passed");
+} catch (e) { console.warn("Sanity test failed", e); }
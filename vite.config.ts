@@ -1,6 +1,33 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
 
+// files copied from public/ that the app shell needs offline
+const PUBLIC_SHELL = ['manifest.webmanifest', 'icon-192.png', 'icon-512.png']
+
+// Emits sw.js precaching every file of the build. Its version is a hash of the
+// (content-hashed) file names, so each release installs as an update.
+function serviceWorker(): Plugin {
+  return {
+    name: 'medical-pool-sw',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const files = [...new Set(['index.html', ...Object.keys(bundle), ...PUBLIC_SHELL])].filter((f) => !f.endsWith('.map')).sort()
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12)
+      const template = readFileSync(new URL('./src/pwa/sw.js', import.meta.url), 'utf8')
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: `const VERSION = ${JSON.stringify(version)};\nconst PRECACHE = ${JSON.stringify(files)};\n\n${template}`,
+      })
+    },
+  }
+}
+
+// relative URLs, like sw.js and the manifest's start_url, so the build also runs from a sub-path
 export default defineConfig({
-  plugins: [react()],
-})
\ No newline at end of file
+  base: './',
+  plugins: [react(), serviceWorker()],
+})